@@ -3,23 +3,56 @@ import { useEffect } from 'react'
 import { onAuthStateChanged } from '@firebase/auth'
 import { auth } from './services/firebase'
 import { useAuthStore } from './store/authStore'
+import { useWorkspaceStore } from './store/workspaceStore'
+import { useUserStore } from './store/userStore'
 import { Login } from './components/auth/Login'
 import { PrivateRoute } from './components/auth/PrivateRoute'
 import { Header } from './components/layout/Header'
+import { Toasts } from './components/layout/Toasts'
 import { TaskView } from './components/tasks/TaskView'
 import './App.css'
 
 function App() {
-  const { setUser, setLoading } = useAuthStore()
+  const { user, isGuest, emailVerified, setUser, setLoading } = useAuthStore()
+  const { fetchWorkspaces, cleanup } = useWorkspaceStore()
+  const { profile, saveProfile, shareProfile, fetchProfiles, cleanup: cleanupProfiles } = useUserStore()
+  const activeWorkspaceId = useWorkspaceStore((state) => state.activeWorkspaceId)
+  // Joined into a string so the effect only re-runs when the workspaces change
+  const workspaceKey = useWorkspaceStore((state) => state.workspaces.map((workspace) => workspace.id).join(','))
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user)
       setLoading(false)
+      if (user) {
+        saveProfile(user)
+      }
     })
 
     return () => unsubscribe()
-  }, [setUser, setLoading])
+  }, [setUser, setLoading, saveProfile])
+
+  // Re-run when a guest upgrades or the email is verified: same user, but
+  // now with an email to get invites for
+  useEffect(() => {
+    if (user) {
+      fetchWorkspaces(user)
+    }
+    return () => cleanup()
+  }, [user, isGuest, emailVerified, fetchWorkspaces, cleanup])
+
+  useEffect(() => {
+    if (profile && workspaceKey) {
+      shareProfile(workspaceKey.split(','))
+    }
+  }, [profile, workspaceKey, shareProfile])
+
+  useEffect(() => {
+    if (activeWorkspaceId) {
+      fetchProfiles(activeWorkspaceId)
+    }
+    return () => cleanupProfiles()
+  }, [activeWorkspaceId, fetchProfiles, cleanupProfiles])
 
   return (
     <Router>
@@ -39,6 +72,7 @@ function App() {
           />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
+        <Toasts />
       </div>
     </Router>
   )
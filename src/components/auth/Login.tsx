@@ -1,51 +1,119 @@
-import { GoogleAuthProvider, signInWithPopup } from '@firebase/auth';
-import { FirebaseError } from '@firebase/util';
-import { auth } from '../../services/firebase';
+import { FormEvent, useEffect, useRef, useState } from 'react';
 import { useAuthStore } from '../../store/authStore';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
+
+type EmailMode = 'signIn' | 'signUp' | 'link' | 'reset';
+
+const EMAIL_MODES: { mode: EmailMode; label: string }[] = [
+  { mode: 'signIn', label: 'Sign in' },
+  { mode: 'signUp', label: 'Create account' },
+  { mode: 'link', label: 'Email me a link' }
+];
+
+// Only paths inside the app, a crafted link can't send users elsewhere
+const getRedirectPath = (from: string | null | undefined) =>
+  from && from.startsWith('/') && !from.startsWith('//') ? from : '/';
 
 export const Login = () => {
-  const setUser = useAuthStore((state) => state.setUser);
+  const {
+    user,
+    isGuest,
+    error,
+    notice,
+    submitting,
+    clearMessages,
+    signInWithGoogle,
+    completeRedirectSignIn,
+    signUpWithEmail,
+    signInWithEmail,
+    sendPasswordReset,
+    sendSignInLink,
+    isSignInLink,
+    getEmailForSignInLink,
+    completeSignInLink,
+    signInAsGuest
+  } = useAuthStore();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Sign-in links come back with the page to return to in the URL
+  const redirectTo = getRedirectPath(
+    (location.state as { from?: string } | null)?.from ?? new URLSearchParams(location.search).get('from')
+  );
+
+  const [mode, setMode] = useState<EmailMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  // An opened sign-in link whose address this browser doesn't know
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  const handledLink = useRef(false);
+
+  useEffect(() => clearMessages, [clearMessages]);
+
+  // Guests come here to upgrade, everyone else signed in moves on
+  useEffect(() => {
+    if (user && !isGuest) navigate(redirectTo, { replace: true });
+  }, [user, isGuest, navigate, redirectTo]);
 
-  const handleGoogleSignIn = async () => {
-    try {
-      const provider = new GoogleAuthProvider();
-      provider.setCustomParameters({
-        prompt: 'select_account'
-      });
-      console.log('Initiating Google Sign In...');
-      const result = await signInWithPopup(auth, provider);
-      console.log('Sign in successful:', result.user.email);
-      console.log('Authenticated User UID:', result.user.uid);
-      setUser(result.user);
-      navigate('/');
-    } catch (error: unknown) {
-      if (error instanceof FirebaseError) {
-        console.error('Detailed sign-in error:', {
-          code: error.code,
-          message: error.message,
-          credential: error.customData?.credential
-        });
-        
-        // Handle specific error cases
-        if (error.code === 'auth/popup-blocked') {
-          alert('Please enable popups for this website to sign in with Google');
-        } else if (error.code === 'auth/cancelled-popup-request') {
-          console.log('Sign-in cancelled by user');
-        } else {
-          alert('Error signing in. Please try again.');
-        }
+  useEffect(() => {
+    if (handledLink.current) return;
+    handledLink.current = true;
+
+    const link = window.location.href;
+    if (isSignInLink(link)) {
+      const storedEmail = getEmailForSignInLink();
+      if (storedEmail) {
+        completeSignInLink(storedEmail, link).then((signedIn) => signedIn && navigate(redirectTo, { replace: true }));
       } else {
-        console.error('Unknown error:', error);
+        setPendingLink(link);
       }
+    } else {
+      completeRedirectSignIn().then((signedIn) => signedIn && navigate(redirectTo, { replace: true }));
     }
+  }, [isSignInLink, getEmailForSignInLink, completeSignInLink, completeRedirectSignIn, navigate, redirectTo]);
+
+  const finish = (signedIn: boolean) => {
+    if (signedIn) navigate(redirectTo, { replace: true });
+  };
+
+  const changeMode = (next: EmailMode) => {
+    clearMessages();
+    setMode(next);
   };
 
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (pendingLink) {
+      finish(await completeSignInLink(email.trim(), pendingLink));
+      return;
+    }
+    switch (mode) {
+      case 'signIn':
+        finish(await signInWithEmail(email.trim(), password));
+        break;
+      case 'signUp':
+        finish(await signUpWithEmail(email.trim(), password, displayName.trim()));
+        break;
+      case 'link':
+        await sendSignInLink(
+          email.trim(),
+          `${window.location.origin}/login?from=${encodeURIComponent(redirectTo)}`
+        );
+        break;
+      case 'reset':
+        await sendPasswordReset(email.trim());
+        break;
+    }
+  };
+
+  const submitLabel = pendingLink
+    ? 'Continue'
+    : { signIn: 'Sign in', signUp: 'Create account', link: 'Send sign-in link', reset: 'Send reset link' }[mode];
+
   return (
     <div className="min-h-screen flex">
       {/* Left Section */}
-      <div className="w-1/2 flex items-center justify-center bg-white p-8">
+      <div className="w-full md:w-1/2 flex items-center justify-center bg-white p-8">
         <div className="max-w-md w-full">
           <div className="text-center">
             <div className="flex items-center justify-center mb-8">
@@ -57,25 +125,142 @@ export const Login = () => {
               </div>
             </div>
             <h2 className="text-xl text-gray-600 mb-8">
-              Streamline your workflow and track progress effortlessly with our all-in-one task management app.
+              {isGuest
+                ? 'Sign in or create an account to keep the tasks from your guest session.'
+                : 'Streamline your workflow and track progress effortlessly with our all-in-one task management app.'}
             </h2>
           </div>
-          <button
-            onClick={handleGoogleSignIn}
-            className="w-full flex items-center justify-center px-4 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500"
-          >
-            <img
-              className="w-6 h-6 mr-2"
-              src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg"
-              alt="Google logo"
-            />
-            Continue with Google
-          </button>
+
+          {error && (
+            <p role="alert" className="mb-4 p-3 rounded-md bg-red-50 text-sm text-red-700">{error}</p>
+          )}
+          {notice && (
+            <p role="status" className="mb-4 p-3 rounded-md bg-green-50 text-sm text-green-700">{notice}</p>
+          )}
+
+          {!pendingLink && (
+            <>
+              <button
+                onClick={async () => finish(await signInWithGoogle())}
+                disabled={submitting}
+                className="w-full flex items-center justify-center px-4 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+              >
+                <img
+                  className="w-6 h-6 mr-2"
+                  src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg"
+                  alt="Google logo"
+                />
+                Continue with Google
+              </button>
+
+              <div className="flex items-center my-6 text-sm text-gray-400">
+                <div className="flex-1 border-t border-gray-200" />
+                <span className="px-3">or</span>
+                <div className="flex-1 border-t border-gray-200" />
+              </div>
+
+              <div className="flex mb-4 border-b border-gray-200" role="tablist">
+                {EMAIL_MODES.map((option) => (
+                  <button
+                    key={option.mode}
+                    role="tab"
+                    aria-selected={mode === option.mode}
+                    onClick={() => changeMode(option.mode)}
+                    className={`flex-1 pb-2 text-sm font-medium border-b-2 -mb-px ${
+                      mode === option.mode
+                        ? 'border-purple-600 text-purple-700'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {pendingLink && (
+              <p className="text-sm text-gray-600">Confirm the email address the sign-in link was sent to.</p>
+            )}
+            {mode === 'signUp' && !pendingLink && (
+              <div>
+                <label htmlFor="login-name" className="form-label">Name</label>
+                <input
+                  id="login-name"
+                  type="text"
+                  autoComplete="name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  className="form-input mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="login-email" className="form-label">Email</label>
+              <input
+                id="login-email"
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="form-input mt-1"
+              />
+            </div>
+            {(mode === 'signIn' || mode === 'signUp') && !pendingLink && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="login-password" className="form-label">Password</label>
+                  {mode === 'signIn' && (
+                    <button
+                      type="button"
+                      onClick={() => changeMode('reset')}
+                      className="text-sm text-purple-600 hover:text-purple-800"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <input
+                  id="login-password"
+                  type="password"
+                  required
+                  minLength={6}
+                  autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="form-input mt-1"
+                />
+              </div>
+            )}
+            {mode === 'reset' && !pendingLink && (
+              <p className="text-sm text-gray-600">
+                We&apos;ll email you a link to choose a new password.{' '}
+                <button type="button" onClick={() => changeMode('signIn')} className="text-purple-600 hover:text-purple-800">
+                  Back to sign in
+                </button>
+              </p>
+            )}
+            <button type="submit" disabled={submitting} className="btn btn-primary w-full disabled:opacity-50">
+              {submitLabel}
+            </button>
+          </form>
+
+          {!user && !pendingLink && (
+            <button
+              onClick={async () => finish(await signInAsGuest())}
+              disabled={submitting}
+              className="mt-6 w-full text-sm text-gray-500 hover:text-gray-700"
+            >
+              Try it without an account
+            </button>
+          )}
         </div>
       </div>
 
       {/* Right Section - Preview */}
-      <div className="w-1/2 bg-gray-50 p-8 flex items-center justify-center">
+      <div className="hidden md:flex w-1/2 bg-gray-50 p-8 items-center justify-center">
         <div className="max-w-2xl w-full bg-white rounded-lg shadow-lg p-6">
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center space-x-2">
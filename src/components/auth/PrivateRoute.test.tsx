@@ -0,0 +1,46 @@
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PrivateRoute } from './PrivateRoute';
+import { useAuthStore } from '../../store/authStore';
+import { signInAs } from '../../test/fixtures';
+
+const LoginPage = () => {
+  const location = useLocation();
+  return <p>Login, back to {(location.state as { from?: string } | null)?.from}</p>;
+};
+
+const renderAt = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/" element={<PrivateRoute><p>Tasks</p></PrivateRoute>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('PrivateRoute', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ user: null, loading: false });
+  });
+
+  it('redirects signed-out users to the login page, remembering the page', () => {
+    renderAt('/?view=board&q=report');
+    expect(screen.getByText('Login, back to /?view=board&q=report')).toBeInTheDocument();
+    expect(screen.queryByText('Tasks')).not.toBeInTheDocument();
+  });
+
+  it('waits for the auth state before deciding', () => {
+    useAuthStore.setState({ loading: true });
+    renderAt('/');
+    expect(screen.queryByText('Tasks')).not.toBeInTheDocument();
+    expect(screen.queryByText(/Login/)).not.toBeInTheDocument();
+  });
+
+  it('renders the page for signed-in users', () => {
+    signInAs();
+    renderAt('/');
+    expect(screen.getByText('Tasks')).toBeInTheDocument();
+  });
+});
@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
 
 interface PrivateRouteProps {
@@ -7,6 +7,7 @@ interface PrivateRouteProps {
 
 export const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
   const { user, loading } = useAuthStore();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -17,7 +18,8 @@ export const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
   }
 
   if (!user) {
-    return <Navigate to="/login" />;
+    // Remember the page, so a shared view link opens after signing in
+    return <Navigate to="/login" state={{ from: `${location.pathname}${location.search}` }} />;
   }
 
   return <>{children}</>;
@@ -3,12 +3,21 @@ import { auth } from '../../services/firebase';
 import { useAuthStore } from '../../store/authStore';
 import { useTaskStore } from '../../store/taskStore';
 import { FaSearch } from 'react-icons/fa';
+import { useNavigate } from 'react-router-dom';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { OfflineIndicator } from './OfflineIndicator';
+import { NotificationCenter } from './NotificationCenter';
 
 export const Header = () => {
   const user = useAuthStore((state) => state.user);
+  const isGuest = useAuthStore((state) => state.isGuest);
+  const navigate = useNavigate();
   const { viewMode, setViewMode, searchQuery, setSearchQuery } = useTaskStore();
 
   const handleSignOut = async () => {
+    if (isGuest && !window.confirm('Signing out of a guest session deletes access to its tasks. Sign out anyway?')) {
+      return;
+    }
     try {
       await signOut(auth);
     } catch (error) {
@@ -47,6 +56,9 @@ export const Header = () => {
           </div>
 
           <div className="flex items-center space-x-4">
+            <OfflineIndicator />
+            {user && <NotificationCenter />}
+            <WorkspaceSwitcher />
             <div className="search-container">
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -64,7 +76,13 @@ export const Header = () => {
 
             {user && (
               <div className="flex items-center space-x-2 sm:space-x-4">
-                <span className="text-sm sm:text-base text-gray-700">{user.email}</span>
+                {isGuest ? (
+                  <button onClick={() => navigate('/login')} className="btn btn-primary">
+                    Create account
+                  </button>
+                ) : (
+                  <span className="text-sm sm:text-base text-gray-700">{user.email}</span>
+                )}
                 <button
                   onClick={handleSignOut}
                   className="btn btn-secondary"
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { FaBell } from 'react-icons/fa';
+import { useAuthStore } from '../../store/authStore';
+import { useWorkspaceStore } from '../../store/workspaceStore';
+import { hasFiredReminder, markReminderFired, useNotificationStore } from '../../store/notificationStore';
+import { createReminderScheduler } from '../../utils/reminders';
+import { formatDueDate } from '../../utils/dueDate';
+
+export const NotificationCenter = () => {
+  const user = useAuthStore((state) => state.user);
+  const activeWorkspaceId = useWorkspaceStore((state) => state.activeWorkspaceId);
+  const {
+    notifications,
+    preferences,
+    preferencesLoaded,
+    reminderTasks,
+    permission,
+    error,
+    fetchNotifications,
+    watchReminders,
+    notify,
+    markRead,
+    markAllRead,
+    updatePreferences,
+    requestPermission,
+    runOverdueSummary,
+    cleanup
+  } = useNotificationStore();
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const schedulerRef = useRef<ReturnType<typeof createReminderScheduler> | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchNotifications(user.uid);
+    }
+    return () => cleanup();
+  }, [user, fetchNotifications, cleanup]);
+
+  useEffect(() => {
+    watchReminders(user ? activeWorkspaceId : null);
+  }, [user, activeWorkspaceId, watchReminders]);
+
+  useEffect(() => {
+    const scheduler = createReminderScheduler({
+      hasFired: hasFiredReminder,
+      markFired: markReminderFired,
+      onFire: (reminder) =>
+        notify({
+          id: reminder.key,
+          type: 'reminder',
+          title: reminder.title,
+          body: `Due ${formatDueDate(reminder.dueDate)}`,
+          taskId: reminder.taskId,
+          workspaceId: reminder.workspaceId
+        })
+    });
+    schedulerRef.current = scheduler;
+    return () => scheduler.stop();
+  }, [notify]);
+
+  // Waits for the stored preferences so a disabled reminder never fires
+  useEffect(() => {
+    if (!preferencesLoaded || !preferences.reminders) {
+      schedulerRef.current?.stop();
+      return;
+    }
+    schedulerRef.current?.update(reminderTasks, preferences.defaultReminderTime);
+  }, [reminderTasks, preferencesLoaded, preferences.reminders, preferences.defaultReminderTime]);
+
+  useEffect(() => {
+    if (preferencesLoaded && activeWorkspaceId) {
+      runOverdueSummary(activeWorkspaceId);
+    }
+  }, [preferencesLoaded, activeWorkspaceId, runOverdueSummary]);
+
+  const unreadCount = notifications.filter((notification) => !notification.read).length;
+
+  const handleBrowserToggle = (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      requestPermission();
+      return;
+    }
+    updatePreferences({ browserNotifications: enabled });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-full text-gray-600 hover:bg-gray-100"
+        aria-label={`Notifications${unreadCount ? `, ${unreadCount} unread` : ''}`}
+      >
+        <FaBell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border rounded-md shadow-lg z-40">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <span className="text-sm font-medium text-gray-800">Notifications</span>
+            <div className="flex items-center gap-3 text-xs">
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-purple-600 hover:text-purple-800">
+                  Mark all read
+                </button>
+              )}
+              <button onClick={() => setShowSettings(!showSettings)} className="text-gray-500 hover:text-gray-700">
+                {showSettings ? 'Done' : 'Settings'}
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="px-3 py-2 text-xs text-red-600">{error}</p>}
+
+          {showSettings ? (
+            <div className="p-3 space-y-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preferences.reminders}
+                  onChange={(e) => updatePreferences({ reminders: e.target.checked })}
+                />
+                Task reminders
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preferences.overdueSummary}
+                  onChange={(e) => updatePreferences({ overdueSummary: e.target.checked })}
+                />
+                Daily overdue summary
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={preferences.browserNotifications && permission === 'granted'}
+                  disabled={permission === 'unsupported' || permission === 'denied'}
+                  onChange={(e) => handleBrowserToggle(e.target.checked)}
+                />
+                Browser notifications
+              </label>
+              {permission === 'denied' && (
+                <p className="text-xs text-gray-500">Notifications are blocked in your browser settings.</p>
+              )}
+              <label className="flex items-center justify-between gap-2">
+                Remind tasks without a time at
+                <input
+                  type="time"
+                  value={preferences.defaultReminderTime}
+                  onChange={(e) => e.target.value && updatePreferences({ defaultReminderTime: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => !notification.read && markRead(notification.id)}
+                    className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${notification.read ? '' : 'bg-purple-50'}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    <p className="text-xs text-gray-600">{notification.body}</p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
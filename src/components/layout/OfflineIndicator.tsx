@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useTaskStore } from '../../store/taskStore';
+
+// Firestore keeps queued writes in IndexedDB while offline and sends them
+// once the connection is back
+export const OfflineIndicator = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  const queuedWrites = useTaskStore((state) =>
+    Object.values(state.pendingWrites).reduce((total, count) => total + count, 0)
+  );
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (online && queuedWrites === 0) return null;
+
+  const changes = `${queuedWrites} change${queuedWrites !== 1 ? 's' : ''}`;
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium ${
+        online ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-800'
+      }`}
+      role="status"
+    >
+      {online ? `Syncing ${changes}…` : `Offline${queuedWrites > 0 ? ` · ${changes} queued` : ''}`}
+    </span>
+  );
+};
@@ -0,0 +1,36 @@
+import { FaTimes } from 'react-icons/fa';
+import { useToastStore } from '../../store/toastStore';
+
+export const Toasts = () => {
+  const { toasts, dismissToast } = useToastStore();
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80" role="status" aria-live="polite">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg text-sm text-white ${
+            toast.variant === 'error' ? 'bg-red-600' : 'bg-gray-800'
+          }`}
+        >
+          <span className="flex-1">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                dismissToast(toast.id);
+              }}
+              className="font-semibold underline hover:no-underline"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button onClick={() => dismissToast(toast.id)} className="opacity-75 hover:opacity-100" aria-label="Dismiss">
+            <FaTimes className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
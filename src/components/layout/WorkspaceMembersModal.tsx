@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { useAuthStore } from '../../store/authStore';
+import { getWorkspaceRole, useWorkspaceStore } from '../../store/workspaceStore';
+import { Workspace, WorkspaceInvite, WorkspaceRole } from '../../types/workspace';
+
+interface WorkspaceMembersModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+}
+
+export const WorkspaceMembersModal = ({ workspace, onClose }: WorkspaceMembersModalProps) => {
+  const currentUserId = useAuthStore((state) => state.user?.uid);
+  const { inviteMember, updateMemberRole, removeMember } = useWorkspaceStore();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceInvite['role']>('editor');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isOwner = getWorkspaceRole(workspace, currentUserId) === 'owner';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await inviteMember(workspace.id, email, role);
+      setMessage(`Invite sent to ${email}`);
+      setEmail('');
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      setMessage('Could not send the invite. Please try again.');
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const leaving = userId === currentUserId;
+    const ownerCount = Object.values(workspace.members).filter((memberRole) => memberRole === 'owner').length;
+    if (leaving && isOwner && ownerCount === 1) {
+      setMessage('Make another member an owner before leaving this workspace.');
+      return;
+    }
+    if (!window.confirm(leaving ? `Leave ${workspace.name}?` : 'Remove this member?')) return;
+    await removeMember(workspace.id, userId);
+    if (leaving) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-lg">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">{workspace.name} members</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <ul className="divide-y">
+            {workspace.memberIds.map((memberId) => (
+              <li key={memberId} className="py-2 flex items-center justify-between gap-2">
+                <span className="text-sm text-gray-700 truncate">
+                  {workspace.memberEmails[memberId] ?? memberId}
+                  {memberId === currentUserId && ' (you)'}
+                </span>
+                <div className="flex items-center gap-2">
+                  {isOwner && memberId !== currentUserId ? (
+                    <select
+                      value={workspace.members[memberId]}
+                      onChange={(e) => updateMemberRole(workspace.id, memberId, e.target.value as WorkspaceRole)}
+                      className="border rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="owner">Owner</option>
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-500 capitalize">{workspace.members[memberId]}</span>
+                  )}
+                  {(isOwner || memberId === currentUserId) && (
+                    <button
+                      onClick={() => handleRemove(memberId)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      {memberId === currentUserId ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                className="flex-1 border rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+                required
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as WorkspaceInvite['role'])}
+                className="border rounded-md px-2 py-2 text-sm"
+              >
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+              <button type="submit" className="btn btn-primary">
+                Invite
+              </button>
+            </form>
+          )}
+          {message && <p className="text-sm text-gray-600">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useAuthStore } from '../../store/authStore';
+import { useWorkspaceStore } from '../../store/workspaceStore';
+import { WorkspaceMembersModal } from './WorkspaceMembersModal';
+
+export const WorkspaceSwitcher = () => {
+  const {
+    workspaces,
+    invites,
+    activeWorkspaceId,
+    setActiveWorkspace,
+    createWorkspace,
+    acceptInvite,
+    declineInvite
+  } = useWorkspaceStore();
+  const { user, isGuest, emailVerified, sendVerificationEmail, refreshEmailVerification } = useAuthStore();
+  const [showMembers, setShowMembers] = useState(false);
+
+  const handleChange = async (value: string) => {
+    if (value !== '__new') {
+      setActiveWorkspace(value);
+      return;
+    }
+    const name = window.prompt('Workspace name');
+    if (name?.trim()) {
+      await createWorkspace(name.trim());
+    }
+  };
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={activeWorkspaceId ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="px-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        aria-label="Workspace"
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+        <option value="__new">+ New workspace</option>
+      </select>
+      {activeWorkspace && !activeWorkspace.personal && (
+        <button
+          onClick={() => setShowMembers(true)}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Members ({activeWorkspace.memberIds.length})
+        </button>
+      )}
+      {user?.email && !isGuest && !emailVerified && (
+        <div className="relative group">
+          <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium cursor-default">
+            Verify email
+          </span>
+          <div className="absolute right-0 mt-1 w-64 bg-white border rounded-md shadow-lg p-2 z-40 hidden group-hover:block text-sm">
+            <p className="text-gray-700">
+              Invites to <span className="font-medium">{user.email}</span> show up once you open the link we emailed you.
+            </p>
+            <div className="flex gap-2 mt-1">
+              <button
+                onClick={() => refreshEmailVerification()}
+                className="text-purple-600 hover:text-purple-800"
+              >
+                I've verified
+              </button>
+              <button
+                onClick={() => sendVerificationEmail()}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                Resend link
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      {invites.length > 0 && (
+        <div className="relative group">
+          <span className="px-2 py-1 rounded-full bg-purple-100 text-purple-700 text-xs font-medium cursor-default">
+            {invites.length} invite{invites.length !== 1 ? 's' : ''}
+          </span>
+          <div className="absolute right-0 mt-1 w-64 bg-white border rounded-md shadow-lg p-2 z-40 hidden group-hover:block">
+            {invites.map((invite) => (
+              <div key={invite.workspaceId} className="py-1 text-sm">
+                <p className="text-gray-700">
+                  Join <span className="font-medium">{invite.workspaceName}</span> as {invite.role}
+                </p>
+                <div className="flex gap-2 mt-1">
+                  <button
+                    onClick={() => acceptInvite(invite)}
+                    className="text-purple-600 hover:text-purple-800"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => declineInvite(invite)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {showMembers && activeWorkspace && (
+        <WorkspaceMembersModal
+          workspace={activeWorkspace}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { useUserStore, getProfileName } from '../../store/userStore';
+import { useWorkspaceStore } from '../../store/workspaceStore';
+import { UserProfile } from '../../types/user';
+
+const Avatar = ({ profile, size = 'w-6 h-6' }: { profile?: UserProfile; size?: string }) => {
+  const name = getProfileName(profile);
+  if (profile?.photoURL) {
+    return (
+      <img
+        src={profile.photoURL}
+        alt={name}
+        title={name}
+        referrerPolicy="no-referrer"
+        className={`${size} rounded-full ring-2 ring-white object-cover`}
+      />
+    );
+  }
+  return (
+    <span
+      title={name}
+      className={`${size} rounded-full ring-2 ring-white bg-purple-200 text-purple-800 text-xs font-medium inline-flex items-center justify-center`}
+    >
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+export const AssigneeAvatars = ({ assigneeIds, max = 3 }: { assigneeIds?: string[]; max?: number }) => {
+  const profiles = useUserStore((state) => state.profiles);
+  if (!assigneeIds?.length) return null;
+
+  const hidden = assigneeIds.length - max;
+  return (
+    <div className="flex -space-x-1.5">
+      {assigneeIds.slice(0, max).map((userId) => (
+        <Avatar key={userId} profile={profiles[userId]} />
+      ))}
+      {hidden > 0 && (
+        <span className="w-6 h-6 rounded-full ring-2 ring-white bg-gray-200 text-gray-700 text-xs inline-flex items-center justify-center">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+};
+
+interface AssigneePickerProps {
+  value: string[];
+  onChange: (assigneeIds: string[]) => void;
+}
+
+// Anyone in the active workspace can be assigned
+export const AssigneePicker = ({ value, onChange }: AssigneePickerProps) => {
+  const profiles = useUserStore((state) => state.profiles);
+  const memberIds = useWorkspaceStore((state) =>
+    state.workspaces.find((workspace) => workspace.id === state.activeWorkspaceId)?.memberIds
+  ) ?? [];
+
+  const toggle = (userId: string) => {
+    onChange(value.includes(userId) ? value.filter((id) => id !== userId) : [...value, userId]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {memberIds.map((userId) => {
+        const selected = value.includes(userId);
+        return (
+          <button
+            key={userId}
+            type="button"
+            onClick={() => toggle(userId)}
+            className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm ${
+              selected
+                ? 'border-purple-600 bg-purple-50 text-purple-700'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={selected}
+          >
+            <Avatar profile={profiles[userId]} />
+            {getProfileName(profiles[userId])}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
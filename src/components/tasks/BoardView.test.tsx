@@ -0,0 +1,160 @@
+import { ReactNode } from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import { DropResult } from '@hello-pangea/dnd';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BoardView } from './BoardView';
+import { taskRepository } from '../../services/taskRepository';
+import { useTaskStore } from '../../store/taskStore';
+import { Task } from '../../types/task';
+import { buildTask, openWorkspace, signInAs } from '../../test/fixtures';
+import { sortByOrder } from '../../utils/taskOrder';
+
+// jsdom has no layout, so drags are simulated by calling the board's
+// onDragEnd the way the library does at the end of a drag
+const dnd = vi.hoisted(() => ({ onDragEnd: null as ((result: DropResult) => void) | null }));
+
+vi.mock('@hello-pangea/dnd', () => ({
+  DragDropContext: ({ children, onDragEnd }: { children: ReactNode; onDragEnd: (result: DropResult) => void }) => {
+    dnd.onDragEnd = onDragEnd;
+    return children;
+  },
+  Droppable: ({ children }: { children: (provided: unknown, snapshot: unknown) => ReactNode }) =>
+    children({ innerRef: () => {}, droppableProps: {}, placeholder: null }, { isDraggingOver: false }),
+  Draggable: ({ children, isDragDisabled }: {
+    children: (provided: unknown, snapshot: unknown) => ReactNode;
+    isDragDisabled?: boolean;
+  }) => (
+    <div data-drag-disabled={String(Boolean(isDragDisabled))}>
+      {children({ innerRef: () => {}, draggableProps: {}, dragHandleProps: {} }, { isDragging: false })}
+    </div>
+  )
+}));
+
+const drag = (draggableId: string, from: [string, number], to: [string, number]) =>
+  dnd.onDragEnd?.({
+    draggableId,
+    type: 'DEFAULT',
+    mode: 'FLUID',
+    reason: 'DROP',
+    source: { droppableId: from[0], index: from[1] },
+    destination: { droppableId: to[0], index: to[1] },
+    combine: null
+  });
+
+// Rendered from the store like TaskView does, and wired up the same way
+const Board = ({ readOnly = false }: { readOnly?: boolean }) => {
+  const tasks = useTaskStore((state) => state.tasks);
+  return (
+    <BoardView
+      tasks={tasks}
+      onTaskMove={(result, destinationTasks) =>
+        useTaskStore.getState().reorderTask(
+          result.draggableId,
+          result.destination!.droppableId as Task['status'],
+          destinationTasks,
+          result.destination!.index
+        )
+      }
+      onTaskEdit={() => {}}
+      onTaskDelete={() => {}}
+      selectedTasks={new Set()}
+      onTaskSelect={() => {}}
+      onRangeSelect={() => {}}
+      readOnly={readOnly}
+    />
+  );
+};
+
+const renderBoard = (readOnly = false) => render(<Board readOnly={readOnly} />);
+
+describe('BoardView', () => {
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    workspaceId = `workspace-${crypto.randomUUID()}`;
+    signInAs('user-1');
+    openWorkspace(workspaceId);
+    useTaskStore.setState({ sort: [] });
+    await taskRepository.batch([[
+      { type: 'create', id: `${workspaceId}-a`, task: buildTask({ title: 'Todo A', workspaceId, order: 1 }) },
+      { type: 'create', id: `${workspaceId}-b`, task: buildTask({ title: 'Todo B', workspaceId, order: 2 }) },
+      {
+        type: 'create',
+        id: `${workspaceId}-c`,
+        task: buildTask({ title: 'Doing C', status: 'In-Progress', workspaceId, order: 1 })
+      },
+      {
+        type: 'create',
+        id: `${workspaceId}-d`,
+        task: buildTask({ title: 'Doing D', status: 'In-Progress', workspaceId, order: 2 })
+      }
+    ]]);
+    await useTaskStore.getState().fetchTasks(workspaceId);
+    await waitFor(() => expect(useTaskStore.getState().tasks).toHaveLength(4));
+  });
+
+  it('moves a dropped card to the new column between its neighbours', async () => {
+    renderBoard();
+    expect(screen.getByText('In-Progress (2)')).toBeInTheDocument();
+
+    drag(`${workspaceId}-a`, ['Todo', 0], ['In-Progress', 1]);
+
+    await waitFor(async () => {
+      const stored = await taskRepository.get(`${workspaceId}-a`);
+      expect(stored?.status).toBe('In-Progress');
+      expect(stored?.order).toBe(1.5);
+    });
+    const local = useTaskStore.getState().tasks.find((task) => task.id === `${workspaceId}-a`);
+    expect(local).toMatchObject({ status: 'In-Progress', order: 1.5 });
+  });
+
+  it('reorders within a column', async () => {
+    renderBoard();
+    drag(`${workspaceId}-b`, ['Todo', 1], ['Todo', 0]);
+
+    await waitFor(async () => expect((await taskRepository.get(`${workspaceId}-b`))?.order).toBeLessThan(1));
+    await waitFor(() => expect(screen.getAllByText(/^Todo [AB]$/).map((title) => title.textContent)).toEqual(['Todo B', 'Todo A']));
+  });
+
+  it('re-ranks the tasks a filter hides along with the rest of the column', async () => {
+    await taskRepository.batch([[
+      { type: 'create', id: `${workspaceId}-x`, task: buildTask({ title: 'Doing X', status: 'In-Progress', workspaceId, order: 3 }) },
+      {
+        type: 'create',
+        id: `${workspaceId}-hidden`,
+        task: buildTask({ title: 'Hidden', status: 'In-Progress', workspaceId, order: 3 + 2e-7 })
+      },
+      {
+        type: 'create',
+        id: `${workspaceId}-y`,
+        task: buildTask({ title: 'Doing Y', status: 'In-Progress', workspaceId, order: 3 + 4e-7 })
+      }
+    ]]);
+    await waitFor(() => expect(useTaskStore.getState().tasks).toHaveLength(7));
+    const visible = sortByOrder(useTaskStore.getState().tasks.filter((task) => /-[xy]$/.test(task.id)));
+
+    await useTaskStore.getState().reorderTask(`${workspaceId}-a`, 'In-Progress', visible, 1);
+
+    await waitFor(async () => {
+      const stored = await Promise.all(['c', 'd', 'x', 'a', 'hidden', 'y'].map((id) => taskRepository.get(`${workspaceId}-${id}`)));
+      const orders = stored.map((task) => task?.order ?? 0);
+      expect(orders).toEqual([...orders].sort((a, b) => a - b));
+      expect(new Set(orders).size).toBe(orders.length);
+    });
+  });
+
+  it('disables dragging when read-only', () => {
+    const { container } = renderBoard(true);
+    const handles = container.querySelectorAll('[data-drag-disabled]');
+    expect(handles).toHaveLength(4);
+    handles.forEach((handle) => expect(handle).toHaveAttribute('data-drag-disabled', 'true'));
+  });
+
+  it('disables dragging while the board is sorted', () => {
+    useTaskStore.setState({ sort: [{ field: 'title', direction: 'asc' }] });
+    const { container } = renderBoard();
+    const handles = container.querySelectorAll('[data-drag-disabled]');
+    expect(handles).toHaveLength(4);
+    handles.forEach((handle) => expect(handle).toHaveAttribute('data-drag-disabled', 'true'));
+  });
+});
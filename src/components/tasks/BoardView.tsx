@@ -1,35 +1,81 @@
+import { useRef } from 'react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { Task } from '../../types/task';
-import { format } from 'date-fns';
 import { useTaskStore } from '../../store/taskStore';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { SubtaskProgress } from './SubtaskChecklist';
+import { RecurrenceBadge } from './RecurrenceBadge';
+import { AssigneeAvatars } from './Assignees';
+import { sortTasks } from '../../utils/taskSort';
+import { formatDueDate, isOverdue } from '../../utils/dueDate';
+import { ParsedSearchQuery } from '../../utils/taskSearch';
+import { HighlightedText } from './HighlightedText';
 
 interface BoardViewProps {
   tasks: Task[];
-  onTaskMove: (result: DropResult) => void;
+  onTaskMove: (result: DropResult, destinationTasks: Task[]) => void;
   onTaskEdit: (taskId: string) => void;
   onTaskDelete: (taskId: string) => void;
+  selectedTasks: Set<string>;
+  onTaskSelect: (taskId: string, selected: boolean) => void;
+  onRangeSelect: (taskIds: string[]) => void;
+  focusedTaskId?: string | null;
+  // Highlighted in card titles. The tasks passed in are already filtered by it.
+  search?: ParsedSearchQuery;
+  readOnly?: boolean;
 }
 
-export const BoardView = ({ tasks, onTaskMove, onTaskEdit, onTaskDelete }: BoardViewProps) => {
+export const BoardView = ({
+  tasks,
+  onTaskMove,
+  onTaskEdit,
+  onTaskDelete,
+  selectedTasks,
+  onTaskSelect,
+  onRangeSelect,
+  focusedTaskId = null,
+  search,
+  readOnly = false
+}: BoardViewProps) => {
   const categories = ['Todo', 'In-Progress', 'Completed'];
-  const searchQuery = useTaskStore((state) => state.searchQuery);
+  // The last card clicked without shift, where a shift-click range starts
+  const selectionAnchor = useRef<string | null>(null);
+  const pendingWrites = useTaskStore((state) => state.pendingWrites);
+  const sort = useTaskStore((state) => state.sort);
+  // A sorted column doesn't show the manual order, so there is nothing to drop into
+  const dragDisabled = readOnly || sort.length > 0;
 
   const getTasksByStatus = (status: string) => {
-    return tasks
-      .filter((task) => task.status === status)
-      .filter((task) => 
-        searchQuery 
-          ? task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            (task.description?.toLowerCase() || '').includes(searchQuery.toLowerCase())
-          : true
-      );
+    return sortTasks(tasks, sort).filter((task) => task.status === status);
+  };
+
+  // Ranges follow the board's reading order, column by column
+  const handleSelect = (taskId: string, selected: boolean, shiftKey: boolean) => {
+    const ordered = categories.flatMap((category) => getTasksByStatus(category)).map((task) => task.id);
+    const anchorIndex = selectionAnchor.current ? ordered.indexOf(selectionAnchor.current) : -1;
+    const index = ordered.indexOf(taskId);
+
+    if (shiftKey && selected && anchorIndex !== -1) {
+      onRangeSelect(ordered.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1));
+    } else {
+      onTaskSelect(taskId, selected);
+    }
+    selectionAnchor.current = taskId;
   };
 
   return (
-    <DragDropContext onDragEnd={onTaskMove}>
+    <DragDropContext
+      onDragEnd={(result) => {
+        if (!result.destination) return;
+        onTaskMove(
+          result,
+          getTasksByStatus(result.destination.droppableId).filter((task) => task.id !== result.draggableId)
+        );
+      }}
+    >
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {categories.map((category) => (
-          <Droppable key={category} droppableId={category}>
+          <Droppable key={category} droppableId={category} isDropDisabled={dragDisabled}>
             {(provided, snapshot) => (
               <div
                 ref={provided.innerRef}
@@ -51,39 +97,68 @@ export const BoardView = ({ tasks, onTaskMove, onTaskEdit, onTaskDelete }: Board
                       key={task.id}
                       draggableId={task.id}
                       index={index}
+                      isDragDisabled={dragDisabled}
                     >
                       {(provided, snapshot) => (
                         <div
                           ref={provided.innerRef}
                           {...provided.draggableProps}
                           {...provided.dragHandleProps}
+                          data-task-id={task.id}
                           className={`bg-white rounded-md shadow p-4 ${
                             snapshot.isDragging ? 'shadow-lg' : ''
-                          }`}
+                          } ${pendingWrites[task.id] ? 'opacity-60' : ''} ${
+                            selectedTasks.has(task.id) ? 'ring-2 ring-purple-500' : ''
+                          } ${focusedTaskId === task.id ? 'outline outline-2 outline-offset-2 outline-purple-400' : ''}`}
+                          title={pendingWrites[task.id] ? 'Saving…' : undefined}
                         >
                           <div className="flex flex-col">
                             <div className="flex justify-between items-start mb-2">
-                              <h4 className="font-medium text-gray-900">
-                                {task.title}
-                              </h4>
+                              <div className="flex items-start gap-2">
+                                {!readOnly && (
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedTasks.has(task.id)}
+                                    onChange={(e) =>
+                                      handleSelect(task.id, e.target.checked, (e.nativeEvent as MouseEvent).shiftKey)
+                                    }
+                                    className="mt-1 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                                    aria-label={`Select ${task.title}`}
+                                  />
+                                )}
+                                <h4 className="font-medium text-gray-900">
+                                  {search ? <HighlightedText text={task.title} query={search} /> : task.title}
+                                </h4>
+                              </div>
                               <div className="flex space-x-2">
                                 <button
                                   onClick={() => onTaskEdit(task.id)}
                                   className="text-blue-600 hover:text-blue-800 text-sm px-2 py-1 rounded"
                                 >
-                                  Edit
-                                </button>
-                                <button
-                                  onClick={() => onTaskDelete(task.id)}
-                                  className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded"
-                                >
-                                  Delete
+                                  {readOnly ? 'View' : 'Edit'}
                                 </button>
+                                {!readOnly && (
+                                  <button
+                                    onClick={() => onTaskDelete(task.id)}
+                                    className="text-red-600 hover:text-red-800 text-sm px-2 py-1 rounded"
+                                  >
+                                    Delete
+                                  </button>
+                                )}
                               </div>
                             </div>
                             <div className="text-sm text-gray-500">
-                              <p>Due: {format(new Date(task.dueDate), 'MMM dd, yyyy')}</p>
+                              <p className={isOverdue(task) ? 'text-red-600 font-medium' : ''}>
+                                Due: {formatDueDate(task.dueDate, 'MMM dd, yyyy')}
+                              </p>
                               <p>Category: {task.category}</p>
+                              <div className="flex items-center gap-2 mt-1">
+                                <SubtaskProgress task={task} />
+                                <RecurrenceBadge task={task} />
+                                <div className="ml-auto">
+                                  <AssigneeAvatars assigneeIds={task.assigneeIds} />
+                                </div>
+                              </div>
                             </div>
                           </div>
                         </div>
@@ -92,6 +167,7 @@ export const BoardView = ({ tasks, onTaskMove, onTaskEdit, onTaskDelete }: Board
                   ))}
                   {provided.placeholder}
                 </div>
+                <LoadMoreTrigger />
               </div>
             )}
           </Droppable>
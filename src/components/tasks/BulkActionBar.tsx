@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { useTaskStore } from '../../store/taskStore';
+import { BulkTaskAction, TaskCategory, TaskPriority, TaskStatus } from '../../types/task';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  onClear: () => void;
+}
+
+const selectClassName =
+  'px-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const BulkActionBar = ({ selectedIds, onClear }: BulkActionBarProps) => {
+  const bulkUpdate = useTaskStore((state) => state.bulkUpdate);
+  const [shiftDays, setShiftDays] = useState(1);
+  const count = selectedIds.length;
+
+  const apply = (action: BulkTaskAction) => {
+    bulkUpdate(selectedIds, action);
+    onClear();
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${count} task${count !== 1 ? 's' : ''}?`)) {
+      apply({ type: 'delete' });
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-white rounded-lg shadow-md flex flex-wrap items-center gap-2 border border-gray-200">
+      <span className="text-gray-700 font-medium text-sm sm:text-base mr-2">
+        {count} task{count !== 1 ? 's' : ''} selected
+      </span>
+      <select
+        value=""
+        onChange={(e) => apply({ type: 'status', status: e.target.value as TaskStatus })}
+        className={selectClassName}
+        aria-label="Move to status"
+      >
+        <option value="" disabled>Move to…</option>
+        <option value="Todo">Todo</option>
+        <option value="In-Progress">In Progress</option>
+        <option value="Completed">Completed</option>
+      </select>
+      <select
+        value=""
+        onChange={(e) => apply({ type: 'category', category: e.target.value as TaskCategory })}
+        className={selectClassName}
+        aria-label="Set category"
+      >
+        <option value="" disabled>Category…</option>
+        <option value="Work">Work</option>
+        <option value="Personal">Personal</option>
+      </select>
+      <select
+        value=""
+        onChange={(e) => apply({ type: 'priority', priority: e.target.value as TaskPriority })}
+        className={selectClassName}
+        aria-label="Set priority"
+      >
+        <option value="" disabled>Priority…</option>
+        <option value="High">High</option>
+        <option value="Medium">Medium</option>
+        <option value="Low">Low</option>
+      </select>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          value={shiftDays}
+          onChange={(e) => setShiftDays(Number(e.target.value))}
+          className={`${selectClassName} w-20`}
+          aria-label="Days to shift the due date by"
+        />
+        <button
+          onClick={() => apply({ type: 'shiftDueDate', days: shiftDays })}
+          disabled={!Number.isInteger(shiftDays) || shiftDays === 0}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Shift due date
+        </button>
+      </div>
+      <div className="flex items-center gap-2 ml-auto">
+        <button onClick={onClear} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+          Clear selection
+        </button>
+        <button
+          onClick={handleDelete}
+          className="px-4 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 text-sm"
+        >
+          Delete ({count})
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { Task, TaskCategory, TaskStatus } from '../../types/task';
+import { IcsComponentKind, countIcsTasks, tasksToIcs } from '../../utils/icalendar';
+import { downloadFile, getExportFileName } from '../../utils/taskExport';
+
+interface CalendarExportModalProps {
+  tasks: Task[];
+  calendarName: string;
+  onClose: () => void;
+}
+
+const CATEGORIES: TaskCategory[] = ['Work', 'Personal'];
+const STATUSES: { value: TaskStatus; label: string }[] = [
+  { value: 'Todo', label: 'Todo' },
+  { value: 'In-Progress', label: 'In Progress' },
+  { value: 'Completed', label: 'Completed' }
+];
+const KINDS: { value: IcsComponentKind; label: string; hint: string }[] = [
+  { value: 'event', label: 'All-day events', hint: 'Shows up in any calendar app' },
+  { value: 'todo', label: 'To-dos', hint: 'Keeps status and priority, for apps with task lists' },
+  { value: 'both', label: 'Both', hint: '' }
+];
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export const CalendarExportModal = ({ tasks, calendarName, onClose }: CalendarExportModalProps) => {
+  const [kind, setKind] = useState<IcsComponentKind>('event');
+  const [categories, setCategories] = useState<TaskCategory[]>(CATEGORIES);
+  // Done tasks rarely belong in a calendar
+  const [statuses, setStatuses] = useState<TaskStatus[]>(['Todo', 'In-Progress']);
+  const count = countIcsTasks(tasks, { categories, statuses });
+
+  const handleExport = () => {
+    const ics = tasksToIcs(tasks, {
+      kind,
+      categories,
+      statuses,
+      calendarName,
+      appUrl: window.location.origin
+    });
+    downloadFile(getExportFileName('ics'), ics, 'text/calendar;charset=utf-8');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-md p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Export to calendar"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Export to calendar</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <FaTimes className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4 text-sm text-gray-700">
+          <fieldset>
+            <legend className="font-medium mb-1">Add tasks as</legend>
+            {KINDS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 py-0.5">
+                <input
+                  type="radio"
+                  name="ics-kind"
+                  checked={kind === option.value}
+                  onChange={() => setKind(option.value)}
+                  className="text-purple-600 focus:ring-purple-500"
+                />
+                {option.label}
+                {option.hint && <span className="text-xs text-gray-500">{option.hint}</span>}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset>
+            <legend className="font-medium mb-1">Categories</legend>
+            <div className="flex gap-4">
+              {CATEGORIES.map((category) => (
+                <label key={category} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={categories.includes(category)}
+                    onChange={() => setCategories(toggle(categories, category))}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="font-medium mb-1">Statuses</legend>
+            <div className="flex gap-4">
+              {STATUSES.map((status) => (
+                <label key={status.value} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={statuses.includes(status.value)}
+                    onChange={() => setStatuses(toggle(statuses, status.value))}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                  {status.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <p className="text-xs text-gray-500">
+            Import the file into Google Calendar, Outlook or Apple Calendar. It is a snapshot: export again to pick
+            up later changes.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={count === 0 || categories.length === 0 || statuses.length === 0}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+          >
+            Export {count} task{count !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
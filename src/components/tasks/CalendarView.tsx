@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { DragDropContext, Draggable, Droppable, DropResult } from '@hello-pangea/dnd';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { Task, TaskPriority } from '../../types/task';
+import { useTaskStore } from '../../store/taskStore';
+import { buildDueDate, getDueDay, getDueTime, isOverdue, normalizeDueDate, toDueDate } from '../../utils/dueDate';
+import { sortByOrder } from '../../utils/taskOrder';
+
+type CalendarLayout = 'month' | 'week';
+
+interface CalendarViewProps {
+  tasks: Task[];
+  onTaskEdit: (task: Task) => void;
+  onDayClick: (dueDate: string) => void;
+  readOnly?: boolean;
+}
+
+const priorityBorder: Record<TaskPriority, string> = {
+  High: 'border-red-500',
+  Medium: 'border-yellow-500',
+  Low: 'border-green-500'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getDays = (cursor: Date, layout: CalendarLayout) =>
+  layout === 'month'
+    ? eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) })
+    : eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+
+export const CalendarView = ({ tasks, onTaskEdit, onDayClick, readOnly = false }: CalendarViewProps) => {
+  const updateTask = useTaskStore((state) => state.updateTask);
+  const pendingWrites = useTaskStore((state) => state.pendingWrites);
+  const watchCalendar = useTaskStore((state) => state.watchCalendar);
+  const [layout, setLayout] = useState<CalendarLayout>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+
+  const days = getDays(cursor, layout);
+  const from = toDueDate(days[0]);
+  const to = toDueDate(days[days.length - 1]);
+
+  // Due tasks come from a query for the days shown, not from the loaded pages
+  useEffect(() => {
+    watchCalendar({ from, to });
+  }, [watchCalendar, from, to]);
+  useEffect(() => () => watchCalendar(null), [watchCalendar]);
+
+  const tasksByDay = new Map<string, Task[]>();
+  sortByOrder(tasks).forEach((task) => {
+    const dueDate = normalizeDueDate(task.dueDate);
+    if (!dueDate) return;
+    const day = getDueDay(dueDate);
+    tasksByDay.set(day, [...(tasksByDay.get(day) ?? []), task]);
+  });
+
+  const move = (amount: number) =>
+    setCursor((current) => (layout === 'month' ? addMonths(current, amount) : addWeeks(current, amount)));
+
+  const handleDragEnd = ({ destination, source, draggableId }: DropResult) => {
+    if (!destination || destination.droppableId === source.droppableId) return;
+    const task = tasks.find((item) => item.id === draggableId);
+    const dueTime = task && getDueTime(normalizeDueDate(task.dueDate) ?? '');
+    updateTask(draggableId, { dueDate: buildDueDate(destination.droppableId, dueTime) });
+  };
+
+  const title = layout === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="p-2 sm:p-6">
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        <div className="p-4 flex flex-wrap items-center justify-between gap-2 border-b">
+          <div className="flex items-center gap-2">
+            <button onClick={() => move(-1)} className="p-1 rounded hover:bg-gray-100" aria-label="Previous">
+              <ChevronLeftIcon className="h-5 w-5 text-gray-600" />
+            </button>
+            <button onClick={() => move(1)} className="p-1 rounded hover:bg-gray-100" aria-label="Next">
+              <ChevronRightIcon className="h-5 w-5 text-gray-600" />
+            </button>
+            <button
+              onClick={() => setCursor(new Date())}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Today
+            </button>
+            <h2 className="text-lg font-semibold text-gray-800 ml-2">{title}</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            {(['month', 'week'] as CalendarLayout[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setLayout(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm capitalize ${
+                  layout === option ? 'bg-gray-200 text-gray-800' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 border-b text-xs font-medium text-gray-500">
+          {WEEKDAYS.map((weekday) => (
+            <div key={weekday} className="px-2 py-1">{weekday}</div>
+          ))}
+        </div>
+
+        <DragDropContext onDragEnd={handleDragEnd}>
+          <div className="grid grid-cols-7">
+            {days.map((day) => {
+              const key = toDueDate(day);
+              const dayTasks = tasksByDay.get(key) ?? [];
+              return (
+                <Droppable key={key} droppableId={key} isDropDisabled={readOnly}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.droppableProps}
+                      onClick={(e) => {
+                        // Only the empty part of a day opens the add form
+                        if (readOnly || (e.target as HTMLElement).closest('[data-task]')) return;
+                        onDayClick(key);
+                      }}
+                      className={`border-r border-b p-1 ${layout === 'month' ? 'min-h-28' : 'min-h-64'} ${
+                        isSameMonth(day, cursor) || layout === 'week' ? 'bg-white' : 'bg-gray-50'
+                      } ${snapshot.isDraggingOver ? 'bg-purple-50' : ''} ${readOnly ? '' : 'cursor-pointer'}`}
+                    >
+                      <div
+                        className={`text-xs mb-1 w-6 h-6 flex items-center justify-center rounded-full ${
+                          isToday(day) ? 'bg-purple-600 text-white' : 'text-gray-600'
+                        }`}
+                      >
+                        {format(day, 'd')}
+                      </div>
+                      <div className="space-y-1">
+                        {dayTasks.map((task, index) => {
+                          const overdue = isOverdue(task);
+                          return (
+                            <Draggable key={task.id} draggableId={task.id} index={index} isDragDisabled={readOnly}>
+                              {(dragProvided) => (
+                                <div
+                                  ref={dragProvided.innerRef}
+                                  {...dragProvided.draggableProps}
+                                  {...dragProvided.dragHandleProps}
+                                  data-task
+                                  onClick={() => onTaskEdit(task)}
+                                  title={`${task.title} · ${task.priority} priority · ${task.category}`}
+                                  className={`text-xs px-1.5 py-1 rounded border-l-4 truncate ${priorityBorder[task.priority]} ${
+                                    task.category === 'Work' ? 'bg-blue-50' : 'bg-purple-50'
+                                  } ${overdue ? 'ring-1 ring-red-400 text-red-700' : 'text-gray-800'} ${
+                                    task.status === 'Completed' ? 'line-through opacity-70' : ''
+                                  } ${pendingWrites[task.id] ? 'opacity-60' : ''}`}
+                                >
+                                  {task.title}
+                                </div>
+                              )}
+                            </Draggable>
+                          );
+                        })}
+                        {provided.placeholder}
+                      </div>
+                    </div>
+                  )}
+                </Droppable>
+              );
+            })}
+          </div>
+        </DragDropContext>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { FaSearch } from 'react-icons/fa';
+import { Task } from '../../types/task';
+import { parseSearchQuery, searchTasks, searchText } from '../../utils/taskSearch';
+import { formatDueDate } from '../../utils/dueDate';
+import { HighlightedText } from './HighlightedText';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  tasks: Task[];
+  onTaskSelect: (task: Task) => void;
+  onClose: () => void;
+}
+
+const MAX_TASK_RESULTS = 20;
+
+type PaletteItem =
+  | { kind: 'command'; command: PaletteCommand }
+  | { kind: 'task'; task: Task };
+
+export const CommandPalette = ({ commands, tasks, onTaskSelect, onClose }: CommandPaletteProps) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const search = parseSearchQuery(query);
+
+  const items: PaletteItem[] = [
+    ...searchText(commands, search, (command) => `${command.label} ${command.group}`)
+      .map((command) => ({ kind: 'command' as const, command })),
+    ...(query.trim()
+      ? searchTasks(tasks, search)
+        .slice(0, MAX_TASK_RESULTS)
+        .map(({ task }) => ({ kind: 'task' as const, task }))
+      : [])
+  ];
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    if (item.kind === 'command') {
+      item.command.run();
+    } else {
+      onTaskSelect(item.task);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((index) => Math.min(index + 1, items.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        runItem(items[activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 pt-24" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b">
+          <FaSearch className="h-4 w-4 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or search tasks…"
+            className="flex-1 text-sm focus:outline-none"
+            aria-label="Command or task"
+          />
+        </div>
+        {items.length === 0 ? (
+          <p className="px-4 py-3 text-sm text-gray-500">No matching commands or tasks.</p>
+        ) : (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-1" role="listbox">
+            {items.map((item, index) => (
+              <li
+                key={item.kind === 'command' ? item.command.id : item.task.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runItem(item)}
+                className={`flex items-center justify-between gap-4 px-4 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-purple-50 text-purple-900' : 'text-gray-700'
+                }`}
+              >
+                {item.kind === 'command' ? (
+                  <>
+                    <span>{item.command.label}</span>
+                    <span className="text-xs text-gray-400">{item.command.group}</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="truncate">
+                      <HighlightedText text={item.task.title} query={search} />
+                    </span>
+                    <span className="text-xs text-gray-400 shrink-0">
+                      {item.task.status} · {formatDueDate(item.task.dueDate)}
+                    </span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { ParsedSearchQuery, getHighlightRanges } from '../../utils/taskSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  query: ParsedSearchQuery;
+}
+
+export const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  const ranges = getHighlightRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > position) parts.push(<span key={`t${position}`}>{text.slice(position, start)}</span>);
+    parts.push(
+      <mark key={`m${start}`} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(<span key={`t${position}`}>{text.slice(position)}</span>);
+  return <>{parts}</>;
+};
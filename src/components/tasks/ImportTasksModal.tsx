@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { useTaskStore } from '../../store/taskStore';
+import { TaskCategory } from '../../types/task';
+import { formatDueDate } from '../../utils/dueDate';
+import {
+  CsvColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportFormat,
+  ImportRow,
+  csvToImportRows,
+  guessCsvMapping,
+  jsonToImportRows,
+  parseCsv
+} from '../../utils/taskImport';
+
+interface ImportTasksModalProps {
+  onClose: () => void;
+}
+
+type ImportSource =
+  | { format: 'csv'; headers: string[]; records: string[][] }
+  | { format: Exclude<ImportFormat, 'csv'>; data: unknown };
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  app: 'TaskBuddy export',
+  todoist: 'Todoist',
+  trello: 'Trello board'
+};
+
+const PREVIEW_LIMIT = 100;
+
+const selectClassName =
+  'px-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const readSource = async (file: File): Promise<ImportSource> => {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)) {
+    const data: unknown = JSON.parse(text);
+    // Throws for JSON that isn't a known export
+    const { format } = jsonToImportRows(data, { defaultCategory: 'Work' });
+    return { format, data };
+  }
+  const [headers = [], ...records] = parseCsv(text);
+  if (headers.length === 0) {
+    throw new Error('The file is empty');
+  }
+  return { format: 'csv', headers, records };
+};
+
+export const ImportTasksModal = ({ onClose }: ImportTasksModalProps) => {
+  const importTasks = useTaskStore((state) => state.importTasks);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [defaultCategory, setDefaultCategory] = useState<TaskCategory>('Work');
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const rows: ImportRow[] = useMemo(() => {
+    if (!source) return [];
+    return source.format === 'csv'
+      ? csvToImportRows(source.records, mapping, { defaultCategory })
+      : jsonToImportRows(source.data, { defaultCategory }).rows;
+  }, [source, mapping, defaultCategory]);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const importing = progress !== null && imported === null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setFileName(file.name);
+    try {
+      const next = await readSource(file);
+      setSource(next);
+      setMapping(next.format === 'csv' ? guessCsvMapping(next.headers) : {});
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setSource(null);
+      setError(`Couldn't read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    setImported(await importTasks(validRows.map((row) => row.task), setProgress));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-4xl" role="dialog" aria-label="Import tasks">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold">Import tasks</h2>
+          <button onClick={onClose} disabled={importing} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <FaTimes className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {imported !== null ? (
+            <p className="text-gray-700">
+              Imported {imported} task{imported !== 1 ? 's' : ''}
+              {imported < validRows.length && `, ${validRows.length - imported} could not be saved`}.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  disabled={importing}
+                  className="text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  CSV with a header row, a TaskBuddy JSON export, or a Todoist or Trello JSON export.
+                </p>
+                {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+              </div>
+
+              {source && (
+                <>
+                  <div className="flex flex-wrap items-end gap-4">
+                    <p className="text-sm text-gray-700">
+                      <span className="font-medium">{fileName}</span> · {FORMAT_LABELS[source.format]}
+                    </p>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Category when none is given
+                      <select
+                        value={defaultCategory}
+                        onChange={(e) => setDefaultCategory(e.target.value as TaskCategory)}
+                        className={selectClassName}
+                      >
+                        <option value="Work">Work</option>
+                        <option value="Personal">Personal</option>
+                      </select>
+                    </label>
+                  </div>
+
+                  {source.format === 'csv' && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">Columns</h3>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {IMPORT_FIELDS.map(({ field, label, required }) => (
+                          <label key={field} className="flex flex-col gap-1 text-xs text-gray-500">
+                            {label}{required && ' *'}
+                            <select
+                              value={mapping[field] ?? ''}
+                              onChange={(e) => handleMappingChange(field, e.target.value)}
+                              className={selectClassName}
+                            >
+                              <option value="">Not imported</option>
+                              {source.headers.map((header, index) => (
+                                <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">
+                      Preview: {validRows.length} ready
+                      {invalidCount > 0 && <span className="text-red-600">, {invalidCount} with errors will be skipped</span>}
+                    </h3>
+                    <div className="max-h-80 overflow-auto border border-gray-200 rounded-md">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            {['Row', 'Title', 'Status', 'Priority', 'Category', 'Due', 'Errors'].map((heading) => (
+                              <th key={heading} scope="col" className="px-3 py-2 text-left font-medium text-gray-500">
+                                {heading}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {rows.slice(0, PREVIEW_LIMIT).map(({ row, task, errors }) => (
+                            <tr key={row} className={errors.length > 0 ? 'bg-red-50' : undefined}>
+                              <td className="px-3 py-2 text-gray-500">{row}</td>
+                              <td className="px-3 py-2 max-w-xs truncate">{task.title}</td>
+                              <td className="px-3 py-2">{task.status}</td>
+                              <td className="px-3 py-2">{task.priority}</td>
+                              <td className="px-3 py-2">{task.category}</td>
+                              <td className="px-3 py-2 whitespace-nowrap">
+                                {errors.length === 0 ? formatDueDate(task.dueDate) : task.dueDate}
+                              </td>
+                              <td className="px-3 py-2 text-red-600">{errors.join('; ')}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {rows.length > PREVIEW_LIMIT && (
+                      <p className="mt-1 text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} of {rows.length} rows.</p>
+                    )}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end items-center space-x-2">
+            {importing && (
+              <span className="text-sm text-gray-500 mr-auto">
+                Importing… {progress} of {validRows.length}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={importing}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              {imported !== null ? 'Close' : 'Cancel'}
+            </button>
+            {imported === null && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={importing || validRows.length === 0}
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                Import {validRows.length} task{validRows.length !== 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react';
+import { useTaskStore } from '../../store/taskStore';
+
+// Rendered at the end of a list section or board column. Loads the next page
+// of tasks once it scrolls into view, with a button as a fallback.
+export const LoadMoreTrigger = () => {
+  const hasMore = useTaskStore((state) => state.hasMore);
+  const loadingMore = useTaskStore((state) => state.loadingMore);
+  const loadMore = useTaskStore((state) => state.loadMore);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-3">
+      {loadingMore ? (
+        <span className="text-sm text-gray-500">Loading more tasks...</span>
+      ) : (
+        <button
+          type="button"
+          onClick={loadMore}
+          className="text-sm text-purple-600 hover:text-purple-800"
+        >
+          Load older tasks
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import { FaRedo } from 'react-icons/fa';
+import { Task } from '../../types/task';
+import { describeRecurrence } from '../../utils/recurrence';
+
+export const RecurrenceBadge = ({ task }: { task: Task }) => {
+  if (!task.recurrence) return null;
+
+  return (
+    <span className="inline-flex items-center text-purple-600" title={describeRecurrence(task.recurrence)}>
+      <FaRedo className="w-3 h-3" />
+    </span>
+  );
+};
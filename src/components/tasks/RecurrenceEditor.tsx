@@ -0,0 +1,160 @@
+import { addMonths, format } from 'date-fns';
+import { RecurrenceFrequency, TaskRecurrence } from '../../types/task';
+import { WEEKDAY_LABELS, describeRecurrence } from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  className?: string;
+}
+
+type EndType = 'never' | 'until' | 'count';
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)'
+};
+
+export const RecurrenceEditor = ({ value, onChange, className = '' }: RecurrenceEditorProps) => {
+  const endType: EndType = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<TaskRecurrence>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      until: value?.until,
+      count: value?.count
+    });
+  };
+
+  const handleEndTypeChange = (type: EndType) => {
+    if (!value) return;
+    const { until, count, ...rest } = value;
+    onChange({
+      ...rest,
+      ...(type === 'until' && { until: until ?? format(addMonths(new Date(), 1), 'yyyy-MM-dd') }),
+      ...(type === 'count' && { count: count ?? 10 })
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays ?? [];
+    update({
+      weekdays: weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day]
+    });
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center flex-wrap gap-2">
+        <select
+          value={value?.frequency ?? ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="border rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+        {value && (
+          <>
+            <span className="text-sm text-gray-600">every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-16 border rounded-md px-2 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+            />
+            <span className="text-sm text-gray-600">{UNIT_LABELS[value.frequency]}</span>
+          </>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-2 py-1 rounded text-xs ${
+                value.weekdays?.includes(day)
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">on day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.monthDay ?? ''}
+            placeholder="due day"
+            onChange={(e) => update({ monthDay: e.target.value ? Math.min(31, Math.max(1, Number(e.target.value))) : undefined })}
+            className="w-20 border rounded-md px-2 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+          />
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center flex-wrap gap-2">
+          <span className="text-sm text-gray-600">ends</span>
+          <select
+            value={endType}
+            onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+            className="border rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endType === 'until' && (
+            <input
+              type="date"
+              value={value.until ?? ''}
+              onChange={(e) => {
+                if (e.target.value) update({ until: e.target.value });
+              }}
+              className="border rounded-md px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+            />
+          )}
+          {endType === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-16 border rounded-md px-2 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+              />
+              <span className="text-sm text-gray-600">occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-sm text-gray-500">{describeRecurrence(value)}</p>
+      )}
+    </div>
+  );
+};
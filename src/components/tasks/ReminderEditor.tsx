@@ -0,0 +1,83 @@
+import { FaTimes } from 'react-icons/fa';
+import { TaskReminder } from '../../types/task';
+import { MAX_REMINDERS, REMINDER_PRESETS, createReminderId, describeReminder } from '../../utils/reminders';
+import { buildDueDate, getDueDay } from '../../utils/dueDate';
+
+interface ReminderEditorProps {
+  value: TaskReminder[];
+  onChange: (value: TaskReminder[]) => void;
+  // Canonical due date, used as the starting point of a custom reminder
+  dueDate: string;
+  className?: string;
+}
+
+const inputClassName =
+  'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const ReminderEditor = ({ value, onChange, dueDate, className = '' }: ReminderEditorProps) => {
+  const handleAdd = (option: string) => {
+    const reminder: TaskReminder = option === 'custom'
+      ? { id: createReminderId(), type: 'custom', at: buildDueDate(getDueDay(dueDate), '09:00') }
+      : { ...REMINDER_PRESETS[Number(option)].reminder, id: createReminderId() };
+    onChange([...value, reminder]);
+  };
+
+  const update = (id: string, changes: Partial<TaskReminder>) =>
+    onChange(value.map((reminder) => (reminder.id === id ? { ...reminder, ...changes } as TaskReminder : reminder)));
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {value.map((reminder) => (
+        <div key={reminder.id} className="flex items-center flex-wrap gap-2 text-sm text-gray-700">
+          {reminder.type === 'custom' ? (
+            <input
+              type="datetime-local"
+              value={reminder.at}
+              onChange={(e) => e.target.value && update(reminder.id, { at: e.target.value.slice(0, 16) })}
+              className={inputClassName}
+              aria-label="Reminder time"
+            />
+          ) : reminder.type === 'timeOfDay' ? (
+            <>
+              <input
+                type="number"
+                min={0}
+                value={reminder.daysBefore}
+                onChange={(e) => update(reminder.id, { daysBefore: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClassName} w-16`}
+                aria-label="Days before the due date"
+              />
+              <span>day(s) before at</span>
+              <input
+                type="time"
+                value={reminder.time}
+                onChange={(e) => e.target.value && update(reminder.id, { time: e.target.value })}
+                className={inputClassName}
+                aria-label="Time of day"
+              />
+            </>
+          ) : (
+            <span>{describeReminder(reminder)}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((item) => item.id !== reminder.id))}
+            className="text-gray-400 hover:text-red-600"
+            aria-label="Remove reminder"
+          >
+            <FaTimes className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      {value.length < MAX_REMINDERS && (
+        <select value="" onChange={(e) => handleAdd(e.target.value)} className={inputClassName}>
+          <option value="" disabled>Add reminder…</option>
+          {REMINDER_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={index}>{preset.label}</option>
+          ))}
+          <option value="custom">Custom date and time</option>
+        </select>
+      )}
+    </div>
+  );
+};
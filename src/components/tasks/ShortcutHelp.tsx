@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { SHORTCUTS } from '../../utils/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export const ShortcutHelp = ({ onClose }: ShortcutHelpProps) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Keyboard shortcuts</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <FaTimes className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="space-y-4">
+          {SHORTCUTS.map(({ group, bindings }) => (
+            <div key={group}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{group}</h3>
+              <ul className="space-y-1">
+                {bindings.map((binding) => (
+                  <li key={binding.description} className="flex items-center justify-between text-sm text-gray-700">
+                    <span>{binding.description}</span>
+                    <span className="flex items-center gap-2">
+                      {binding.keys.map((combo, index) => (
+                        <span key={index} className="flex items-center gap-1">
+                          {index > 0 && <span className="text-xs text-gray-400 mr-1">or</span>}
+                          {combo.map((key) => (
+                            <kbd
+                              key={key}
+                              className="px-1.5 py-0.5 text-xs font-mono bg-gray-100 border border-gray-300 rounded"
+                            >
+                              {key}
+                            </kbd>
+                          ))}
+                        </span>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { DragDropContext, Draggable, Droppable, DropResult } from '@hello-pangea/dnd';
+import { FaGripVertical, FaTimes } from 'react-icons/fa';
+import { Subtask, Task } from '../../types/task';
+import { createSubtask, getSubtaskProgress } from '../../utils/subtasks';
+
+interface SubtaskChecklistProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  onConvert?: (subtask: Subtask) => void;
+}
+
+export const SubtaskChecklist = ({ subtasks, onChange, onConvert }: SubtaskChecklistProps) => {
+  const [newTitle, setNewTitle] = useState('');
+  const { done, total } = getSubtaskProgress({ subtasks });
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    onChange([...subtasks, createSubtask(title)]);
+    setNewTitle('');
+  };
+
+  const updateSubtask = (id: string, changes: Partial<Subtask>) => {
+    onChange(subtasks.map((subtask) => (subtask.id === id ? { ...subtask, ...changes } : subtask)));
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
+    const reordered = [...subtasks];
+    const [moved] = reordered.splice(result.source.index, 1);
+    reordered.splice(result.destination.index, 0, moved);
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {total > 0 && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-1.5 bg-gray-200 rounded">
+            <div
+              className="h-1.5 bg-green-500 rounded"
+              style={{ width: `${(done / total) * 100}%` }}
+            />
+          </div>
+          <span className="text-sm text-gray-500">{done}/{total}</span>
+        </div>
+      )}
+
+      <DragDropContext onDragEnd={handleDragEnd}>
+        <Droppable droppableId="subtasks">
+          {(provided) => (
+            <ul ref={provided.innerRef} {...provided.droppableProps} className="space-y-1">
+              {subtasks.map((subtask, index) => (
+                <Draggable key={subtask.id} draggableId={subtask.id} index={index}>
+                  {(provided) => (
+                    <li
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      className="flex items-center gap-2 bg-white"
+                    >
+                      <span {...provided.dragHandleProps} className="text-gray-400 cursor-grab">
+                        <FaGripVertical className="w-3 h-3" />
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={subtask.completed}
+                        onChange={(e) => updateSubtask(subtask.id, { completed: e.target.checked })}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      <input
+                        type="text"
+                        value={subtask.title}
+                        onChange={(e) => updateSubtask(subtask.id, { title: e.target.value })}
+                        className={`flex-1 border-none px-1 py-0.5 text-sm focus:ring-purple-500 ${
+                          subtask.completed ? 'line-through text-gray-400' : 'text-gray-700'
+                        }`}
+                      />
+                      {onConvert && (
+                        <button
+                          type="button"
+                          onClick={() => onConvert(subtask)}
+                          className="text-xs text-purple-600 hover:text-purple-800"
+                        >
+                          Convert to task
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => onChange(subtasks.filter((item) => item.id !== subtask.id))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <FaTimes className="w-3 h-3" />
+                      </button>
+                    </li>
+                  )}
+                </Draggable>
+              ))}
+              {provided.placeholder}
+            </ul>
+          )}
+        </Droppable>
+      </DragDropContext>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add a subtask"
+          className="flex-1 border rounded-md px-3 py-1.5 text-sm focus:ring-purple-500 focus:border-purple-500"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const SubtaskProgress = ({ task }: { task: Task }) => {
+  const { done, total } = getSubtaskProgress(task);
+  if (total === 0) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
+        done === total ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+      }`}
+      title={`${done} of ${total} subtasks done`}
+    >
+      {done}/{total}
+    </span>
+  );
+};
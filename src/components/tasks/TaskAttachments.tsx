@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { FaDownload, FaFileAlt, FaTrash } from 'react-icons/fa';
+import { Task, TaskAttachment } from '../../types/task';
+import { useTaskStore } from '../../store/taskStore';
+import { ATTACHMENT_ACCEPT, validateAttachment } from '../../services/attachments';
+
+interface TaskAttachmentsProps {
+  task: Task;
+  readOnly?: boolean;
+}
+
+interface PendingUpload {
+  name: string;
+  progress: number;
+  error?: string;
+}
+
+const formatSize = (size: number) => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const TaskAttachments = ({ task, readOnly = false }: TaskAttachmentsProps) => {
+  const addAttachment = useTaskStore((state) => state.addAttachment);
+  const removeAttachment = useTaskStore((state) => state.removeAttachment);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const updateUpload = (name: string, changes: Partial<PendingUpload>) => {
+    setUploads((prev) => prev.map((upload) => (upload.name === name ? { ...upload, ...changes } : upload)));
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    setUploads((prev) => [
+      ...prev.filter((upload) => upload.error),
+      ...selected.map((file) => ({
+        name: file.name,
+        progress: 0,
+        error: validateAttachment(file) ?? undefined
+      }))
+    ]);
+
+    for (const file of selected) {
+      if (validateAttachment(file)) continue;
+      try {
+        await addAttachment(task.id, file, (progress) => updateUpload(file.name, { progress }));
+        setUploads((prev) => prev.filter((upload) => upload.name !== file.name));
+      } catch (error) {
+        updateUpload(file.name, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  };
+
+  const handleRemove = async (attachment: TaskAttachment) => {
+    setRemoving(attachment.id);
+    try {
+      await removeAttachment(task.id, attachment);
+    } catch (error) {
+      console.error('Error removing attachment:', error);
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {!readOnly && (
+        <div
+          className="border-2 border-dashed rounded-md p-4"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleFiles(e.dataTransfer.files);
+          }}
+        >
+          <input
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+            className="w-full"
+          />
+          <p className="text-sm text-gray-500 mt-1">
+            Drop your files here to Upload
+          </p>
+        </div>
+      )}
+
+      {uploads.map((upload) => (
+        <div key={upload.name} className="text-sm">
+          <div className="flex justify-between text-gray-600">
+            <span className="truncate">{upload.name}</span>
+            <span>{upload.error ? 'Failed' : `${upload.progress}%`}</span>
+          </div>
+          {upload.error ? (
+            <p className="text-red-600">{upload.error}</p>
+          ) : (
+            <div className="h-1.5 bg-gray-200 rounded">
+              <div className="h-1.5 bg-purple-600 rounded" style={{ width: `${upload.progress}%` }} />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {task.attachments && task.attachments.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {task.attachments.map((attachment) => (
+            <li key={attachment.id} className="border rounded-md p-2 flex flex-col">
+              {attachment.contentType.startsWith('image/') ? (
+                <img
+                  src={attachment.url}
+                  alt={attachment.name}
+                  className="h-24 w-full object-cover rounded"
+                />
+              ) : (
+                <div className="h-24 flex items-center justify-center bg-gray-50 rounded">
+                  <FaFileAlt className="w-8 h-8 text-gray-400" />
+                </div>
+              )}
+              <span className="mt-1 text-sm text-gray-700 truncate" title={attachment.name}>
+                {attachment.name}
+              </span>
+              <span className="text-xs text-gray-500">{formatSize(attachment.size)}</span>
+              <div className="flex justify-end gap-2 mt-1">
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  download={attachment.name}
+                  className="text-blue-600 hover:text-blue-800"
+                  title="Download"
+                >
+                  <FaDownload className="w-4 h-4" />
+                </a>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(attachment)}
+                    disabled={removing === attachment.id}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <FaTrash className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaskEditModal } from './TaskEditModal';
+import { taskRepository } from '../../services/taskRepository';
+import { useTaskStore } from '../../store/taskStore';
+import { buildTask, openWorkspace, signInAs } from '../../test/fixtures';
+
+describe('TaskEditModal', () => {
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    workspaceId = `workspace-${crypto.randomUUID()}`;
+    signInAs('user-1');
+    openWorkspace(workspaceId);
+    await taskRepository.create(`${workspaceId}-task`, buildTask({ workspaceId }));
+    await useTaskStore.getState().fetchTasks(workspaceId);
+    await waitFor(() => expect(useTaskStore.getState().tasks).toHaveLength(1));
+  });
+
+  it('saves the edited fields and records what changed', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    const task = useTaskStore.getState().tasks[0];
+    render(<TaskEditModal task={task} onSave={useTaskStore.getState().updateTask} onClose={onClose} />);
+
+    const title = screen.getByDisplayValue('Write the report');
+    await user.clear(title);
+    await user.type(title, 'Write the quarterly report');
+    await user.click(screen.getByRole('button', { name: 'Update' }));
+
+    expect(onClose).toHaveBeenCalled();
+    await waitFor(async () => {
+      const stored = await taskRepository.get(task.id);
+      expect(stored?.title).toBe('Write the quarterly report');
+      expect(stored?.activities).toHaveLength(1);
+      expect(stored?.activities[0].changes).toEqual([
+        { field: 'title', from: 'Write the report', to: 'Write the quarterly report' }
+      ]);
+    });
+  });
+
+  it("keeps what others changed meanwhile in the fields it didn't touch", async () => {
+    const user = userEvent.setup();
+    const task = useTaskStore.getState().tasks[0];
+    render(<TaskEditModal task={task} onSave={useTaskStore.getState().updateTask} onClose={() => {}} />);
+
+    await taskRepository.update(task.id, { description: 'Added by a teammate', priority: 'High' });
+    await waitFor(() => expect(useTaskStore.getState().tasks[0].description).toBe('Added by a teammate'));
+
+    const title = screen.getByDisplayValue('Write the report');
+    await user.clear(title);
+    await user.type(title, 'Write the quarterly report');
+    await user.click(screen.getByRole('button', { name: 'Update' }));
+
+    await waitFor(async () => {
+      const stored = await taskRepository.get(task.id);
+      expect(stored).toMatchObject({ title: 'Write the quarterly report', description: 'Added by a teammate' });
+      expect(stored?.activities[0].changes.map((change) => change.field)).toEqual(['title']);
+    });
+  });
+
+  it('saves nothing when nothing was changed', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    const onClose = vi.fn();
+    render(<TaskEditModal task={useTaskStore.getState().tasks[0]} onSave={onSave} onClose={onClose} />);
+
+    await user.click(screen.getByRole('button', { name: 'Update' }));
+    expect(onSave).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('saves nothing when cancelled', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<TaskEditModal task={useTaskStore.getState().tasks[0]} onSave={onSave} onClose={() => {}} />);
+
+    await user.type(screen.getByDisplayValue('Write the report'), ' draft');
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('has no save button when read-only', () => {
+    render(<TaskEditModal task={useTaskStore.getState().tasks[0]} onSave={vi.fn()} onClose={() => {}} readOnly />);
+    expect(screen.queryByRole('button', { name: 'Update' })).not.toBeInTheDocument();
+  });
+});
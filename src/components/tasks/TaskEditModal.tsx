@@ -1,63 +1,99 @@
 import { useState, useEffect } from 'react';
-import { Task, TaskStatus } from '../../types/task';
+import { Subtask, Task, TaskRecurrence, TaskReminder, TaskStatus } from '../../types/task';
 import { format } from 'date-fns';
 import { FaTimes } from 'react-icons/fa';
+import { useAuthStore } from '../../store/authStore';
+import { useTaskStore } from '../../store/taskStore';
+import { useUserStore, getProfileName } from '../../store/userStore';
+import { buildDueDate, getDueDay, getDueTime, normalizeDueDate } from '../../utils/dueDate';
+import { describeActivity, pickChangedFields } from '../../utils/taskActivity';
+import { areAllSubtasksDone } from '../../utils/subtasks';
+import { TaskAttachments } from './TaskAttachments';
+import { SubtaskChecklist } from './SubtaskChecklist';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { ReminderEditor } from './ReminderEditor';
+import { AssigneePicker } from './Assignees';
 
 interface TaskEditModalProps {
   task: Task;
   onSave: (taskId: string, updates: Partial<Task>) => Promise<void>;
   onClose: () => void;
+  readOnly?: boolean;
 }
 
-export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) => {
+export const TaskEditModal = ({ task, onSave, onClose, readOnly = false }: TaskEditModalProps) => {
+  const currentUserId = useAuthStore((state) => state.user?.uid);
+  // Attachments are uploaded straight away, so render them from the live task
+  const liveTask = useTaskStore((state) => state.tasks.find((t) => t.id === task.id)) ?? task;
+  const convertSubtaskToTask = useTaskStore((state) => state.convertSubtaskToTask);
+  // What the form started from, so saving only sends the fields edited here
+  const [initialTask] = useState(task);
   const [title, setTitle] = useState(task.title);
   const [category, setCategory] = useState(task.category);
   const [status, setStatus] = useState(task.status);
   const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
   const [description, setDescription] = useState(task.description || '');
-  const [attachment, setAttachment] = useState<File | null>(null);
+  const [subtasks, setSubtasks] = useState<Subtask[]>(task.subtasks ?? []);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>(task.assigneeIds ?? []);
+  const profiles = useUserStore((state) => state.profiles);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(task.recurrence ?? null);
+  const [reminders, setReminders] = useState<TaskReminder[]>(task.reminders ?? []);
 
   useEffect(() => {
-    try {
-      const date = new Date(task.dueDate);
-      setDueDate(format(date, 'yyyy-MM-dd'));
-    } catch (error) {
-      console.error('Error parsing date:', error);
-      setDueDate('');
-    }
+    const normalized = normalizeDueDate(task.dueDate);
+    setDueDate(normalized ? getDueDay(normalized) : '');
+    setDueTime(normalized ? getDueTime(normalized) ?? '' : '');
   }, [task.dueDate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await onSave(task.id, {
+    const updates = pickChangedFields(initialTask, {
       title,
       category,
       status,
       description,
-      dueDate: format(new Date(dueDate), 'dd MMM, yyyy'),
-      attachments: attachment ? [attachment.name] : undefined,
+      dueDate: buildDueDate(dueDate, dueTime),
+      subtasks,
+      recurrence,
+      reminders,
+      assigneeIds,
     });
+    if (Object.keys(updates).length > 0) {
+      await onSave(task.id, updates);
+    }
     onClose();
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setAttachment(e.target.files[0]);
+  const handleSubtasksChange = (updated: Subtask[]) => {
+    const finishedLast = !areAllSubtasksDone(subtasks) && areAllSubtasksDone(updated);
+    setSubtasks(updated);
+    if (
+      finishedLast &&
+      status !== 'Completed' &&
+      window.confirm('All subtasks are done. Move this task to Completed?')
+    ) {
+      setStatus('Completed');
     }
   };
 
+  const handleConvertSubtask = async (subtask: Subtask) => {
+    await convertSubtaskToTask(task.id, subtask.id);
+    setSubtasks((prev) => prev.filter((item) => item.id !== subtask.id));
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
       <div className="bg-white rounded-lg w-full max-w-3xl">
         <div className="flex justify-between items-center p-4 border-b">
-          <h2 className="text-xl font-semibold">View/Edit Task</h2>
+          <h2 className="text-xl font-semibold">{readOnly ? 'View Task' : 'View/Edit Task'}</h2>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <FaTimes className="w-5 h-5" />
           </button>
         </div>
 
         <form onSubmit={handleSubmit} className="p-6">
-          <div className="grid grid-cols-1 gap-6">
+          <fieldset disabled={readOnly} className="grid grid-cols-1 gap-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Task Name
@@ -67,6 +103,7 @@ export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) =>
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
                 className="w-full border rounded-md px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                maxLength={100}
                 required
               />
             </div>
@@ -136,13 +173,22 @@ export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) =>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Due Date
                 </label>
-                <input
-                  type="date"
-                  value={dueDate}
-                  onChange={(e) => setDueDate(e.target.value)}
-                  className="w-full border rounded-md px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className="flex-1 border rounded-md px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                    required
+                  />
+                  <input
+                    type="time"
+                    value={dueTime}
+                    onChange={(e) => setDueTime(e.target.value)}
+                    className="w-32 border rounded-md px-3 py-2 focus:ring-purple-500 focus:border-purple-500"
+                    aria-label="Due time (optional)"
+                  />
+                </div>
               </div>
 
               <div>
@@ -164,18 +210,56 @@ export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) =>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Attachment
+                Assignees
               </label>
-              <div className="border-2 border-dashed rounded-md p-4">
-                <input
-                  type="file"
-                  onChange={handleFileUpload}
-                  className="w-full"
-                />
+              <AssigneePicker value={assigneeIds} onChange={setAssigneeIds} />
+              {liveTask.assignedAt && (
                 <p className="text-sm text-gray-500 mt-1">
-                  Drop your files here to Upload
+                  Assignment last changed {format(new Date(liveTask.assignedAt), 'MMM dd, yyyy HH:mm')}
                 </p>
-              </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Repeat
+              </label>
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+              {task.seriesId && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Occurrence {task.occurrence ?? 1} of a recurring series.
+                  {task.recurrence && ' Choose "Does not repeat" to stop the series after this task.'}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reminders
+              </label>
+              <ReminderEditor
+                value={reminders}
+                onChange={setReminders}
+                dueDate={buildDueDate(dueDate, dueTime)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Checklist
+              </label>
+              <SubtaskChecklist
+                subtasks={subtasks}
+                onChange={handleSubtasksChange}
+                onConvert={handleConvertSubtask}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Attachments
+              </label>
+              <TaskAttachments task={liveTask} readOnly={readOnly} />
             </div>
 
             <div>
@@ -183,14 +267,25 @@ export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) =>
                 Activity
               </label>
               <div className="space-y-2">
-                {task.activities?.map((activity, index) => (
-                  <div key={index} className="text-sm text-gray-600">
-                    {activity.action} - {format(new Date(activity.timestamp), 'MMM dd, yyyy HH:mm')}
+                {[...(liveTask.activities ?? [])].reverse().map((activity, index) => (
+                  <div
+                    key={index}
+                    className="text-sm text-gray-600"
+                    title={format(new Date(activity.timestamp), 'MMM dd, yyyy HH:mm')}
+                  >
+                    {describeActivity(activity, currentUserId, (userId) =>
+                      profiles[userId] ? getProfileName(profiles[userId]) : undefined
+                    ).map((line) => (
+                      <p key={line}>{line}</p>
+                    ))}
                   </div>
                 ))}
+                {!liveTask.activities?.length && (
+                  <p className="text-sm text-gray-400">No activity yet</p>
+                )}
               </div>
             </div>
-          </div>
+          </fieldset>
 
           <div className="flex justify-end space-x-2 mt-6">
             <button
@@ -200,12 +295,14 @@ export const TaskEditModal = ({ task, onSave, onClose }: TaskEditModalProps) =>
             >
               Cancel
             </button>
-            <button
-              type="submit"
-              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700"
-            >
-              Update
-            </button>
+            {!readOnly && (
+              <button
+                type="submit"
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700"
+              >
+                Update
+              </button>
+            )}
           </div>
         </form>
       </div>
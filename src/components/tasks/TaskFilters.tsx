@@ -0,0 +1,107 @@
+import { useTaskStore } from '../../store/taskStore';
+import { AssignmentFilter, DueDateFilter, TaskCategory, TaskFilter, TaskPriority, TaskStatus } from '../../types/task';
+
+const selectClassName =
+  'px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const TaskFilters = () => {
+  const filter = useTaskStore((state) => state.filter);
+  const setFilter = useTaskStore((state) => state.setFilter);
+
+  const updateFilter = (changes: Partial<TaskFilter>) => {
+    const next = { ...filter, ...changes };
+    if (next.dueDate !== 'custom') {
+      delete next.dueDateFrom;
+      delete next.dueDateTo;
+    }
+    setFilter(next);
+  };
+
+  const hasActiveFilter = Boolean(
+    filter.category || filter.status || filter.priority || filter.dueDate || filter.assignment
+  );
+
+  return (
+    <div className="flex items-center flex-wrap gap-2">
+      <span className="text-sm text-gray-600">Filter by:</span>
+      <select
+        value={filter.category ?? ''}
+        onChange={(e) => updateFilter({ category: (e.target.value || undefined) as TaskCategory | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Category</option>
+        <option value="Work">Work</option>
+        <option value="Personal">Personal</option>
+      </select>
+      <select
+        value={filter.status ?? ''}
+        onChange={(e) => updateFilter({ status: (e.target.value || undefined) as TaskStatus | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Status</option>
+        <option value="Todo">Todo</option>
+        <option value="In-Progress">In Progress</option>
+        <option value="Completed">Completed</option>
+      </select>
+      <select
+        value={filter.priority ?? ''}
+        onChange={(e) => updateFilter({ priority: (e.target.value || undefined) as TaskPriority | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Priority</option>
+        <option value="High">High</option>
+        <option value="Medium">Medium</option>
+        <option value="Low">Low</option>
+      </select>
+      <select
+        value={filter.assignment ?? ''}
+        onChange={(e) => updateFilter({ assignment: (e.target.value || undefined) as AssignmentFilter | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Assignee</option>
+        <option value="assignedToMe">Assigned to me</option>
+        <option value="unassigned">Unassigned</option>
+        <option value="createdByMe">Created by me</option>
+      </select>
+      <select
+        value={filter.dueDate ?? ''}
+        onChange={(e) => updateFilter({ dueDate: (e.target.value || undefined) as DueDateFilter | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Due Date</option>
+        <option value="overdue">Overdue</option>
+        <option value="today">Today</option>
+        <option value="week">This week</option>
+        <option value="custom">Custom range</option>
+      </select>
+      {filter.dueDate === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={filter.dueDateFrom ?? ''}
+            max={filter.dueDateTo}
+            onChange={(e) => updateFilter({ dueDateFrom: e.target.value || undefined })}
+            className={selectClassName}
+            aria-label="Due from"
+          />
+          <input
+            type="date"
+            value={filter.dueDateTo ?? ''}
+            min={filter.dueDateFrom}
+            onChange={(e) => updateFilter({ dueDateTo: e.target.value || undefined })}
+            className={selectClassName}
+            aria-label="Due to"
+          />
+        </>
+      )}
+      {hasActiveFilter && (
+        <button
+          onClick={() => setFilter({})}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaskView } from './TaskView';
+import { taskRepository } from '../../services/taskRepository';
+import { useTaskStore } from '../../store/taskStore';
+import { useViewStore } from '../../store/viewStore';
+import { useWorkspaceStore } from '../../store/workspaceStore';
+import { buildTask, buildWorkspace, openWorkspace, signInAs } from '../../test/fixtures';
+import { WorkspaceRole } from '../../types/workspace';
+import { shiftDueDate, toDueDate } from '../../utils/dueDate';
+import { DEFAULT_VIEW_STATE } from '../../utils/viewParams';
+
+// Tasks live in the memory backend, the saved views sidebar is left empty
+const renderTaskView = (path = '/') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <TaskView />
+    </MemoryRouter>
+  );
+
+const listTasks = (workspaceId: string) => taskRepository.list({ workspaceId, filter: {}, userId: 'user-1' });
+
+describe('TaskView', () => {
+  let workspaceId: string;
+
+  beforeEach(() => {
+    // Every test gets its own workspace, the backend lives as long as the file
+    workspaceId = `workspace-${crypto.randomUUID()}`;
+    signInAs('user-1');
+    openWorkspace(workspaceId);
+    useViewStore.setState({ fetchViews: () => {}, cleanup: () => {} });
+    useTaskStore.setState({ ...DEFAULT_VIEW_STATE, tasks: [], undoStack: [], redoStack: [] });
+  });
+
+  it('adds a task', async () => {
+    const user = userEvent.setup();
+    renderTaskView();
+
+    await user.click(screen.getAllByRole('button', { name: 'Add Task' })[0]);
+    const submit = screen.getAllByRole('button', { name: 'Add Task' }).find((button) => button.matches('[type=submit]'))!;
+    const form = submit.closest('form')!;
+    await user.type(within(form).getAllByRole('textbox')[0], 'Book the venue');
+    await user.click(submit);
+
+    expect(await screen.findAllByText('Book the venue')).not.toHaveLength(0);
+    await waitFor(async () => {
+      const stored = await listTasks(workspaceId);
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ title: 'Book the venue', status: 'Todo', userId: 'user-1', workspaceId });
+      expect(stored[0].activities.map((activity) => activity.type)).toEqual(['created']);
+    });
+  });
+
+  it('moves the selected tasks to the trash', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    await taskRepository.batch([
+      ['Email the client', 'Review the budget', 'Plan the offsite'].map((title, index) => ({
+        type: 'create' as const,
+        id: `${workspaceId}-${index}`,
+        task: buildTask({ title, workspaceId, createdAt: `2026-10-0${index + 1}T09:00:00.000Z` })
+      }))
+    ]);
+    renderTaskView();
+    await screen.findAllByText('Review the budget');
+
+    const rowOf = (title: string) => screen.getAllByText(title)[0].closest('tr')!;
+    await user.click(within(rowOf('Email the client')).getByRole('checkbox'));
+    await user.click(within(rowOf('Review the budget')).getByRole('checkbox'));
+    await user.click(screen.getByRole('button', { name: 'Delete (2)' }));
+
+    await waitFor(async () => {
+      expect((await listTasks(workspaceId)).map((task) => task.title)).toEqual(['Plan the offsite']);
+    });
+    expect(screen.queryByText('Email the client')).not.toBeInTheDocument();
+    const trash = await new Promise<string[]>((resolve) => {
+      const unsubscribe = taskRepository.subscribeTrash(workspaceId, (tasks) => {
+        unsubscribe();
+        resolve(tasks.map((task) => task.title).sort());
+      }, () => {});
+    });
+    expect(trash).toEqual(['Email the client', 'Review the budget']);
+  });
+
+  it('hides editing for viewers', async () => {
+    openWorkspace(workspaceId, { 'user-2': 'owner', 'user-1': 'viewer' });
+    await act(async () => {
+      renderTaskView();
+    });
+    expect(screen.queryByRole('button', { name: 'Add Task' })).not.toBeInTheDocument();
+  });
+
+  it('shows every task due in the calendar, not only the loaded ones', async () => {
+    const today = toDueDate(new Date());
+    // A full first page of newer tasks without a due date
+    await taskRepository.batch([[
+      ...Array.from({ length: 50 }, (_, index) => ({
+        type: 'create' as const,
+        id: `${workspaceId}-new-${index}`,
+        task: buildTask({ title: `Newer task ${index}`, workspaceId, dueDate: '', createdAt: '2026-10-02T09:00:00.000Z' })
+      })),
+      {
+        type: 'create' as const,
+        id: `${workspaceId}-due`,
+        task: buildTask({ title: 'Pay the invoice', workspaceId, dueDate: today, createdAt: '2026-10-01T09:00:00.000Z' })
+      },
+      {
+        type: 'create' as const,
+        id: `${workspaceId}-later`,
+        task: buildTask({ title: 'Renew the lease', workspaceId, dueDate: shiftDueDate(today, 400) })
+      }
+    ]]);
+    renderTaskView('/?view=calendar');
+
+    expect(await screen.findByText('Pay the invoice')).toBeInTheDocument();
+    expect(useTaskStore.getState().tasks.some((task) => task.title === 'Pay the invoice')).toBe(false);
+    expect(screen.queryByText('Renew the lease')).not.toBeInTheDocument();
+  });
+
+  describe('?task= links', () => {
+    // The linked task is in another of the user's workspaces, so it isn't loaded
+    const openLinkedTask = async (role: WorkspaceRole) => {
+      const otherId = `${workspaceId}-other`;
+      useWorkspaceStore.setState((state) => ({
+        workspaces: [...state.workspaces, buildWorkspace(otherId, { 'user-2': 'owner', 'user-1': role })]
+      }));
+      await taskRepository.create(`${otherId}-task`, buildTask({ title: 'Linked task', workspaceId: otherId }));
+      renderTaskView(`/?task=${otherId}-task`);
+      await screen.findByDisplayValue('Linked task');
+      return `${otherId}-task`;
+    };
+
+    it('saves a linked task that is not loaded', async () => {
+      const user = userEvent.setup();
+      const taskId = await openLinkedTask('editor');
+      expect(useTaskStore.getState().tasks).toEqual([]);
+
+      const title = screen.getByDisplayValue('Linked task');
+      await user.clear(title);
+      await user.type(title, 'Linked task, edited');
+      await user.click(screen.getByRole('button', { name: 'Update' }));
+
+      await waitFor(async () => expect((await taskRepository.get(taskId))?.title).toBe('Linked task, edited'));
+      expect(useTaskStore.getState().tasks).toEqual([]);
+    });
+
+    it("uses the role in the task's workspace", async () => {
+      await openLinkedTask('viewer');
+      expect(screen.queryByRole('button', { name: 'Update' })).not.toBeInTheDocument();
+    });
+  });
+});
@@ -1,12 +1,88 @@
-import { useState, useEffect, useCallback, memo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react';
 import { useTaskStore } from '../../store/taskStore';
 import { useAuthStore } from '../../store/authStore';
-import { Task, TaskCategory, TaskPriority, TaskStatus } from '../../types/task';
+import { canEditTasks, getWorkspaceRole, useWorkspaceStore } from '../../store/workspaceStore';
+import {
+  DueDateFilter,
+  Task,
+  TaskCategory,
+  TaskFilter,
+  TaskPriority,
+  TaskRecurrence,
+  TaskReminder,
+  TaskStatus
+} from '../../types/task';
+import { TaskGroupBy, TaskSort, TaskSortField } from '../../types/view';
+import { formatDistanceToNow } from 'date-fns';
 import { ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
-import { format } from 'date-fns';
 import { BoardView } from './BoardView';
-import { DropResult } from '@hello-pangea/dnd';
+import { BulkActionBar } from './BulkActionBar';
+import { TrashView } from './TrashView';
+import { CalendarView } from './CalendarView';
+import { DragDropContext, Draggable, Droppable, DropResult } from '@hello-pangea/dnd';
 import { TaskEditModal } from './TaskEditModal';
+import { TaskFilters } from './TaskFilters';
+import { LoadMoreTrigger } from './LoadMoreTrigger';
+import { SubtaskProgress } from './SubtaskChecklist';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { RecurrenceBadge } from './RecurrenceBadge';
+import { ReminderEditor } from './ReminderEditor';
+import { CommandPalette, PaletteCommand } from './CommandPalette';
+import { ShortcutHelp } from './ShortcutHelp';
+import { ViewSidebar } from './ViewSidebar';
+import { ImportTasksModal } from './ImportTasksModal';
+import { CalendarExportModal } from './CalendarExportModal';
+import { useViewUrlSync } from '../../hooks/useViewUrlSync';
+import { useLinkedTask } from '../../hooks/useLinkedTask';
+import { useGuestTaskMigration } from '../../hooks/useGuestTaskMigration';
+import { AssigneeAvatars, AssigneePicker } from './Assignees';
+import { sortTasks, toggleSort } from '../../utils/taskSort';
+import { GROUP_BY_OPTIONS, TaskGroup, getGroupKey, getGroupValue, groupTasks } from '../../utils/taskGroups';
+import { buildDueDate, formatDueDate, getToday, isOverdue } from '../../utils/dueDate';
+import { isModKey, isTextInput } from '../../utils/shortcuts';
+import { downloadFile, getExportFileName, tasksToCsv, tasksToJson } from '../../utils/taskExport';
+import { ParsedSearchQuery, filterTasks, parseSearchQuery } from '../../utils/taskSearch';
+import { HighlightedText } from './HighlightedText';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_TASK, validateAttachment } from '../../services/attachments';
+
+const SORTABLE_COLUMNS: { field: TaskSortField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'dueDate', label: 'Due Date' },
+  { field: 'category', label: 'Category' },
+  { field: 'updatedAt', label: 'Updated' }
+];
+
+const SortableHeader = ({ field, label, sort, onSort }: {
+  field: TaskSortField;
+  label: string;
+  sort: TaskSort[];
+  onSort: (field: TaskSortField, additive: boolean) => void;
+}) => {
+  const index = sort.findIndex((entry) => entry.field === field);
+  const entry = sort[index];
+  return (
+    <th
+      scope="col"
+      className="task-cell text-left font-medium text-gray-500"
+      aria-sort={index === 0 ? (entry.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+    >
+      <button
+        onClick={(e) => onSort(field, e.shiftKey)}
+        className="inline-flex items-center gap-1 hover:text-gray-800"
+        title="Click to sort, shift-click to add as a secondary sort"
+      >
+        {label}
+        {entry && (
+          <span className="text-xs text-purple-600">
+            {entry.direction === 'asc' ? '▲' : '▼'}
+            {sort.length > 1 && <sup>{index + 1}</sup>}
+          </span>
+        )}
+      </button>
+    </th>
+  );
+};
 
 // Task table component
 const TaskTable = memo(({ 
@@ -16,7 +92,13 @@ const TaskTable = memo(({
   selectedTasks,
   onTaskSelect,
   onSelectAll,
-  sectionType
+  droppableId,
+  sort,
+  onSort,
+  focusedTaskId,
+  search,
+  dragDisabled = false,
+  readOnly = false
 }: {
   tasks: Task[];
   onEdit: (task: Task) => void;
@@ -24,22 +106,17 @@ const TaskTable = memo(({
   selectedTasks: Set<string>;
   onTaskSelect: (taskId: string, selected: boolean) => void;
   onSelectAll: (selected: boolean) => void;
-  sectionType: 'Todo' | 'In-Progress' | 'Completed';
+  droppableId: string;
+  sort: TaskSort[];
+  onSort: (field: TaskSortField, additive: boolean) => void;
+  focusedTaskId: string | null;
+  search: ParsedSearchQuery;
+  // Dropping a row only makes sense where it sets the status and the manual order shows
+  dragDisabled?: boolean;
+  readOnly?: boolean;
 }) => {
   const allSelected = tasks.length > 0 && tasks.every(task => selectedTasks.has(task.id));
-
-  const getSectionColor = (type: string) => {
-    switch(type) {
-      case 'Todo':
-        return 'bg-blue-50';
-      case 'In-Progress':
-        return 'bg-yellow-50';
-      case 'Completed':
-        return 'bg-green-50';
-      default:
-        return 'bg-white';
-    }
-  };
+  const pendingWrites = useTaskStore((state) => state.pendingWrites);
 
   const getPriorityColor = (priority: TaskPriority) => {
     switch(priority) {
@@ -59,7 +136,7 @@ const TaskTable = memo(({
       <div className="min-w-full inline-block align-middle">
         <div className="overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
-            <thead className={`${getSectionColor(sectionType)}`}>
+            <thead className="bg-gray-50">
               <tr>
                 <th scope="col" className="task-cell">
                   <input
@@ -69,70 +146,101 @@ const TaskTable = memo(({
                     className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                   />
                 </th>
+                {SORTABLE_COLUMNS.map((column) => (
+                  <SortableHeader key={column.field} {...column} sort={sort} onSort={onSort} />
+                ))}
                 <th scope="col" className="task-cell text-left font-medium text-gray-500">
-                  Title
-                </th>
-                <th scope="col" className="task-cell text-left font-medium text-gray-500">
-                  Priority
-                </th>
-                <th scope="col" className="task-cell text-left font-medium text-gray-500">
-                  Due Date
-                </th>
-                <th scope="col" className="task-cell text-left font-medium text-gray-500">
-                  Category
+                  Assignees
                 </th>
                 <th scope="col" className="task-cell text-right font-medium text-gray-500">
                   Actions
                 </th>
               </tr>
             </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {tasks.map((task) => (
-                <tr key={task.id} className="task-row">
-                  <td className="task-cell">
-                    <input
-                      type="checkbox"
-                      checked={selectedTasks.has(task.id)}
-                      onChange={(e) => onTaskSelect(task.id, e.target.checked)}
-                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
-                    />
-                  </td>
-                  <td className="task-cell">
-                    <div className="text-truncate max-w-xs">{task.title}</div>
-                  </td>
-                  <td className="task-cell">
-                    <span className={`status-badge ${getPriorityColor(task.priority)}`}>
-                      {task.priority}
-                    </span>
-                  </td>
-                  <td className="task-cell text-gray-500">
-                    {format(new Date(task.dueDate), 'MMM d, yyyy')}
-                  </td>
-                  <td className="task-cell">
-                    <span className="status-badge bg-gray-100 text-gray-800">
-                      {task.category}
-                    </span>
-                  </td>
-                  <td className="task-cell text-right">
-                    <div className="flex justify-end space-x-2">
-                      <button
-                        onClick={() => onEdit(task)}
-                        className="text-indigo-600 hover:text-indigo-900"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => onDelete(task.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
+            <Droppable droppableId={droppableId} isDropDisabled={dragDisabled}>
+              {(droppableProvided) => (
+                <tbody
+                  ref={droppableProvided.innerRef}
+                  {...droppableProvided.droppableProps}
+                  className="bg-white divide-y divide-gray-200"
+                >
+                  {tasks.map((task, index) => (
+                    <Draggable key={task.id} draggableId={task.id} index={index} isDragDisabled={readOnly || dragDisabled}>
+                      {(provided, snapshot) => (
+                        <tr
+                          ref={provided.innerRef}
+                          {...provided.draggableProps}
+                          {...provided.dragHandleProps}
+                          data-task-id={task.id}
+                          className={`task-row ${snapshot.isDragging ? 'bg-white shadow-lg' : ''} ${
+                            pendingWrites[task.id] ? 'opacity-60' : ''
+                          } ${focusedTaskId === task.id ? 'ring-2 ring-inset ring-purple-400' : ''}`}
+                          title={pendingWrites[task.id] ? 'Saving…' : undefined}
+                        >
+                          <td className="task-cell">
+                            <input
+                              type="checkbox"
+                              checked={selectedTasks.has(task.id)}
+                              onChange={(e) => onTaskSelect(task.id, e.target.checked)}
+                              className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                            />
+                          </td>
+                          <td className="task-cell">
+                            <div className="flex items-center gap-2">
+                              <div className="text-truncate max-w-xs">
+                                <HighlightedText text={task.title} query={search} />
+                              </div>
+                              <SubtaskProgress task={task} />
+                              <RecurrenceBadge task={task} />
+                            </div>
+                          </td>
+                          <td className="task-cell">
+                            <span className={`status-badge ${getPriorityColor(task.priority)}`}>
+                              {task.priority}
+                            </span>
+                          </td>
+                          <td className={`task-cell ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            {formatDueDate(task.dueDate)}
+                          </td>
+                          <td className="task-cell">
+                            <span className="status-badge bg-gray-100 text-gray-800">
+                              {task.category}
+                            </span>
+                          </td>
+                          <td className="task-cell text-gray-500 whitespace-nowrap">
+                            {task.updatedAt ? formatDistanceToNow(task.updatedAt.toDate(), { addSuffix: true }) : 'Just now'}
+                          </td>
+                          <td className="task-cell">
+                            <AssigneeAvatars assigneeIds={task.assigneeIds} />
+                          </td>
+                          <td className="task-cell text-right">
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                onClick={() => onEdit(task)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                {readOnly ? 'View' : 'Edit'}
+                              </button>
+                              {!readOnly && (
+                                <button
+                                  onClick={() => onDelete(task.id)}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  Delete
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Draggable>
+                  ))}
+                  {droppableProvided.placeholder}
+                </tbody>
+              )}
+            </Droppable>
           </table>
+          <LoadMoreTrigger />
         </div>
       </div>
     </div>
@@ -141,36 +249,49 @@ const TaskTable = memo(({
 
 export const TaskView = () => {
   type SectionKey = 'Todo' | 'In-Progress' | 'Completed';
-  interface ExpandedSections {
-    Todo: boolean;
-    'In-Progress': boolean;
-    Completed: boolean;
-  }
 
-  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [expandedSections, setExpandedSections] = useState<ExpandedSections>({
-    Todo: true,
-    'In-Progress': true,
-    Completed: true
-  });
+  useViewUrlSync();
 
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  // The row or card keyboard shortcuts act on
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
 
   const user = useAuthStore((state) => state.user);
+  const activeWorkspaceId = useWorkspaceStore((state) => state.activeWorkspaceId);
+  const activeWorkspace = useWorkspaceStore((state) =>
+    state.workspaces.find((workspace) => workspace.id === state.activeWorkspaceId)
+  );
+  const readOnly = !canEditTasks(getWorkspaceRole(activeWorkspace, user?.uid));
+  // A linked task can be from another of the user's workspaces
+  const editingWorkspace = useWorkspaceStore((state) =>
+    state.workspaces.find((workspace) => workspace.id === (editingTask?.workspaceId ?? state.activeWorkspaceId))
+  );
+  const editingReadOnly = !canEditTasks(getWorkspaceRole(editingWorkspace, user?.uid));
+  useLinkedTask(activeWorkspaceId, setEditingTask);
+  useGuestTaskMigration();
   const [showAddTaskForm, setShowAddTaskForm] = useState(false);
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
-    dueDate: format(new Date(), 'yyyy-MM-dd'),
+    dueDate: getToday(),
+    dueTime: '',
     category: 'Work' as TaskCategory,
     status: 'Todo' as SectionKey,
     priority: 'Medium' as TaskPriority,
     activities: [],
     createdBy: user?.uid || '',
     userId: user?.uid || '', // Make sure this is set correctly
-    attachment: null as File | null
+    recurrence: null as TaskRecurrence | null,
+    reminders: [] as TaskReminder[],
+    assigneeIds: [] as string[],
+    attachments: [] as File[]
   });
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -185,74 +306,115 @@ export const TaskView = () => {
 
   const {
     tasks,
+    calendarTasks,
     error,
     fetchTasks,
     addTask,
+    addAttachment,
     updateTask,
     deleteTask,
+    reorderTask,
+    undo,
+    redo,
+    filter,
+    setFilter,
+    searchQuery,
+    setSearchQuery,
+    viewMode,
+    setViewMode,
+    sort,
+    setSort,
+    groupBy,
+    setGroupBy,
+    collapsedGroups,
+    toggleGroup,
     cleanup
   } = useTaskStore();
 
-  const filteredTasks = tasks.filter((task) => 
-    searchQuery
-      ? task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (task.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false)
-      : true
-  );
+  const search = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const filteredTasks = useMemo(() => filterTasks(tasks, search), [tasks, search]);
+  const filteredCalendarTasks = useMemo(() => filterTasks(calendarTasks, search), [calendarTasks, search]);
+
+  // Assigned on every render below, so the listener always sees current state
+  const handleShortcut = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcut.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   useEffect(() => {
-    if (user?.uid) {
-      fetchTasks(user.uid);
+    if (focusedTaskId) {
+      document.querySelector(`[data-task-id="${focusedTaskId}"]`)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedTaskId, viewMode]);
+
+  useEffect(() => {
+    if (activeWorkspaceId) {
+      fetchTasks(activeWorkspaceId);
     }
     return () => cleanup();
-  }, [user?.uid, fetchTasks, cleanup]);
+  }, [activeWorkspaceId, fetchTasks, cleanup]);
 
   const handleAddTask = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     try {
-      await addTask({
-        ...newTask,
+      const { attachments, dueTime, ...taskData } = newTask;
+      const taskId = await addTask({
+        ...taskData,
+        dueDate: buildDueDate(taskData.dueDate, dueTime),
         userId: user.uid,
         createdBy: user.uid
       });
+      if (taskId) {
+        for (const file of attachments) {
+          await addAttachment(taskId, file).catch((error) => {
+            console.error(`Error uploading ${file.name}:`, error);
+          });
+        }
+      }
       setShowAddTaskForm(false);
       setNewTask({
         title: '',
         description: '',
-        dueDate: format(new Date(), 'yyyy-MM-dd'),
+        dueDate: getToday(),
+        dueTime: '',
         category: 'Work' as TaskCategory,
         status: 'Todo' as SectionKey,
         priority: 'Medium' as TaskPriority,
         activities: [],
         createdBy: user.uid,
         userId: user.uid,
-        attachment: null
+        recurrence: null,
+        reminders: [],
+        assigneeIds: [],
+        attachments: []
       });
     } catch (error) {
       console.error('Error adding task:', error);
     }
-  }, [newTask, user, addTask]);
+  }, [newTask, user, addTask, addAttachment]);
 
   const handleDelete = useCallback((taskId: string) => {
     deleteTask(taskId);
   }, [deleteTask]);
 
-  const handleTaskMove = useCallback((result: DropResult) => {
-    if (!result.destination) return;
+  const handleTaskMove = useCallback((result: DropResult, destinationTasks: Task[]) => {
+    const { source, destination, draggableId } = result;
+    if (!destination) return;
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
 
-    const taskId = result.draggableId;
-    const newStatus = result.destination.droppableId as TaskStatus;
-    const task = tasks.find(t => t.id === taskId);
+    reorderTask(draggableId, destination.droppableId as TaskStatus, destinationTasks, destination.index);
+  }, [reorderTask]);
 
-    if (task) {
-      updateTask(task.id, {
-        ...task,
-        status: newStatus
-      });
-    }
-  }, [tasks, updateTask]);
+  // Clicking an empty calendar day starts a task due that day
+  const handleDayClick = (dueDate: string) => {
+    setNewTask(prev => ({ ...prev, dueDate }));
+    setShowAddTaskForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const handleEditTask = (task: Task) => {
     setEditingTask(task);
@@ -271,13 +433,6 @@ export const TaskView = () => {
     setEditingTask(null);
   };
 
-  const toggleSection = useCallback((section: SectionKey) => {
-    setExpandedSections(prev => ({
-      ...prev,
-      [section]: !prev[section]
-    }));
-  }, []);
-
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
 
   const handleTaskSelect = (taskId: string, selected: boolean) => {
@@ -300,290 +455,657 @@ export const TaskView = () => {
     }
   };
 
-  const handleBulkDelete = async () => {
-    const tasksToDelete = Array.from(selectedTasks);
-    for (const taskId of tasksToDelete) {
-      await handleDelete(taskId);
+  const handleRangeSelect = (taskIds: string[]) => {
+    setSelectedTasks(prev => new Set([...prev, ...taskIds]));
+  };
+
+  // Exports what the list shows: filtered, searched and sorted
+  const handleExport = (format: 'csv' | 'json' | 'ics') => {
+    if (format === 'ics') {
+      setShowCalendarExport(true);
+      return;
+    }
+    const exported = sortTasks(filteredTasks, sort);
+    if (format === 'csv') {
+      downloadFile(getExportFileName('csv'), tasksToCsv(exported), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(getExportFileName('json'), tasksToJson(exported), 'application/json');
     }
-    setSelectedTasks(new Set());
+  };
+
+  const handleSort = (field: TaskSortField, additive: boolean) => {
+    setSort(toggleSort(sort, field, additive));
   };
 
   if (error) {
     return <div className="text-red-600 p-4">{error}</div>;
   }
 
-  const todoTasks = filteredTasks.filter(task => task.status === 'Todo');
-  const inProgressTasks = filteredTasks.filter(task => task.status === 'In-Progress');
-  const completedTasks = filteredTasks.filter(task => task.status === 'Completed');
+  const sortedTasks = sortTasks(filteredTasks, sort);
+  const groups = groupTasks(sortedTasks, groupBy);
+  const isExpanded = (group: TaskGroup) => !collapsedGroups.includes(group.key);
+  const listDragDisabled = groupBy !== 'status' || sort.length > 0;
 
-  return (
-    <div className="max-w-full overflow-x-auto">
-      <div className="flex items-center justify-between flex-wrap gap-4 p-4">
-        <div className="flex items-center space-x-4 flex-wrap gap-2">
-          <button
-            onClick={() => setShowAddTaskForm(true)}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 text-sm sm:text-base"
-          >
-            Add Task
-          </button>
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setViewMode('list')}
-              className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
-                viewMode === 'list'
-                  ? 'bg-gray-200 text-gray-800'
-                  : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              List View
-            </button>
-            <button
-              onClick={() => setViewMode('board')}
-              className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
-                viewMode === 'board'
-                  ? 'bg-gray-200 text-gray-800'
-                  : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              Board View
-            </button>
-          </div>
-        </div>
-        <div className="w-full sm:w-auto">
-          <input
-            type="text"
-            placeholder="Search tasks..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full sm:w-64 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-          />
-        </div>
-      </div>
+  // Keyboard navigation follows what is on screen: the expanded list
+  // groups top to bottom, or the board's columns
+  const sectionKeys: SectionKey[] = ['Todo', 'In-Progress', 'Completed'];
+  const navigationColumns = viewMode === 'board'
+    ? sectionKeys.map((section) => sortedTasks.filter((task) => task.status === section))
+    : viewMode === 'list'
+      ? [groups.flatMap((group) => (isExpanded(group) ? group.tasks : []))]
+      : [];
+  const focusedTask = filteredTasks.find((task) => task.id === focusedTaskId) ?? null;
 
-      {showAddTaskForm && (
-        <form onSubmit={handleAddTask} className="mt-4 bg-white p-4 rounded-lg shadow mb-6">
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Task Name
-            </label>
-            <input
-              type="text"
-              value={newTask.title}
-              onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
-              required
-            />
-          </div>
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Description
-            </label>
-            <textarea
-              value={newTask.description}
-              onChange={(e) => {
-                if (e.target.value.length <= 300) {
-                  setNewTask({ ...newTask, description: e.target.value })
-                }
-              }}
-              maxLength={300}
-              rows={4}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
-              placeholder="Enter task description (max 300 characters)"
-            />
-            <p className="text-sm text-gray-500 mt-1">
-              {newTask.description.length}/300 characters
-            </p>
-          </div>
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Due Date
-            </label>
-            <input
-              type="date"
-              value={newTask.dueDate}
-              onChange={(e) => setNewTask({ ...newTask, dueDate: e.target.value })}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
-              required
-            />
-          </div>
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Task Status
-            </label>
-            <select
-              value={newTask.status}
-              onChange={(e) => setNewTask({ ...newTask, status: e.target.value as SectionKey })}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
-              required
-            >
-              <option value="Todo">Todo</option>
-              <option value="In-Progress">In Progress</option>
-              <option value="Completed">Completed</option>
-            </select>
-          </div>
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Task Category
-            </label>
+  const moveFocus = (delta: number) => {
+    const ordered = navigationColumns.flat();
+    if (ordered.length === 0) return;
+    const index = ordered.findIndex((task) => task.id === focusedTaskId);
+    const next = index === -1 ? (delta > 0 ? 0 : ordered.length - 1) : index + delta;
+    setFocusedTaskId(ordered[Math.max(0, Math.min(next, ordered.length - 1))].id);
+  };
+
+  const moveFocusToColumn = (delta: number) => {
+    const column = navigationColumns.findIndex((tasks) => tasks.some((task) => task.id === focusedTaskId));
+    if (column === -1) {
+      moveFocus(delta);
+      return;
+    }
+    const row = navigationColumns[column].findIndex((task) => task.id === focusedTaskId);
+    for (let next = column + delta; next >= 0 && next < navigationColumns.length; next += delta) {
+      if (navigationColumns[next].length > 0) {
+        setFocusedTaskId(navigationColumns[next][Math.min(row, navigationColumns[next].length - 1)].id);
+        return;
+      }
+    }
+  };
+
+  const openAddTaskForm = () => {
+    setShowAddTaskForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const setFocusedStatus = (status: TaskStatus) => {
+    if (focusedTask && focusedTask.status !== status) updateTask(focusedTask.id, { status });
+  };
+
+  const deleteFocusedTask = () => {
+    if (!focusedTask) return;
+    const ordered = navigationColumns.flat();
+    const index = ordered.findIndex((task) => task.id === focusedTask.id);
+    setFocusedTaskId((ordered[index + 1] ?? ordered[index - 1])?.id ?? null);
+    handleDelete(focusedTask.id);
+  };
+
+  // Shows the task in the list or board it lives in and focuses it
+  const jumpToTask = (task: Task) => {
+    if (viewMode !== 'list' && viewMode !== 'board') setViewMode('list');
+    const groupKey = getGroupKey(groupBy, getGroupValue(task, groupBy));
+    if (collapsedGroups.includes(groupKey)) toggleGroup(groupKey);
+    if (!filteredTasks.some((item) => item.id === task.id)) setSearchQuery('');
+    setFocusedTaskId(task.id);
+  };
+
+  handleShortcut.current = (e) => {
+    if (isModKey(e) && e.key.toLowerCase() === 'k') {
+      e.preventDefault();
+      setShowPalette((open) => !open);
+      return;
+    }
+    // Open dialogs handle their own keys
+    if (showPalette || showShortcuts || showImport || showCalendarExport || editingTask || isTextInput(e.target)) return;
+
+    if (isModKey(e) && e.key.toLowerCase() === 'z') {
+      if (readOnly) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const handled = ((): boolean => {
+      switch (e.key) {
+        case '?':
+          setShowShortcuts(true);
+          return true;
+        case '/':
+          searchInputRef.current?.focus();
+          return true;
+        case 'c':
+          if (readOnly) return false;
+          openAddTaskForm();
+          return true;
+        case 'Escape':
+          setFocusedTaskId(null);
+          return true;
+        case 'j':
+        case 'ArrowDown':
+          moveFocus(1);
+          return navigationColumns.length > 0;
+        case 'k':
+        case 'ArrowUp':
+          moveFocus(-1);
+          return navigationColumns.length > 0;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+          if (viewMode !== 'board') return false;
+          moveFocusToColumn(e.key === 'ArrowLeft' ? -1 : 1);
+          return true;
+      }
+
+      if (!focusedTask) return false;
+      switch (e.key) {
+        case 'e':
+        case 'Enter':
+          // Enter on a focused button clicks it instead
+          if (e.key === 'Enter' && e.target instanceof HTMLElement && e.target.closest('button, a')) return false;
+          handleEditTask(focusedTask);
+          return true;
+      }
+
+      if (readOnly) return false;
+      switch (e.key) {
+        case '1':
+          setFocusedStatus('Todo');
+          return true;
+        case '2':
+          setFocusedStatus('In-Progress');
+          return true;
+        case '3':
+          setFocusedStatus('Completed');
+          return true;
+        case 'x':
+          handleTaskSelect(focusedTask.id, !selectedTasks.has(focusedTask.id));
+          return true;
+        case '#':
+          deleteFocusedTask();
+          return true;
+        default:
+          return false;
+      }
+    })();
+    if (handled) e.preventDefault();
+  };
+
+  const applyFilter = (changes: Partial<TaskFilter>) => {
+    const next = { ...filter, ...changes };
+    if (next.dueDate !== 'custom') {
+      delete next.dueDateFrom;
+      delete next.dueDateTo;
+    }
+    setFilter(next);
+  };
+
+  const viewCommands = (['list', 'board', 'calendar', 'trash'] as const).map((mode) => ({
+    id: `view-${mode}`,
+    label: `Switch to ${mode} view`,
+    group: 'View',
+    run: () => setViewMode(mode)
+  }));
+
+  const groupCommands: PaletteCommand[] = GROUP_BY_OPTIONS.map((option) => ({
+    id: `group-${option.value}`,
+    label: option.value === 'none' ? 'List: No grouping' : `List: Group by ${option.label.toLowerCase()}`,
+    group: 'View',
+    run: () => {
+      setViewMode('list');
+      setGroupBy(option.value);
+    }
+  }));
+
+  const filterCommands: PaletteCommand[] = [
+    ...(['High', 'Medium', 'Low'] as TaskPriority[]).map((priority) => ({
+      id: `filter-priority-${priority}`,
+      label: `Filter: ${priority} priority`,
+      group: 'Filter',
+      run: () => applyFilter({ priority })
+    })),
+    ...(['Work', 'Personal'] as TaskCategory[]).map((category) => ({
+      id: `filter-category-${category}`,
+      label: `Filter: ${category}`,
+      group: 'Filter',
+      run: () => applyFilter({ category })
+    })),
+    ...sectionKeys.map((status) => ({
+      id: `filter-status-${status}`,
+      label: `Filter: ${status === 'In-Progress' ? 'In Progress' : status}`,
+      group: 'Filter',
+      run: () => applyFilter({ status })
+    })),
+    ...([['overdue', 'Overdue'], ['today', 'Due today'], ['week', 'Due this week']] as [DueDateFilter, string][])
+      .map(([dueDate, label]) => ({
+        id: `filter-due-${dueDate}`,
+        label: `Filter: ${label}`,
+        group: 'Filter',
+        run: () => applyFilter({ dueDate })
+      })),
+    { id: 'filter-assigned', label: 'Filter: Assigned to me', group: 'Filter', run: () => applyFilter({ assignment: 'assignedToMe' }) },
+    { id: 'filter-clear', label: 'Clear filters', group: 'Filter', run: () => setFilter({}) }
+  ];
+
+  const focusedTaskCommands: PaletteCommand[] = focusedTask
+    ? [
+        { id: 'task-edit', label: `Edit "${focusedTask.title}"`, group: 'Focused task', run: () => handleEditTask(focusedTask) },
+        ...(readOnly
+          ? []
+          : [
+              ...sectionKeys
+                .filter((status) => status !== focusedTask.status)
+                .map((status) => ({
+                  id: `task-status-${status}`,
+                  label: `Move "${focusedTask.title}" to ${status === 'In-Progress' ? 'In Progress' : status}`,
+                  group: 'Focused task',
+                  run: () => setFocusedStatus(status)
+                })),
+              { id: 'task-delete', label: `Delete "${focusedTask.title}"`, group: 'Focused task', run: deleteFocusedTask }
+            ])
+      ]
+    : [];
+
+  const commands: PaletteCommand[] = [
+    ...focusedTaskCommands,
+    ...(readOnly ? [] : [{ id: 'new-task', label: 'New task', group: 'Tasks', run: openAddTaskForm }]),
+    { id: 'search', label: 'Search tasks', group: 'Tasks', run: () => searchInputRef.current?.focus() },
+    ...(readOnly ? [] : [{ id: 'import', label: 'Import tasks', group: 'Tasks', run: () => setShowImport(true) }]),
+    { id: 'export-csv', label: 'Export tasks as CSV', group: 'Tasks', run: () => handleExport('csv') },
+    { id: 'export-json', label: 'Export tasks as JSON', group: 'Tasks', run: () => handleExport('json') },
+    { id: 'export-ics', label: 'Export to calendar (.ics)', group: 'Tasks', run: () => handleExport('ics') },
+    ...(readOnly
+      ? []
+      : [
+          { id: 'undo', label: 'Undo', group: 'Tasks', run: () => undo() },
+          { id: 'redo', label: 'Redo', group: 'Tasks', run: () => redo() }
+        ]),
+    ...viewCommands,
+    ...groupCommands,
+    ...filterCommands,
+    { id: 'shortcuts', label: 'Show keyboard shortcuts', group: 'Help', run: () => setShowShortcuts(true) }
+  ];
+
+  return (
+    <div className="flex flex-col lg:flex-row">
+      <ViewSidebar />
+      <div className="flex-1 min-w-0 max-w-full overflow-x-auto">
+        <div className="flex items-center justify-between flex-wrap gap-4 p-4">
+          <div className="flex items-center space-x-4 flex-wrap gap-2">
+            {!readOnly && (
+              <button
+                onClick={openAddTaskForm}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 text-sm sm:text-base"
+              >
+                Add Task
+              </button>
+            )}
+            {!readOnly && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="px-3 py-1.5 rounded-lg text-sm sm:text-base text-gray-600 hover:bg-gray-100"
+              >
+                Import
+              </button>
+            )}
             <select
-              value={newTask.category}
-              onChange={(e) => setNewTask({ ...newTask, category: e.target.value as TaskCategory })}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
-              required
+              value=""
+              onChange={(e) => handleExport(e.target.value as 'csv' | 'json' | 'ics')}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Export tasks"
             >
-              <option value="Work">Work</option>
-              <option value="Personal">Personal</option>
+              <option value="" disabled>Export…</option>
+              <option value="csv">Export as CSV</option>
+              <option value="json">Export as JSON</option>
+              <option value="ics">Export to calendar (.ics)</option>
             </select>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setViewMode('list')}
+                className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
+                  viewMode === 'list'
+                    ? 'bg-gray-200 text-gray-800'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                List View
+              </button>
+              <button
+                onClick={() => setViewMode('board')}
+                className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
+                  viewMode === 'board'
+                    ? 'bg-gray-200 text-gray-800'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Board View
+              </button>
+              <button
+                onClick={() => setViewMode('calendar')}
+                className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
+                  viewMode === 'calendar'
+                    ? 'bg-gray-200 text-gray-800'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Calendar
+              </button>
+              <button
+                onClick={() => setViewMode('trash')}
+                className={`px-3 py-1.5 rounded-lg text-sm sm:text-base ${
+                  viewMode === 'trash'
+                    ? 'bg-gray-200 text-gray-800'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Trash
+              </button>
+            </div>
+            {viewMode === 'list' && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                Group by
+                <select
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as TaskGroupBy)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {GROUP_BY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
-          <div className="mb-4">
-            <label className="block text-gray-700 text-sm font-bold mb-2">
-              Attachment
-            </label>
+          <div className="w-full sm:w-auto">
             <input
-              type="file"
-              onChange={(e) => setNewTask({ ...newTask, attachment: e.target.files?.[0] || null })}
-              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              ref={searchInputRef}
+              type="text"
+              placeholder="Search tasks..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full sm:w-64 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              title='Also supports status:todo, priority:high, category:work, due:<2026-11-01, is:overdue and "quoted phrases"'
             />
+            {search.errors.length > 0 && (
+              <p className="text-xs text-red-600 mt-1">Not understood: {search.errors.join(', ')}</p>
+            )}
           </div>
-          <div className="flex justify-end space-x-2">
-            <button
-              type="button"
-              onClick={() => setShowAddTaskForm(false)}
-              className="mr-2 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
-            >
-              Add Task
-            </button>
-          </div>
-        </form>
-      )}
-
-      {/* Task Edit Modal */}
-      {editingTask && (
-        <TaskEditModal
-          task={editingTask}
-          onSave={handleSaveEdit}
-          onClose={handleCloseEdit}
-        />
-      )}
-
-      {viewMode === 'list' ? (
-        <div className="space-y-6 p-2 sm:p-6 bg-gradient-to-br from-gray-100 to-gray-200 min-h-screen">
-          {selectedTasks.size > 0 && (
-            <div className="mb-4 p-3 bg-white rounded-lg shadow-md flex flex-col sm:flex-row items-center justify-between gap-2 border border-gray-200">
-              <span className="text-gray-700 font-medium text-sm sm:text-base">
-                {selectedTasks.size} task{selectedTasks.size !== 1 ? 's' : ''} selected
-              </span>
-              <button
-                onClick={handleBulkDelete}
-                className="w-full sm:w-auto px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 text-sm sm:text-base"
+        </div>
+        <div className="px-4 pb-2">
+          <TaskFilters />
+        </div>
+
+        {showAddTaskForm && !readOnly && (
+          <form onSubmit={handleAddTask} className="mt-4 bg-white p-4 rounded-lg shadow mb-6">
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Task Name
+              </label>
+              <input
+                type="text"
+                value={newTask.title}
+                onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Description
+              </label>
+              <textarea
+                value={newTask.description}
+                onChange={(e) => {
+                  if (e.target.value.length <= 300) {
+                    setNewTask({ ...newTask, description: e.target.value })
+                  }
+                }}
+                maxLength={300}
+                rows={4}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                placeholder="Enter task description (max 300 characters)"
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                {newTask.description.length}/300 characters
+              </p>
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Due Date
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={newTask.dueDate}
+                  onChange={(e) => setNewTask({ ...newTask, dueDate: e.target.value })}
+                  className="shadow appearance-none border rounded flex-1 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                  required
+                />
+                <input
+                  type="time"
+                  value={newTask.dueTime}
+                  onChange={(e) => setNewTask({ ...newTask, dueTime: e.target.value })}
+                  className="shadow appearance-none border rounded w-32 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                  aria-label="Due time (optional)"
+                />
+              </div>
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Task Status
+              </label>
+              <select
+                value={newTask.status}
+                onChange={(e) => setNewTask({ ...newTask, status: e.target.value as SectionKey })}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                required
               >
-                Delete Selected ({selectedTasks.size})
-              </button>
+                <option value="Todo">Todo</option>
+                <option value="In-Progress">In Progress</option>
+                <option value="Completed">Completed</option>
+              </select>
             </div>
-          )}
-          <div className="space-y-6">
-            {/* Todo Section */}
-            <div className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
-              <div
-                className="p-4 flex justify-between items-center cursor-pointer bg-gradient-to-r from-blue-50 to-blue-100 hover:from-blue-100 hover:to-blue-150 transition-colors"
-                onClick={() => toggleSection('Todo')}
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Task Category
+              </label>
+              <select
+                value={newTask.category}
+                onChange={(e) => setNewTask({ ...newTask, category: e.target.value as TaskCategory })}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+                required
               >
-                <h2 className="text-xl font-semibold text-gray-800">Todo</h2>
-                {expandedSections.Todo ? (
-                  <ChevronUpIcon className="h-5 w-5 text-gray-600" />
-                ) : (
-                  <ChevronDownIcon className="h-5 w-5 text-gray-600" />
-                )}
-              </div>
-              {expandedSections.Todo && (
-                <div className="border-t border-gray-200">
-                  <TaskTable
-                    tasks={todoTasks}
-                    onEdit={handleEditTask}
-                    onDelete={handleDelete}
-                    selectedTasks={selectedTasks}
-                    onTaskSelect={handleTaskSelect}
-                    onSelectAll={handleSelectAll}
-                    sectionType="Todo"
-                  />
-                </div>
+                <option value="Work">Work</option>
+                <option value="Personal">Personal</option>
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Assignees
+              </label>
+              <AssigneePicker
+                value={newTask.assigneeIds}
+                onChange={(assigneeIds) => setNewTask({ ...newTask, assigneeIds })}
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Repeat
+              </label>
+              <RecurrenceEditor
+                value={newTask.recurrence}
+                onChange={(recurrence) => setNewTask({ ...newTask, recurrence })}
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Reminders
+              </label>
+              <ReminderEditor
+                value={newTask.reminders}
+                onChange={(reminders) => setNewTask({ ...newTask, reminders })}
+                dueDate={buildDueDate(newTask.dueDate, newTask.dueTime)}
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Attachments
+              </label>
+              <input
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  const errors = files.map(validateAttachment).filter(Boolean);
+                  if (files.length > MAX_ATTACHMENTS_PER_TASK) {
+                    errors.push(`A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments`);
+                  }
+                  setAttachmentError(errors.length ? errors.join('. ') : null);
+                  setNewTask({
+                    ...newTask,
+                    attachments: errors.length ? [] : files
+                  });
+                  if (errors.length) e.target.value = '';
+                }}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              />
+              {attachmentError && (
+                <p className="text-sm text-red-600 mt-1">{attachmentError}</p>
               )}
             </div>
-
-            {/* In Progress Section */}
-            <div className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
-              <div
-                className="p-4 flex justify-between items-center cursor-pointer bg-gradient-to-r from-yellow-50 to-yellow-100 hover:from-yellow-100 hover:to-yellow-150 transition-colors"
-                onClick={() => toggleSection('In-Progress')}
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowAddTaskForm(false)}
+                className="mr-2 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
               >
-                <h2 className="text-xl font-semibold text-gray-800">In Progress</h2>
-                {expandedSections['In-Progress'] ? (
-                  <ChevronUpIcon className="h-5 w-5 text-gray-600" />
-                ) : (
-                  <ChevronDownIcon className="h-5 w-5 text-gray-600" />
-                )}
-              </div>
-              {expandedSections['In-Progress'] && (
-                <div className="border-t border-gray-200">
-                  <TaskTable
-                    tasks={inProgressTasks}
-                    onEdit={handleEditTask}
-                    onDelete={handleDelete}
-                    selectedTasks={selectedTasks}
-                    onTaskSelect={handleTaskSelect}
-                    onSelectAll={handleSelectAll}
-                    sectionType="In-Progress"
-                  />
-                </div>
-              )}
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+              >
+                Add Task
+              </button>
             </div>
+          </form>
+        )}
 
-            {/* Completed Section */}
-            <div className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
-              <div
-                className="p-4 flex justify-between items-center cursor-pointer bg-gradient-to-r from-green-50 to-green-100 hover:from-green-100 hover:to-green-150 transition-colors"
-                onClick={() => toggleSection('Completed')}
-              >
-                <h2 className="text-xl font-semibold text-gray-800">Completed</h2>
-                {expandedSections.Completed ? (
-                  <ChevronUpIcon className="h-5 w-5 text-gray-600" />
-                ) : (
-                  <ChevronDownIcon className="h-5 w-5 text-gray-600" />
-                )}
+        {showPalette && (
+          <CommandPalette
+            commands={commands}
+            tasks={tasks}
+            onTaskSelect={jumpToTask}
+            onClose={() => setShowPalette(false)}
+          />
+        )}
+        {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+        {showImport && <ImportTasksModal onClose={() => setShowImport(false)} />}
+        {showCalendarExport && (
+          <CalendarExportModal
+            tasks={sortTasks(filteredTasks, sort)}
+            calendarName={activeWorkspace ? `TaskBuddy: ${activeWorkspace.name}` : 'TaskBuddy'}
+            onClose={() => setShowCalendarExport(false)}
+          />
+        )}
+
+        {/* Task Edit Modal */}
+        {editingTask && (
+          <TaskEditModal
+            task={editingTask}
+            readOnly={editingReadOnly}
+            onSave={handleSaveEdit}
+            onClose={handleCloseEdit}
+          />
+        )}
+
+        {selectedTasks.size > 0 && !readOnly && viewMode !== 'trash' && (
+          <div className="px-2 sm:px-6">
+            <BulkActionBar
+              selectedIds={Array.from(selectedTasks)}
+              onClear={() => setSelectedTasks(new Set())}
+            />
+          </div>
+        )}
+
+        {viewMode === 'trash' ? (
+          activeWorkspaceId && <TrashView workspaceId={activeWorkspaceId} readOnly={readOnly} />
+        ) : viewMode === 'calendar' ? (
+          <CalendarView
+            tasks={filteredCalendarTasks}
+            onTaskEdit={handleEditTask}
+            onDayClick={handleDayClick}
+            readOnly={readOnly}
+          />
+        ) : viewMode === 'list' ? (
+          <div className="space-y-6 p-2 sm:p-6 bg-gradient-to-br from-gray-100 to-gray-200 min-h-screen">
+            <DragDropContext
+              onDragEnd={(result) => {
+                const destination = groups.find((group) => group.value === result.destination?.droppableId);
+                if (!destination) return;
+                handleTaskMove(result, destination.tasks.filter((task) => task.id !== result.draggableId));
+              }}
+            >
+              <div className="space-y-6">
+                {groups.map((group) => (
+                  <div key={group.key} className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-200">
+                    <div
+                      className={`p-4 flex justify-between items-center cursor-pointer bg-gradient-to-r ${group.headerClassName} transition-colors`}
+                      onClick={() => toggleGroup(group.key)}
+                    >
+                      <h2 className="text-xl font-semibold text-gray-800">
+                        {group.label}
+                        <span className="ml-2 text-base font-normal text-gray-500">({group.tasks.length})</span>
+                      </h2>
+                      {isExpanded(group) ? (
+                        <ChevronUpIcon className="h-5 w-5 text-gray-600" />
+                      ) : (
+                        <ChevronDownIcon className="h-5 w-5 text-gray-600" />
+                      )}
+                    </div>
+                    {isExpanded(group) && (
+                      <div className="border-t border-gray-200">
+                        <TaskTable
+                          tasks={group.tasks}
+                          onEdit={handleEditTask}
+                          onDelete={handleDelete}
+                          selectedTasks={selectedTasks}
+                          onTaskSelect={handleTaskSelect}
+                          onSelectAll={handleSelectAll}
+                          droppableId={group.value}
+                          sort={sort}
+                          onSort={handleSort}
+                          focusedTaskId={focusedTaskId}
+                          search={search}
+                          dragDisabled={listDragDisabled}
+                          readOnly={readOnly}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
               </div>
-              {expandedSections.Completed && (
-                <div className="border-t border-gray-200">
-                  <TaskTable
-                    tasks={completedTasks}
-                    onEdit={handleEditTask}
-                    onDelete={handleDelete}
-                    selectedTasks={selectedTasks}
-                    onTaskSelect={handleTaskSelect}
-                    onSelectAll={handleSelectAll}
-                    sectionType="Completed"
-                  />
-                </div>
-              )}
-            </div>
+            </DragDropContext>
           </div>
-        </div>
-      ) : (
-        <BoardView
-          tasks={filteredTasks}
-          onTaskMove={handleTaskMove}
-          onTaskEdit={(taskId) => {
-            const task = filteredTasks.find(t => t.id === taskId);
-            if (task) handleEditTask(task);
-          }}
-          onTaskDelete={handleDelete}
-        />
-      )}
+        ) : (
+          <BoardView
+            tasks={filteredTasks}
+            onTaskMove={handleTaskMove}
+            onTaskEdit={(taskId) => {
+              const task = filteredTasks.find(t => t.id === taskId);
+              if (task) handleEditTask(task);
+            }}
+            onTaskDelete={handleDelete}
+            selectedTasks={selectedTasks}
+            onTaskSelect={handleTaskSelect}
+            onRangeSelect={handleRangeSelect}
+            focusedTaskId={focusedTaskId}
+            search={search}
+            readOnly={readOnly}
+          />
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { useTaskStore, TRASH_RETENTION_DAYS } from '../../store/taskStore';
+import { useTrashStore } from '../../store/trashStore';
+
+interface TrashViewProps {
+  workspaceId: string;
+  readOnly?: boolean;
+}
+
+export const TrashView = ({ workspaceId, readOnly = false }: TrashViewProps) => {
+  const { tasks, loading, error, fetchTrash, deleteForever, cleanup } = useTrashStore();
+  const restoreTasks = useTaskStore((state) => state.restoreTasks);
+
+  useEffect(() => {
+    fetchTrash(workspaceId, !readOnly);
+    return () => cleanup();
+  }, [workspaceId, readOnly, fetchTrash, cleanup]);
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Permanently delete ${tasks.length} task${tasks.length !== 1 ? 's' : ''}? This can't be undone.`)) {
+      deleteForever(tasks);
+    }
+  };
+
+  return (
+    <div className="p-2 sm:p-6">
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        <div className="p-4 flex items-center justify-between border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">Trash</h2>
+            <p className="text-sm text-gray-500">
+              Deleted tasks are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+            </p>
+          </div>
+          {!readOnly && tasks.length > 0 && (
+            <button onClick={handleEmptyTrash} className="text-sm text-red-600 hover:text-red-800">
+              Empty trash
+            </button>
+          )}
+        </div>
+
+        {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+        {loading ? (
+          <p className="p-4 text-sm text-gray-500">Loading…</p>
+        ) : tasks.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y">
+            {tasks.map((task) => {
+              const daysLeft = Math.max(differenceInCalendarDays(task.expiresAt.toDate(), new Date()), 0);
+              return (
+                <li key={task.id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{task.title}</p>
+                    <p className="text-sm text-gray-500">
+                      Deleted {format(new Date(task.deletedAt), 'MMM d, yyyy')} · removed in {daysLeft} day
+                      {daysLeft !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  {!readOnly && (
+                    <div className="flex items-center gap-3 shrink-0">
+                      <button
+                        onClick={() => restoreTasks([task])}
+                        className="text-sm text-purple-600 hover:text-purple-800"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Permanently delete "${task.title}"?`)) deleteForever([task]);
+                        }}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Delete forever
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
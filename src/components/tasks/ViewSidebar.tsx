@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { useAuthStore } from '../../store/authStore';
+import { useTaskStore } from '../../store/taskStore';
+import { useViewStore } from '../../store/viewStore';
+import { TaskFilter } from '../../types/task';
+import { DEFAULT_VIEW_STATE, paramsToViewState, viewStateToQuery } from '../../utils/viewParams';
+
+const presetQuery = (filter: TaskFilter) => viewStateToQuery({ ...DEFAULT_VIEW_STATE, filter });
+
+const PRESET_VIEWS = [
+  { name: 'All tasks', query: presetQuery({}) },
+  { name: 'Assigned to me', query: presetQuery({ assignment: 'assignedToMe' }) },
+  { name: 'Due today', query: presetQuery({ dueDate: 'today' }) },
+  { name: 'Due this week', query: presetQuery({ dueDate: 'week' }) },
+  { name: 'Overdue', query: presetQuery({ dueDate: 'overdue' }) }
+];
+
+export const ViewSidebar = () => {
+  const user = useAuthStore((state) => state.user);
+  const applyView = useTaskStore((state) => state.applyView);
+  const currentQuery = useTaskStore((state) => viewStateToQuery(state));
+  const { views, error, fetchViews, saveView, deleteView, cleanup } = useViewStore();
+
+  useEffect(() => {
+    if (user) {
+      fetchViews(user.uid);
+    }
+    return () => cleanup();
+  }, [user, fetchViews, cleanup]);
+
+  const openView = (viewQuery: string) => applyView(paramsToViewState(new URLSearchParams(viewQuery)));
+
+  const handleSave = async () => {
+    const name = window.prompt('Name this view');
+    if (name?.trim()) {
+      await saveView(name.trim(), currentQuery);
+    }
+  };
+
+  const itemClassName = (viewQuery: string) =>
+    `w-full text-left px-3 py-1.5 rounded-md text-sm truncate ${
+      viewQuery === currentQuery ? 'bg-purple-100 text-purple-700 font-medium' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <aside className="lg:w-56 shrink-0 p-4 lg:pr-0">
+      <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Views</h2>
+      <ul className="space-y-0.5">
+        {PRESET_VIEWS.map((view) => (
+          <li key={view.name}>
+            <button onClick={() => openView(view.query)} className={itemClassName(view.query)}>
+              {view.name}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-4 mb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Saved views</h2>
+        <button onClick={handleSave} className="text-xs text-purple-600 hover:text-purple-800">
+          Save current
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+      {views.length === 0 ? (
+        <p className="text-xs text-gray-500 px-3">Save the current filters, search and layout to get back to them later.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {views.map((view) => (
+            <li key={view.id} className="group flex items-center">
+              <button onClick={() => openView(view.query)} className={itemClassName(view.query)} title={view.name}>
+                {view.name}
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the view "${view.name}"?`)) deleteView(view.id);
+                }}
+                className="ml-1 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete view ${view.name}`}
+              >
+                <FaTimes className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
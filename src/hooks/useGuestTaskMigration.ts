@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useTaskStore } from '../store/taskStore';
+import { useToastStore } from '../store/toastStore';
+import { takeGuestTasks } from '../services/guestTasks';
+
+// Adds the tasks of a guest session that signed in to an existing account,
+// see services/guestTasks, once the account's personal workspace is open
+export const useGuestTaskMigration = () => {
+  const user = useAuthStore((state) => state.user);
+  const isGuest = useAuthStore((state) => state.isGuest);
+  const workspaceId = useTaskStore((state) => state.workspaceId);
+  const importTasks = useTaskStore((state) => state.importTasks);
+
+  useEffect(() => {
+    if (!user || isGuest || workspaceId !== user.uid) return;
+    const guestTasks = takeGuestTasks();
+    if (guestTasks.length === 0) return;
+    importTasks(guestTasks).then((imported) => {
+      if (imported > 0) {
+        useToastStore.getState().showToast(
+          `Added ${imported} task${imported !== 1 ? 's' : ''} from your guest session`
+        );
+      }
+    });
+  }, [user, isGuest, workspaceId, importTasks]);
+};
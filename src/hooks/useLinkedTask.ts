@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTaskStore } from '../store/taskStore';
+import { useToastStore } from '../store/toastStore';
+import { Task } from '../types/task';
+
+// Opens the task of a `?task=<id>` link, as used by calendar exports, then
+// takes the parameter out of the URL so a reload doesn't open it again
+export const useLinkedTask = (workspaceId: string | null, onOpen: (task: Task) => void) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fetchTask = useTaskStore((state) => state.fetchTask);
+  const taskId = searchParams.get('task');
+
+  useEffect(() => {
+    if (!taskId || !workspaceId) return;
+    let cancelled = false;
+    fetchTask(taskId).then((task) => {
+      if (cancelled) return;
+      if (task) {
+        onOpen(task);
+      } else {
+        useToastStore.getState().showToast("That task doesn't exist or you don't have access to it", { variant: 'error' });
+      }
+      setSearchParams((params) => {
+        params.delete('task');
+        return params;
+      }, { replace: true });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, workspaceId, fetchTask, onOpen, setSearchParams]);
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTaskStore } from '../store/taskStore';
+import { paramsToViewState, viewStateToQuery } from '../utils/viewParams';
+
+// Keeps the task store's view state and the URL query string in step. The
+// URL wins when it changes on its own (first load, a pasted link, back and
+// forward), the store wins when the user changes the view.
+export const useViewUrlSync = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const applyView = useTaskStore((state) => state.applyView);
+  const stateQuery = useTaskStore((state) => viewStateToQuery(state));
+  const urlQuery = searchParams.toString();
+  // The query string both sides last agreed on
+  const synced = useRef<string | null>(null);
+  // Only changes to the store are written back, not the render that still
+  // shows the store's state from before the URL was applied
+  const previousStateQuery = useRef(stateQuery);
+
+  useEffect(() => {
+    if (urlQuery === synced.current) return;
+    synced.current = urlQuery;
+    applyView(paramsToViewState(new URLSearchParams(urlQuery)));
+  }, [urlQuery, applyView]);
+
+  useEffect(() => {
+    if (stateQuery === previousStateQuery.current) return;
+    previousStateQuery.current = stateQuery;
+    if (stateQuery === synced.current) return;
+    synced.current = stateQuery;
+    setSearchParams(stateQuery, { replace: true });
+  }, [stateQuery, setSearchParams]);
+};
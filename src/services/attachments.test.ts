@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { readAttachment } from './attachments';
+
+describe('readAttachment', () => {
+  it('reads the download URLs older versions stored', () => {
+    const url =
+      'https://firebasestorage.googleapis.com/v0/b/demo-taskbuddy.appspot.com/o/users%2Fuser-1%2Ftasks%2Ftask-1%2Fnotes.pdf?alt=media&token=abc';
+    expect(readAttachment(url)).toEqual({
+      id: url,
+      name: 'notes.pdf',
+      path: 'users/user-1/tasks/task-1/notes.pdf',
+      url,
+      contentType: '',
+      size: 0,
+      uploadedAt: '',
+      uploadedBy: ''
+    });
+  });
+
+  it('keeps URLs from elsewhere without a path', () => {
+    expect(readAttachment('https://example.com/notes.pdf')).toMatchObject({ name: 'notes.pdf', path: '' });
+  });
+
+  it('keeps attachments as they are and drops anything else', () => {
+    const attachment = { id: 'a1', name: 'notes.pdf', path: 'workspaces/w/tasks/t/a1-notes.pdf' };
+    expect(readAttachment(attachment)).toBe(attachment);
+    expect(readAttachment(null)).toBeNull();
+    expect(readAttachment(42)).toBeNull();
+  });
+});
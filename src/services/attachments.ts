@@ -0,0 +1,116 @@
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from '@firebase/storage';
+import { storage } from './firebase';
+import { TaskAttachment } from '../types/task';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_ATTACHMENTS_PER_TASK = 10;
+
+const ALLOWED_TYPE_PREFIXES = ['image/', 'text/'];
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+// Accept attribute for file inputs, kept in sync with the validation below
+export const ATTACHMENT_ACCEPT = ['image/*', 'text/*', ...ALLOWED_TYPES].join(',');
+
+export const getAttachmentPath = (workspaceId: string, taskId: string, attachmentId: string, fileName: string) =>
+  `workspaces/${workspaceId}/tasks/${taskId}/${attachmentId}-${fileName}`;
+
+// Older versions stored attachments as bare download URLs. They're read as
+// attachments without a type or size, with the path taken from the URL.
+export const readAttachment = (value: unknown): TaskAttachment | null => {
+  if (typeof value !== 'string') {
+    return value && typeof value === 'object' ? (value as TaskAttachment) : null;
+  }
+  const encodedPath = value.match(/\/o\/([^?#]+)/)?.[1];
+  const path = encodedPath ? decodeURIComponent(encodedPath) : '';
+  return {
+    id: value,
+    name: (path || value.split(/[?#]/)[0]).split('/').pop() || value,
+    path,
+    url: value,
+    contentType: '',
+    size: 0,
+    uploadedAt: '',
+    uploadedBy: ''
+  };
+};
+
+export const validateAttachment = (file: File): string | null => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`;
+  }
+  const allowed =
+    ALLOWED_TYPES.includes(file.type) ||
+    ALLOWED_TYPE_PREFIXES.some((prefix) => file.type.startsWith(prefix));
+  if (!allowed) {
+    return `${file.name} has an unsupported file type`;
+  }
+  return null;
+};
+
+export const uploadAttachment = (
+  workspaceId: string,
+  userId: string,
+  taskId: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<TaskAttachment> => {
+  const validationError = validateAttachment(file);
+  if (validationError) {
+    return Promise.reject(new Error(validationError));
+  }
+
+  const id = crypto.randomUUID();
+  const path = getAttachmentPath(workspaceId, taskId, id, file.name);
+  const uploadTask = uploadBytesResumable(ref(storage, path), file, {
+    contentType: file.type
+  });
+
+  return new Promise((resolve, reject) => {
+    uploadTask.on(
+      'state_changed',
+      (snapshot) => {
+        onProgress?.(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100));
+      },
+      reject,
+      async () => {
+        try {
+          const url = await getDownloadURL(uploadTask.snapshot.ref);
+          resolve({
+            id,
+            name: file.name,
+            path,
+            url,
+            contentType: file.type,
+            size: file.size,
+            uploadedAt: new Date().toISOString(),
+            uploadedBy: userId
+          });
+        } catch (error) {
+          reject(error);
+        }
+      }
+    );
+  });
+};
+
+export const deleteAttachment = async (attachment: TaskAttachment) => {
+  // A legacy URL that doesn't point into this bucket
+  if (!attachment.path) return;
+  try {
+    await deleteObject(ref(storage, attachment.path));
+  } catch (error) {
+    // The object may already be gone, which is what we wanted anyway
+    if ((error as { code?: string }).code !== 'storage/object-not-found') {
+      throw error;
+    }
+  }
+};
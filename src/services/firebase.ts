@@ -1,13 +1,19 @@
 import { initializeApp } from '@firebase/app';
-import { getAuth } from '@firebase/auth';
-import { getStorage } from '@firebase/storage';
-import { enableMultiTabIndexedDbPersistence, initializeFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth } from '@firebase/auth';
+import { connectStorageEmulator, getStorage } from '@firebase/storage';
+import { connectFirestoreEmulator, enableMultiTabIndexedDbPersistence, initializeFirestore } from 'firebase/firestore';
+
+const useEmulators = import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true';
+// Ports from firebase.json. CI and containers can point at another host.
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
 
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  // The emulators accept any key, so test runs need no real project
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY || (useEmulators ? 'demo-key' : undefined),
   authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+  // "demo-" projects only ever talk to the emulators
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || (useEmulators ? 'demo-taskbuddy' : undefined),
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || (useEmulators ? 'demo-taskbuddy.appspot.com' : undefined),
   messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
   appId: import.meta.env.VITE_FIREBASE_APP_ID,
   measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
@@ -24,6 +30,13 @@ export const db = initializeFirestore(app, {
   ignoreUndefinedProperties: true,
 });
 
+// Point everything at the local emulators (`firebase emulators:start`) when enabled
+if (useEmulators) {
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  connectStorageEmulator(storage, emulatorHost, 9199);
+}
+
 // Enable multi-tab persistence
 enableMultiTabIndexedDbPersistence(db).catch((err) => {
   if (err.code === 'failed-precondition') {
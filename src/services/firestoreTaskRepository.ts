@@ -0,0 +1,260 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  endAt,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAfter,
+  where,
+  writeBatch,
+  DocumentData,
+  DocumentSnapshot,
+  QueryConstraint,
+  Timestamp,
+  WriteBatch
+} from 'firebase/firestore';
+import { readAttachment } from './attachments';
+import { db } from './firebase';
+import { Task, TaskAttachment, TaskFilter, TrashedTask } from '../types/task';
+import { TaskPageQuery, TaskQuery, TaskRepository, TaskWrite } from '../types/taskRepository';
+import { getDueDateRange } from '../utils/taskQuery';
+import { addDaysToDay, getDueDay, normalizeDueDate } from '../utils/dueDate';
+import { hasReminders } from '../utils/reminders';
+
+// Firestore rejects batches with more writes than this
+const BATCH_LIMIT = 500;
+
+const readAttachments = (data: DocumentData) =>
+  Array.isArray(data.attachments)
+    ? { attachments: data.attachments.map(readAttachment).filter((item): item is TaskAttachment => item !== null) }
+    : {};
+
+const readTask = (snapshot: DocumentSnapshot) => {
+  const data = snapshot.data() ?? {};
+  // Tasks the due date migration hasn't reached yet
+  return {
+    id: snapshot.id,
+    ...data,
+    ...readAttachments(data),
+    dueDate: normalizeDueDate(data.dueDate) ?? data.dueDate
+  } as Task;
+};
+
+// Builds the constraints for a workspace's task list. Every combination
+// produced here needs a matching composite index in firestore.indexes.json.
+const buildTaskQueryConstraints = (
+  workspaceId: string,
+  filter: TaskFilter,
+  userId: string,
+  now = new Date()
+): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [where('workspaceId', '==', workspaceId)];
+
+  switch (filter.assignment) {
+    case 'assignedToMe':
+      constraints.push(where('assigneeIds', 'array-contains', userId));
+      break;
+    case 'unassigned':
+      // Only matches tasks that store an empty list, which addTask always writes
+      constraints.push(where('assigneeIds', '==', []));
+      break;
+    case 'createdByMe':
+      constraints.push(where('createdBy', '==', userId));
+      break;
+  }
+
+  if (filter.category) {
+    constraints.push(where('category', '==', filter.category));
+  }
+  if (filter.status) {
+    constraints.push(where('status', '==', filter.status));
+  } else if (filter.dueDate === 'overdue') {
+    // Completed tasks are never overdue
+    constraints.push(where('status', 'in', ['Todo', 'In-Progress']));
+  }
+  if (filter.priority) {
+    constraints.push(where('priority', '==', filter.priority));
+  }
+
+  const range = getDueDateRange(filter, now);
+  if (range) {
+    if (range.from) constraints.push(where('dueDate', '>=', range.from));
+    // Due dates can carry a time, so the last day is bounded by the next one
+    if (range.to) constraints.push(where('dueDate', '<', addDaysToDay(range.to, 1)));
+    if (range.before) {
+      constraints.push(where('dueDate', '<', range.before), where('dueDate', '!=', getDueDay(range.before)));
+    }
+    // A range filter has to be the first ordering of the query
+    constraints.push(orderBy('dueDate', 'asc'));
+  }
+  constraints.push(orderBy('createdAt', 'desc'));
+
+  return constraints;
+};
+
+const buildQuery = ({ workspaceId, filter, userId }: TaskQuery, bounds: QueryConstraint[] = []) =>
+  query(collection(db, 'tasks'), ...buildTaskQueryConstraints(workspaceId, filter, userId), ...bounds);
+
+// Cursors are the document snapshots of the last task on a page
+const getBounds = (pageQuery: TaskPageQuery) => [
+  ...(pageQuery.startAfter ? [startAfter(pageQuery.startAfter as DocumentSnapshot)] : []),
+  ...(pageQuery.endAt ? [endAt(pageQuery.endAt as DocumentSnapshot)] : []),
+  ...(pageQuery.limit ? [limit(pageQuery.limit)] : [])
+];
+
+// Number of documents a write touches
+const getWriteSize = (write: TaskWrite) => (write.type === 'trash' ? 3 : 1);
+
+const addWrite = (batch: WriteBatch, write: TaskWrite) => {
+  switch (write.type) {
+    case 'create':
+      batch.set(doc(db, 'tasks', write.id), { ...write.task, updatedAt: serverTimestamp() });
+      break;
+    case 'update':
+      batch.update(doc(db, 'tasks', write.id), {
+        ...write.fields,
+        updatedAt: serverTimestamp(),
+        ...(write.activity && { activities: arrayUnion(write.activity) }),
+        ...(write.attachment && { attachments: arrayUnion(write.attachment) }),
+        // Attachments from before metadata was kept are stored as their URL
+        ...(write.removedAttachment && {
+          attachments: arrayRemove(write.removedAttachment, write.removedAttachment.url)
+        })
+      });
+      break;
+    case 'delete':
+      batch.delete(doc(db, 'tasks', write.id));
+      break;
+    case 'trash': {
+      const { id, ...data } = write.task;
+      batch.set(doc(db, 'trash', id), {
+        ...data,
+        deletedAt: write.deletedAt,
+        deletedBy: write.deletedBy,
+        expiresAt: Timestamp.fromDate(write.expiresAt)
+      });
+      batch.delete(doc(db, 'tasks', id));
+      // The task document is gone, so its deletion is kept in a separate log
+      batch.set(doc(collection(db, 'activityLog')), {
+        ...write.activity,
+        taskId: id,
+        workspaceId: data.workspaceId ?? null,
+        title: data.title
+      });
+      break;
+    }
+    case 'restore': {
+      const { id, ...data } = write.task;
+      batch.set(doc(db, 'tasks', id), { ...data, updatedAt: serverTimestamp() });
+      batch.delete(doc(db, 'trash', id));
+      break;
+    }
+    case 'purge':
+      batch.delete(doc(db, 'trash', write.id));
+      break;
+    case 'log':
+      batch.set(doc(collection(db, 'activityLog')), {
+        ...write.activity,
+        taskId: write.taskId,
+        workspaceId: write.workspaceId,
+        title: write.title
+      });
+      break;
+  }
+};
+
+// Commits writes in as few batches as possible. The writes of one group
+// always end up in the same batch.
+const commitInBatches = (groups: TaskWrite[][]) => {
+  const commits: Promise<void>[] = [];
+  let batch = writeBatch(db);
+  let size = 0;
+  groups.forEach((group) => {
+    const groupSize = group.reduce((total, write) => total + getWriteSize(write), 0);
+    if (size + groupSize > BATCH_LIMIT) {
+      commits.push(batch.commit());
+      batch = writeBatch(db);
+      size = 0;
+    }
+    group.forEach((write) => addWrite(batch, write));
+    size += groupSize;
+  });
+  if (size > 0) commits.push(batch.commit());
+  return Promise.all(commits).then(() => undefined);
+};
+
+// Writes resolve once the server acknowledges them. With offline
+// persistence that can be long after they were queued, and the snapshot
+// listeners already include them in the meantime.
+export const createFirestoreTaskRepository = (): TaskRepository => ({
+  subscribe: (pageQuery, onChange, onError) =>
+    onSnapshot(
+      buildQuery(pageQuery, getBounds(pageQuery)),
+      (snapshot) =>
+        onChange({
+          tasks: snapshot.docs.map(readTask),
+          lastCursor: snapshot.docs[snapshot.docs.length - 1] ?? null
+        }),
+      onError
+    ),
+
+  list: async (taskQuery) => (await getDocs(buildQuery(taskQuery))).docs.map(readTask),
+
+  get: async (taskId) => {
+    const snapshot = await getDoc(doc(db, 'tasks', taskId));
+    return snapshot.exists() ? readTask(snapshot) : null;
+  },
+
+  createId: () => doc(collection(db, 'tasks')).id,
+  create: (id, task) => commitInBatches([[{ type: 'create', id, task }]]),
+  update: (id, fields, activity) => commitInBatches([[{ type: 'update', id, fields, activity }]]),
+  delete: (id) => commitInBatches([[{ type: 'delete', id }]]),
+  batch: commitInBatches,
+
+  // Firestore can't query for a non-empty list, so tasks without reminders are dropped here
+  subscribeReminders: (workspaceId, onChange, onError) =>
+    onSnapshot(
+      query(collection(db, 'tasks'), where('workspaceId', '==', workspaceId), where('status', 'in', ['Todo', 'In-Progress'])),
+      (snapshot) => onChange(snapshot.docs.map(readTask).filter(hasReminders)),
+      onError
+    ),
+
+  // Tasks created before workspaces only carry a userId. They move into the
+  // owner's personal workspace, which has the owner's id.
+  migrateLegacyTasks: async (userId) => {
+    // The rules only let creators list tasks without a workspace, so the
+    // query has to be limited to those
+    const snapshot = await getDocs(
+      query(collection(db, 'tasks'), where('userId', '==', userId), where('workspaceId', '==', null))
+    );
+    await commitInBatches(
+      snapshot.docs.map((taskDoc): TaskWrite[] => [{ type: 'update', id: taskDoc.id, fields: { workspaceId: userId } }])
+    );
+  },
+
+  // Older versions stored due dates in more than one format
+  migrateDueDates: async (workspaceId) => {
+    const snapshot = await getDocs(query(collection(db, 'tasks'), where('workspaceId', '==', workspaceId)));
+    await commitInBatches(
+      snapshot.docs.flatMap((taskDoc): TaskWrite[][] => {
+        const before = taskDoc.data().dueDate;
+        const after = normalizeDueDate(before);
+        return after !== null && after !== before ? [[{ type: 'update', id: taskDoc.id, fields: { dueDate: after } }]] : [];
+      })
+    );
+  },
+
+  subscribeTrash: (workspaceId, onChange, onError) =>
+    onSnapshot(
+      query(collection(db, 'trash'), where('workspaceId', '==', workspaceId), orderBy('deletedAt', 'desc')),
+      (snapshot) => onChange(snapshot.docs.map((taskDoc) => readTask(taskDoc) as TrashedTask)),
+      onError
+    )
+});
@@ -0,0 +1,32 @@
+import { taskRepository } from './taskRepository';
+import { ImportedTask, toImportedTask } from '../utils/taskImport';
+
+// A guest who signs in to an account that already exists gets a new user id,
+// and loses access to the guest's data. Their tasks are read while still
+// signed in as the guest, kept here, and added to the account's personal
+// workspace once it has loaded. Guests who create a new account keep their id
+// and need none of this.
+const PENDING_KEY = 'taskbuddy.guestTasks';
+
+// Guests only ever have their personal workspace, which has their id
+export const collectGuestTasks = async (guestId: string) => {
+  const tasks = await taskRepository.list({ workspaceId: guestId, filter: {}, userId: guestId });
+  return tasks.map(toImportedTask);
+};
+
+export const stashGuestTasks = (tasks: ImportedTask[]) => {
+  if (tasks.length > 0) {
+    localStorage.setItem(PENDING_KEY, JSON.stringify(tasks));
+  }
+};
+
+// Returns the stashed tasks once, so they can't be added twice
+export const takeGuestTasks = (): ImportedTask[] => {
+  const stored = localStorage.getItem(PENDING_KEY);
+  localStorage.removeItem(PENDING_KEY);
+  try {
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
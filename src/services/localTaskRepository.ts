@@ -0,0 +1,260 @@
+import { Timestamp } from 'firebase/firestore';
+import { Task, TrashedTask } from '../types/task';
+import { TaskPageQuery, TaskRepository, TaskWrite } from '../types/taskRepository';
+import { compareByTaskQuery, matchesTaskQuery } from '../utils/taskQuery';
+import { hasReminders } from '../utils/reminders';
+import { appendActivity } from '../utils/taskActivity';
+
+// Keeps tasks in this browser only. Without persistence everything is gone
+// on reload, which is what tests want.
+
+const DB_NAME = 'taskbuddy-local';
+const DB_VERSION = 1;
+const TASK_STORE = 'tasks';
+const TRASH_STORE = 'trash';
+// Tells other tabs to reload their copy after a write
+const CHANNEL_NAME = 'taskbuddy-local-tasks';
+
+// Timestamps don't survive IndexedDB's cloning, so they are stored as milliseconds
+type StoredTask = Omit<Task, 'updatedAt'> & { updatedAt: number | null };
+type StoredTrashedTask = Omit<TrashedTask, 'updatedAt' | 'expiresAt'> & { updatedAt: number | null; expiresAt: number };
+
+const toStoredTask = (task: Task): StoredTask => ({ ...task, updatedAt: task.updatedAt?.toMillis() ?? null });
+
+const fromStoredTask = (task: StoredTask): Task => ({
+  ...task,
+  updatedAt: task.updatedAt === null ? null : Timestamp.fromMillis(task.updatedAt)
+});
+
+const toStoredTrashedTask = (task: TrashedTask): StoredTrashedTask => ({
+  ...toStoredTask(task),
+  deletedAt: task.deletedAt,
+  deletedBy: task.deletedBy,
+  expiresAt: task.expiresAt.toMillis()
+});
+
+const fromStoredTrashedTask = (task: StoredTrashedTask): TrashedTask => ({
+  ...fromStoredTask(task),
+  deletedAt: task.deletedAt,
+  deletedBy: task.deletedBy,
+  expiresAt: Timestamp.fromMillis(task.expiresAt)
+});
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(TASK_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readAll = <T>(database: IDBDatabase, storeName: string) =>
+  new Promise<T[]>((resolve, reject) => {
+    const request = database.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+interface LocalState {
+  tasks: Map<string, Task>;
+  trash: Map<string, TrashedTask>;
+}
+
+// Applies a group of writes to a copy of the state, so a failing write leaves nothing behind
+const applyGroup = (state: LocalState, group: TaskWrite[]): LocalState => {
+  const tasks = new Map(state.tasks);
+  const trash = new Map(state.trash);
+  const updatedAt = Timestamp.now();
+
+  group.forEach((write) => {
+    switch (write.type) {
+      case 'create':
+        tasks.set(write.id, { ...write.task, id: write.id, updatedAt });
+        break;
+      case 'update': {
+        const task = tasks.get(write.id);
+        if (!task) throw new Error(`No task to update: ${write.id}`);
+        tasks.set(write.id, {
+          ...task,
+          ...write.fields,
+          ...(write.activity && { activities: appendActivity(task.activities, write.activity) }),
+          ...(write.attachment && { attachments: [...(task.attachments ?? []), write.attachment] }),
+          ...(write.removedAttachment && {
+            attachments: (task.attachments ?? []).filter((item) => item.id !== write.removedAttachment?.id)
+          }),
+          updatedAt
+        });
+        break;
+      }
+      case 'delete':
+        tasks.delete(write.id);
+        break;
+      // Nothing reads the activity log outside Firestore, so it isn't kept
+      case 'log':
+        break;
+      case 'trash':
+        trash.set(write.task.id, {
+          ...write.task,
+          deletedAt: write.deletedAt,
+          deletedBy: write.deletedBy,
+          expiresAt: Timestamp.fromDate(write.expiresAt)
+        });
+        tasks.delete(write.task.id);
+        break;
+      case 'restore':
+        tasks.set(write.task.id, { ...write.task, updatedAt });
+        trash.delete(write.task.id);
+        break;
+      case 'purge':
+        trash.delete(write.id);
+        break;
+    }
+  });
+  return { tasks, trash };
+};
+
+const getChangedIds = (group: TaskWrite[]) =>
+  group.flatMap((write) => {
+    if (write.type === 'log') return [];
+    return [write.type === 'trash' || write.type === 'restore' ? write.task.id : write.id];
+  });
+
+export const createLocalTaskRepository = ({ persist }: { persist: boolean }): TaskRepository => {
+  let state: LocalState = { tasks: new Map(), trash: new Map() };
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const load = async (database: IDBDatabase) => {
+    const [tasks, trash] = await Promise.all([
+      readAll<StoredTask>(database, TASK_STORE),
+      readAll<StoredTrashedTask>(database, TRASH_STORE)
+    ]);
+    state = {
+      tasks: new Map(tasks.map((task) => [task.id, fromStoredTask(task)])),
+      trash: new Map(trash.map((task) => [task.id, fromStoredTrashedTask(task)]))
+    };
+  };
+
+  const database = persist ? openDatabase() : null;
+  const channel = persist && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  const ready = database ? database.then(load) : Promise.resolve();
+  if (database && channel) {
+    channel.onmessage = () => {
+      database.then(load).then(notify).catch((error) => console.error('Error reloading local tasks:', error));
+    };
+  }
+
+  // Writes the tasks and trash entries with these ids as they are in the state
+  const save = async (ids: string[]) => {
+    if (!database) return;
+    const transaction = (await database).transaction([TASK_STORE, TRASH_STORE], 'readwrite');
+    const taskStore = transaction.objectStore(TASK_STORE);
+    const trashStore = transaction.objectStore(TRASH_STORE);
+    ids.forEach((id) => {
+      const task = state.tasks.get(id);
+      const trashed = state.trash.get(id);
+      if (task) taskStore.put(toStoredTask(task));
+      else taskStore.delete(id);
+      if (trashed) trashStore.put(toStoredTrashedTask(trashed));
+      else trashStore.delete(id);
+    });
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    channel?.postMessage(ids);
+  };
+
+  const runQuery = ({ workspaceId, filter, userId, startAfter, endAt, limit }: TaskPageQuery) => {
+    const compare = compareByTaskQuery(filter);
+    const tasks = [...state.tasks.values()]
+      .filter((task) => matchesTaskQuery(task, workspaceId, filter, userId))
+      .sort(compare)
+      // Cursors are the last task of a page, as it was when the page was read
+      .filter((task) => !startAfter || compare(task, startAfter as Task) > 0)
+      .filter((task) => !endAt || compare(task, endAt as Task) <= 0);
+    return limit ? tasks.slice(0, limit) : tasks;
+  };
+
+  // Listeners are called after the write, like Firestore calls them, never while it runs
+  const listen = (emit: () => void, onError: (error: Error) => void) => {
+    let active = true;
+    const listener = () => {
+      if (active) emit();
+    };
+    ready.then(() => {
+      if (!active) return;
+      listeners.add(listener);
+      emit();
+    }, onError);
+    return () => {
+      active = false;
+      listeners.delete(listener);
+    };
+  };
+
+  const batch = async (groups: TaskWrite[][]) => {
+    await ready;
+    for (const group of groups) {
+      state = applyGroup(state, group);
+      try {
+        await save(getChangedIds(group));
+      } catch (error) {
+        // Back to what is stored, other writes may have finished meanwhile
+        if (database) await load(await database);
+        throw error;
+      } finally {
+        notify();
+      }
+    }
+  };
+
+  return {
+    subscribe: (pageQuery, onChange, onError) =>
+      listen(() => {
+        const tasks = runQuery(pageQuery);
+        onChange({ tasks, lastCursor: tasks[tasks.length - 1] ?? null });
+      }, onError),
+
+    list: async (taskQuery) => {
+      await ready;
+      return runQuery(taskQuery);
+    },
+
+    get: async (taskId) => {
+      await ready;
+      return state.tasks.get(taskId) ?? null;
+    },
+
+    createId: () => crypto.randomUUID(),
+    create: (id, task) => batch([[{ type: 'create', id, task }]]),
+    update: (id, fields, activity) => batch([[{ type: 'update', id, fields, activity }]]),
+    delete: (id) => batch([[{ type: 'delete', id }]]),
+    batch,
+
+    subscribeReminders: (workspaceId, onChange, onError) =>
+      listen(() => {
+        onChange(
+          [...state.tasks.values()].filter(
+            (task) => task.workspaceId === workspaceId && task.status !== 'Completed' && hasReminders(task)
+          )
+        );
+      }, onError),
+
+    migrateLegacyTasks: () => Promise.resolve(),
+    migrateDueDates: () => Promise.resolve(),
+
+    subscribeTrash: (workspaceId, onChange, onError) =>
+      listen(() => {
+        onChange(
+          [...state.trash.values()]
+            .filter((task) => task.workspaceId === workspaceId)
+            .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+        );
+      }, onError)
+  };
+};
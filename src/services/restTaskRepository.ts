@@ -0,0 +1,171 @@
+import { Timestamp } from 'firebase/firestore';
+import { auth } from './firebase';
+import { Task, TrashedTask } from '../types/task';
+import { TaskPageQuery, TaskRepository, TaskWrite } from '../types/taskRepository';
+import { getDueDateRange } from '../utils/taskQuery';
+import { hasReminders } from '../utils/reminders';
+
+// Talks to a JSON HTTP API, see "Task backends" in the README. The API has no
+// push channel, so subscriptions poll and refresh after every write.
+
+const POLL_INTERVAL = 30 * 1000;
+
+// Timestamps travel as ISO strings
+type RestTask = Omit<Task, 'updatedAt'> & { updatedAt: string | null };
+type RestTrashedTask = Omit<TrashedTask, 'updatedAt' | 'expiresAt'> & { updatedAt: string | null; expiresAt: string };
+
+const fromRestTask = (task: RestTask): Task => ({
+  ...task,
+  updatedAt: task.updatedAt ? Timestamp.fromDate(new Date(task.updatedAt)) : null
+});
+
+const fromRestTrashedTask = (task: RestTrashedTask): TrashedTask => ({
+  ...fromRestTask(task),
+  deletedAt: task.deletedAt,
+  deletedBy: task.deletedBy,
+  expiresAt: Timestamp.fromDate(new Date(task.expiresAt))
+});
+
+// The due date range is resolved here, the server doesn't know the user's today
+const toSearchParams = ({ workspaceId, filter, userId, startAfter, endAt, limit }: TaskPageQuery) => {
+  const range = getDueDateRange(filter);
+  const params = {
+    workspaceId,
+    userId,
+    assignment: filter.assignment,
+    category: filter.category,
+    status: filter.status,
+    priority: filter.priority,
+    // Completed tasks are never overdue
+    openOnly: !filter.status && filter.dueDate === 'overdue' ? 'true' : undefined,
+    dueFrom: range?.from,
+    dueTo: range?.to,
+    dueBefore: range?.before,
+    // Cursors are task ids
+    startAfter: startAfter as string | undefined,
+    endAt: endAt as string | undefined,
+    limit: limit ? String(limit) : undefined
+  };
+  return new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+};
+
+// The server sets updatedAt on every write, so it is left out
+const serializeGroups = (groups: TaskWrite[][]) =>
+  JSON.stringify({ groups }, (key, value) => (key === 'updatedAt' ? undefined : value));
+
+export const createRestTaskRepository = (baseUrl: string): TaskRepository => {
+  const refreshers = new Set<() => void>();
+  const refreshAll = () => refreshers.forEach((refresh) => refresh());
+
+  // Resolves to null for a 404
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T | null> => {
+    const token = await auth.currentUser?.getIdToken();
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` })
+      }
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`${init.method ?? 'GET'} ${path} failed with status ${response.status}`);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const fetchTasks = async (taskQuery: TaskPageQuery) => {
+    const data = await request<{ tasks: RestTask[] }>(`/tasks?${toSearchParams(taskQuery)}`);
+    return (data?.tasks ?? []).map(fromRestTask);
+  };
+
+  // Polls until the returned function is called. Only a failed first load is
+  // reported, later ones are retried on the next poll.
+  const poll = <T>(load: () => Promise<T>, onChange: (result: T) => void, onError: (error: Error) => void) => {
+    let active = true;
+    let loaded = false;
+    let latest = 0;
+    const refresh = async () => {
+      const requestId = ++latest;
+      try {
+        const result = await load();
+        if (!active || requestId !== latest) return;
+        loaded = true;
+        onChange(result);
+      } catch (error) {
+        if (!active) return;
+        if (loaded) {
+          console.error('Error refreshing tasks:', error);
+        } else {
+          onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    };
+    const interval = window.setInterval(refresh, POLL_INTERVAL);
+    refreshers.add(refresh);
+    void refresh();
+    return () => {
+      active = false;
+      window.clearInterval(interval);
+      refreshers.delete(refresh);
+    };
+  };
+
+  const batch = async (groups: TaskWrite[][]) => {
+    try {
+      await request('/tasks/batch', { method: 'POST', body: serializeGroups(groups) });
+    } finally {
+      refreshAll();
+    }
+  };
+
+  return {
+    subscribe: (pageQuery, onChange, onError) =>
+      poll(
+        () => fetchTasks(pageQuery),
+        (tasks) => onChange({ tasks, lastCursor: tasks[tasks.length - 1]?.id ?? null }),
+        onError
+      ),
+
+    list: (taskQuery) => fetchTasks(taskQuery),
+
+    get: async (taskId) => {
+      const task = await request<RestTask>(`/tasks/${encodeURIComponent(taskId)}`);
+      return task ? fromRestTask(task) : null;
+    },
+
+    createId: () => crypto.randomUUID(),
+    create: (id, task) => batch([[{ type: 'create', id, task }]]),
+    update: (id, fields, activity) => batch([[{ type: 'update', id, fields, activity }]]),
+    delete: (id) => batch([[{ type: 'delete', id }]]),
+    batch,
+
+    subscribeReminders: (workspaceId, onChange, onError) =>
+      poll(
+        async () => {
+          const params = new URLSearchParams({ workspaceId, userId: auth.currentUser?.uid ?? '', openOnly: 'true' });
+          const data = await request<{ tasks: RestTask[] }>(`/tasks?${params}`);
+          return (data?.tasks ?? []).map(fromRestTask).filter(hasReminders);
+        },
+        onChange,
+        onError
+      ),
+
+    migrateLegacyTasks: () => Promise.resolve(),
+    migrateDueDates: () => Promise.resolve(),
+
+    subscribeTrash: (workspaceId, onChange, onError) =>
+      poll(
+        async () => {
+          const data = await request<{ tasks: RestTrashedTask[] }>(
+            `/trash?${new URLSearchParams({ workspaceId })}`
+          );
+          return (data?.tasks ?? []).map(fromRestTrashedTask);
+        },
+        onChange,
+        onError
+      )
+  };
+};
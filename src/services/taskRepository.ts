@@ -0,0 +1,27 @@
+import { TaskBackend, TaskRepository } from '../types/taskRepository';
+import { createFirestoreTaskRepository } from './firestoreTaskRepository';
+import { createLocalTaskRepository } from './localTaskRepository';
+import { createRestTaskRepository } from './restTaskRepository';
+
+// Picked by VITE_TASK_BACKEND. Sign-in, workspaces and attachments stay on
+// Firebase whichever backend holds the tasks.
+const createTaskRepository = (backend: TaskBackend): TaskRepository => {
+  switch (backend) {
+    case 'local':
+      return createLocalTaskRepository({ persist: true });
+    // Gone on reload, for tests
+    case 'memory':
+      return createLocalTaskRepository({ persist: false });
+    case 'rest': {
+      const apiUrl = import.meta.env.VITE_TASK_API_URL;
+      if (!apiUrl) throw new Error('VITE_TASK_API_URL must be set to use the rest task backend');
+      return createRestTaskRepository(apiUrl);
+    }
+    case 'firestore':
+      return createFirestoreTaskRepository();
+    default:
+      throw new Error(`Unknown task backend "${backend}" in VITE_TASK_BACKEND`);
+  }
+};
+
+export const taskRepository = createTaskRepository(import.meta.env.VITE_TASK_BACKEND || 'firestore');
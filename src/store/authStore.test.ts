@@ -0,0 +1,199 @@
+import {
+  GoogleAuthProvider,
+  User,
+  UserCredential,
+  getRedirectResult,
+  linkWithCredential,
+  linkWithPopup,
+  linkWithRedirect,
+  sendEmailVerification,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signInWithRedirect
+} from '@firebase/auth';
+import { FirebaseError } from '@firebase/util';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore } from './authStore';
+import { useUserStore } from './userStore';
+import { auth } from '../services/firebase';
+import { takeGuestTasks } from '../services/guestTasks';
+import { taskRepository } from '../services/taskRepository';
+import { buildTask } from '../test/fixtures';
+
+// Only the calls that reach Firebase Auth are replaced, the credentials and
+// providers are the real ones
+vi.mock('@firebase/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@firebase/auth')>()),
+  getRedirectResult: vi.fn(),
+  linkWithCredential: vi.fn(),
+  linkWithPopup: vi.fn(),
+  linkWithRedirect: vi.fn(),
+  sendEmailVerification: vi.fn(),
+  signInWithCredential: vi.fn(),
+  signInWithEmailAndPassword: vi.fn(),
+  signInWithPopup: vi.fn(),
+  signInWithRedirect: vi.fn(),
+  updateProfile: vi.fn()
+}));
+
+vi.mock('../services/firebase', () => ({ auth: { currentUser: null }, db: {}, storage: {} }));
+
+const buildUser = (uid: string, isAnonymous = false) =>
+  ({ uid, isAnonymous, email: isAnonymous ? null : `${uid}@example.com`, emailVerified: false }) as User;
+const credentialFor = (user: User, operationType: UserCredential['operationType'] = 'signIn') =>
+  ({ user, operationType, providerId: null }) as UserCredential;
+
+const setCurrentUser = (user: User | null) => {
+  (auth as { currentUser: User | null }).currentUser = user;
+};
+
+describe('authStore', () => {
+  let guest: User;
+  let saveProfile: ReturnType<typeof vi.fn<(user: User) => Promise<void>>>;
+
+  beforeEach(() => {
+    // Every test gets its own guest, the task backend lives as long as the file
+    guest = buildUser(`guest-${crypto.randomUUID()}`, true);
+    setCurrentUser(guest);
+    saveProfile = vi.fn().mockResolvedValue(undefined);
+    useUserStore.setState({ saveProfile });
+    useAuthStore.setState({ user: guest, isGuest: true, error: null, submitting: false });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('upgrading a guest', () => {
+    it('links a new email account to the guest, keeping its id', async () => {
+      const upgraded = { ...guest, isAnonymous: false, email: 'guest@example.com' } as User;
+      vi.mocked(linkWithCredential).mockResolvedValue(credentialFor(upgraded, 'link'));
+
+      expect(await useAuthStore.getState().signUpWithEmail('guest@example.com', 'correct-horse', '')).toBe(true);
+
+      expect(vi.mocked(linkWithCredential).mock.calls[0][0]).toBe(guest);
+      expect(useAuthStore.getState()).toMatchObject({ user: upgraded, isGuest: false, emailVerified: false, error: null });
+      expect(saveProfile).toHaveBeenCalledWith(upgraded);
+      expect(sendEmailVerification).toHaveBeenCalledWith(upgraded);
+      expect(takeGuestTasks()).toEqual([]);
+    });
+
+    it('links a Google account to the guest', async () => {
+      const upgraded = { ...guest, isAnonymous: false } as User;
+      vi.mocked(linkWithPopup).mockResolvedValue(credentialFor(upgraded, 'link'));
+
+      expect(await useAuthStore.getState().signInWithGoogle()).toBe(true);
+
+      expect(signInWithPopup).not.toHaveBeenCalled();
+      expect(useAuthStore.getState()).toMatchObject({ user: upgraded, isGuest: false });
+      expect(saveProfile).toHaveBeenCalledWith(upgraded);
+    });
+  });
+
+  describe('a guest signing in to an existing account', () => {
+    beforeEach(async () => {
+      await taskRepository.create(`${guest.uid}-task`, buildTask({ title: 'Guest task', workspaceId: guest.uid }));
+    });
+
+    it('keeps the guest tasks for the account', async () => {
+      const account = buildUser('account');
+      vi.mocked(signInWithEmailAndPassword).mockImplementation(async () => {
+        setCurrentUser(account);
+        return credentialFor(account);
+      });
+
+      expect(await useAuthStore.getState().signInWithEmail('account@example.com', 'correct-horse')).toBe(true);
+
+      expect(useAuthStore.getState()).toMatchObject({ user: account, isGuest: false });
+      expect(takeGuestTasks().map((task) => task.title)).toEqual(['Guest task']);
+      // Stashed once
+      expect(takeGuestTasks()).toEqual([]);
+    });
+
+    it('signs in instead when the Google account is already in use', async () => {
+      const account = buildUser('account');
+      const credential = GoogleAuthProvider.credential('id-token');
+      vi.mocked(linkWithPopup).mockRejectedValue(new FirebaseError('auth/credential-already-in-use', 'In use'));
+      vi.spyOn(GoogleAuthProvider, 'credentialFromError').mockReturnValue(credential);
+      vi.mocked(signInWithCredential).mockResolvedValue(credentialFor(account));
+
+      expect(await useAuthStore.getState().signInWithGoogle()).toBe(true);
+
+      expect(vi.mocked(signInWithCredential).mock.calls[0][1]).toBe(credential);
+      expect(useAuthStore.getState()).toMatchObject({ user: account, isGuest: false });
+      expect(saveProfile).not.toHaveBeenCalled();
+      expect(takeGuestTasks().map((task) => task.title)).toEqual(['Guest task']);
+    });
+
+    it("doesn't stash anything when the sign-in fails", async () => {
+      vi.mocked(signInWithEmailAndPassword).mockRejectedValue(new FirebaseError('auth/invalid-credential', 'Wrong'));
+
+      expect(await useAuthStore.getState().signInWithEmail('account@example.com', 'wrong')).toBe(false);
+
+      expect(useAuthStore.getState()).toMatchObject({ user: guest, isGuest: true, error: 'Wrong email or password.' });
+      expect(takeGuestTasks()).toEqual([]);
+    });
+  });
+
+  describe('when the popup is blocked', () => {
+    it('signs in with a redirect', async () => {
+      setCurrentUser(null);
+      useAuthStore.setState({ user: null, isGuest: false });
+      vi.mocked(signInWithPopup).mockRejectedValue(new FirebaseError('auth/popup-blocked', 'Blocked'));
+
+      await useAuthStore.getState().signInWithGoogle();
+
+      expect(signInWithRedirect).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(signInWithRedirect).mock.calls[0][1]).toBeInstanceOf(GoogleAuthProvider);
+      expect(useAuthStore.getState().error).toBeNull();
+    });
+
+    it('links the guest with a redirect', async () => {
+      vi.mocked(linkWithPopup).mockRejectedValue(
+        new FirebaseError('auth/operation-not-supported-in-this-environment', 'Not supported')
+      );
+
+      await useAuthStore.getState().signInWithGoogle();
+
+      expect(vi.mocked(linkWithRedirect).mock.calls[0][0]).toBe(guest);
+      expect(signInWithRedirect).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().error).toBeNull();
+    });
+
+    it('finishes the upgrade when the redirect comes back', async () => {
+      const upgraded = { ...guest, isAnonymous: false } as User;
+      vi.mocked(getRedirectResult).mockResolvedValue(credentialFor(upgraded, 'link'));
+
+      expect(await useAuthStore.getState().completeRedirectSignIn()).toBe(true);
+
+      expect(useAuthStore.getState()).toMatchObject({ user: upgraded, isGuest: false });
+      expect(saveProfile).toHaveBeenCalledWith(upgraded);
+    });
+
+    it('signs in to the existing account when the redirect comes back with one', async () => {
+      await taskRepository.create(`${guest.uid}-task`, buildTask({ title: 'Guest task', workspaceId: guest.uid }));
+      const account = buildUser('account');
+      vi.mocked(getRedirectResult).mockRejectedValue(new FirebaseError('auth/credential-already-in-use', 'In use'));
+      vi.spyOn(GoogleAuthProvider, 'credentialFromError').mockReturnValue(GoogleAuthProvider.credential('id-token'));
+      vi.mocked(signInWithCredential).mockResolvedValue(credentialFor(account));
+
+      expect(await useAuthStore.getState().completeRedirectSignIn()).toBe(true);
+
+      expect(useAuthStore.getState()).toMatchObject({ user: account, isGuest: false });
+      expect(takeGuestTasks().map((task) => task.title)).toEqual(['Guest task']);
+    });
+
+    it('shows other errors instead', async () => {
+      setCurrentUser(null);
+      vi.mocked(signInWithPopup).mockRejectedValue(new FirebaseError('auth/user-disabled', 'Disabled'));
+
+      expect(await useAuthStore.getState().signInWithGoogle()).toBe(false);
+
+      expect(signInWithRedirect).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().error).toBe('This account has been disabled.');
+    });
+  });
+});
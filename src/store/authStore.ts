@@ -1,16 +1,271 @@
 import { create } from 'zustand';
-import { User } from '@firebase/auth';
+import {
+  AuthCredential,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  User,
+  UserCredential,
+  createUserWithEmailAndPassword,
+  getRedirectResult,
+  isSignInWithEmailLink,
+  linkWithCredential,
+  linkWithPopup,
+  linkWithRedirect,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  signInAnonymously,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signInWithPopup,
+  signInWithRedirect,
+  updateProfile
+} from '@firebase/auth';
+import { FirebaseError } from '@firebase/util';
+import { auth } from '../services/firebase';
+import { collectGuestTasks, stashGuestTasks } from '../services/guestTasks';
+import { getAuthErrorMessage, hasAuthErrorCode } from '../utils/authErrors';
+import { useToastStore } from './toastStore';
+import { useUserStore } from './userStore';
+
+// The address a sign-in link was sent to, needed again when it is opened
+const EMAIL_FOR_LINK_KEY = 'taskbuddy.emailForSignIn';
 
 interface AuthState {
   user: User | null;
+  // Signed in anonymously with "Try it without an account"
+  isGuest: boolean;
+  // Invites are only shown, and only accepted by the rules, once the
+  // address has been verified
+  emailVerified: boolean;
   loading: boolean;
+  // Shown on the login page
+  error: string | null;
+  notice: string | null;
+  submitting: boolean;
   setUser: (user: User | null) => void;
   setLoading: (loading: boolean) => void;
+  clearMessages: () => void;
+  // Sign-in actions resolve to whether the user is now signed in
+  signInWithGoogle: () => Promise<boolean>;
+  completeRedirectSignIn: () => Promise<boolean>;
+  signUpWithEmail: (email: string, password: string, displayName: string) => Promise<boolean>;
+  signInWithEmail: (email: string, password: string) => Promise<boolean>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendSignInLink: (email: string, continueUrl: string) => Promise<void>;
+  isSignInLink: (link: string) => boolean;
+  // The address the last link was sent to, if it was sent from this browser
+  getEmailForSignInLink: () => string | null;
+  completeSignInLink: (email: string, link: string) => Promise<boolean>;
+  signInAsGuest: () => Promise<boolean>;
+  sendVerificationEmail: () => Promise<void>;
+  // Picks up a verification done in another tab, resolves to whether it was
+  refreshEmailVerification: () => Promise<boolean>;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
-  user: null,
-  loading: true,
-  setUser: (user) => set({ user }),
-  setLoading: (loading) => set({ loading })
-}));
+const createGoogleProvider = () => {
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({ prompt: 'select_account' });
+  return provider;
+};
+
+const getGuest = () => (auth.currentUser?.isAnonymous ? auth.currentUser : null);
+
+// Signing in to an existing account replaces the guest, so the guest's tasks
+// are read first and added to the account once it has loaded
+const signInKeepingGuestTasks = async (signIn: () => Promise<UserCredential>) => {
+  const guest = getGuest();
+  const guestTasks = guest ? await collectGuestTasks(guest.uid) : [];
+  const credential = await signIn();
+  stashGuestTasks(guestTasks);
+  return credential;
+};
+
+// Turns the guest into a full account with the same id, so everything they
+// made stays where it is. Falls back to signing in when the credential
+// already belongs to another account.
+const linkGuest = async (guest: User, credential: AuthCredential) => {
+  try {
+    return await linkWithCredential(guest, credential);
+  } catch (error) {
+    if (!hasAuthErrorCode(error, 'auth/credential-already-in-use', 'auth/email-already-in-use')) throw error;
+    return signInKeepingGuestTasks(() => signInWithCredential(auth, credential));
+  }
+};
+
+export const useAuthStore = create<AuthState>((set) => {
+  // Runs a sign-in action with the shared busy state and inline errors
+  const run = async (action: () => Promise<unknown>, failureMessage = 'Error signing in') => {
+    set({ submitting: true, error: null, notice: null });
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      set({ error: getAuthErrorMessage(error) });
+      return false;
+    } finally {
+      set({ submitting: false });
+    }
+  };
+
+  // Stored right away, so the page signed in to doesn't wait for onAuthStateChanged
+  const signedIn = (user: User) => set({ user, isGuest: user.isAnonymous, emailVerified: user.emailVerified });
+
+  // Linking doesn't fire onAuthStateChanged at all, so the profile is saved here
+  const finishUpgrade = async (user: User) => {
+    signedIn(user);
+    await useUserStore.getState().saveProfile(user);
+  };
+
+  return {
+    user: null,
+    isGuest: false,
+    emailVerified: false,
+    loading: true,
+    error: null,
+    notice: null,
+    submitting: false,
+    setUser: (user) => set({ user, isGuest: user?.isAnonymous ?? false, emailVerified: user?.emailVerified ?? false }),
+    setLoading: (loading) => set({ loading }),
+    clearMessages: () => set({ error: null, notice: null }),
+
+    // Some browsers, and most in-app ones, block the popup. Those continue
+    // with a full page redirect, which completeRedirectSignIn picks up.
+    signInWithGoogle: () =>
+      run(async () => {
+        const guest = getGuest();
+        const provider = createGoogleProvider();
+        try {
+          if (!guest) {
+            signedIn((await signInWithPopup(auth, provider)).user);
+            return;
+          }
+          try {
+            await finishUpgrade((await linkWithPopup(guest, provider)).user);
+          } catch (error) {
+            const credential = GoogleAuthProvider.credentialFromError(error as FirebaseError);
+            if (!hasAuthErrorCode(error, 'auth/credential-already-in-use') || !credential) throw error;
+            signedIn((await signInKeepingGuestTasks(() => signInWithCredential(auth, credential))).user);
+          }
+        } catch (error) {
+          if (!hasAuthErrorCode(error, 'auth/popup-blocked', 'auth/operation-not-supported-in-this-environment')) {
+            throw error;
+          }
+          await (guest ? linkWithRedirect(guest, provider) : signInWithRedirect(auth, provider));
+        }
+      }),
+
+    completeRedirectSignIn: async () => {
+      try {
+        const result = await getRedirectResult(auth);
+        if (!result) return false;
+        if (result.operationType === 'link') {
+          await finishUpgrade(result.user);
+        } else {
+          signedIn(result.user);
+        }
+        return true;
+      } catch (error) {
+        const credential = GoogleAuthProvider.credentialFromError(error as FirebaseError);
+        if (hasAuthErrorCode(error, 'auth/credential-already-in-use') && credential) {
+          return run(async () => {
+            signedIn((await signInKeepingGuestTasks(() => signInWithCredential(auth, credential))).user);
+          });
+        }
+        console.error('Error completing sign-in:', error);
+        set({ error: getAuthErrorMessage(error) });
+        return false;
+      }
+    },
+
+    signUpWithEmail: (email, password, displayName) =>
+      run(async () => {
+        const guest = getGuest();
+        if (guest) {
+          const { user } = await linkWithCredential(guest, EmailAuthProvider.credential(email, password));
+          if (displayName) await updateProfile(user, { displayName });
+          await finishUpgrade(user);
+          await sendEmailVerification(user);
+          return;
+        }
+        const { user } = await createUserWithEmailAndPassword(auth, email, password);
+        signedIn(user);
+        if (displayName) {
+          await updateProfile(user, { displayName });
+          // The profile was saved on sign-in, before it had a name
+          await useUserStore.getState().saveProfile(user);
+        }
+        await sendEmailVerification(user);
+      }, 'Error signing up'),
+
+    signInWithEmail: (email, password) =>
+      run(async () => {
+        signedIn((await signInKeepingGuestTasks(() => signInWithEmailAndPassword(auth, email, password))).user);
+      }),
+
+    sendPasswordReset: async (email) => {
+      const sent = await run(() => sendPasswordResetEmail(auth, email), 'Error sending password reset');
+      if (sent) set({ notice: `If there is an account for ${email}, we sent it a link to reset the password.` });
+    },
+
+    sendSignInLink: async (email, continueUrl) => {
+      const sent = await run(async () => {
+        await sendSignInLinkToEmail(auth, email, { url: continueUrl, handleCodeInApp: true });
+        localStorage.setItem(EMAIL_FOR_LINK_KEY, email);
+      }, 'Error sending sign-in link');
+      if (sent) set({ notice: `We sent a sign-in link to ${email}. Open it on this device to continue.` });
+    },
+
+    isSignInLink: (link) => isSignInWithEmailLink(auth, link),
+    getEmailForSignInLink: () => localStorage.getItem(EMAIL_FOR_LINK_KEY),
+
+    completeSignInLink: async (email, link) => {
+      const completed = await run(async () => {
+        const guest = getGuest();
+        if (guest) {
+          await finishUpgrade((await linkGuest(guest, EmailAuthProvider.credentialWithLink(email, link))).user);
+        } else {
+          signedIn((await signInWithEmailLink(auth, email, link)).user);
+        }
+      });
+      if (completed) localStorage.removeItem(EMAIL_FOR_LINK_KEY);
+      return completed;
+    },
+
+    signInAsGuest: () =>
+      run(async () => {
+        signedIn((await signInAnonymously(auth)).user);
+      }),
+
+    sendVerificationEmail: async () => {
+      const user = auth.currentUser;
+      if (!user?.email) return;
+      const { showToast } = useToastStore.getState();
+      try {
+        await sendEmailVerification(user);
+        showToast(`We sent a verification link to ${user.email}`);
+      } catch (error) {
+        console.error('Error sending verification email:', error);
+        showToast("Couldn't send the verification email", { variant: 'error' });
+      }
+    },
+
+    refreshEmailVerification: async () => {
+      const user = auth.currentUser;
+      if (!user) return false;
+      try {
+        await user.reload();
+        // The rules read email_verified from the ID token, which still has
+        // the old value until it is refreshed
+        if (user.emailVerified) await user.getIdToken(true);
+        set({ emailVerified: user.emailVerified });
+        return user.emailVerified;
+      } catch (error) {
+        console.error('Error checking email verification:', error);
+        return false;
+      }
+    }
+  };
+});
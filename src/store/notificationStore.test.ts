@@ -0,0 +1,79 @@
+import { waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { useNotificationStore } from './notificationStore';
+import { taskRepository } from '../services/taskRepository';
+import { buildTask } from '../test/fixtures';
+
+describe('watchReminders', () => {
+  let workspaceId: string;
+  const reminders = [{ id: 'r1', type: 'beforeDue' as const, minutes: 60 }];
+
+  beforeEach(() => {
+    workspaceId = `workspace-${crypto.randomUUID()}`;
+    useNotificationStore.setState({ userId: 'user-1' });
+  });
+
+  afterEach(() => {
+    useNotificationStore.getState().cleanup();
+  });
+
+  it("follows the workspace's open tasks with reminders", async () => {
+    await taskRepository.batch([[
+      { type: 'create', id: `${workspaceId}-open`, task: buildTask({ workspaceId, reminders }) },
+      { type: 'create', id: `${workspaceId}-done`, task: buildTask({ workspaceId, reminders, status: 'Completed' }) },
+      { type: 'create', id: `${workspaceId}-none`, task: buildTask({ workspaceId }) },
+      { type: 'create', id: `${workspaceId}-other`, task: buildTask({ workspaceId: 'elsewhere', reminders }) }
+    ]]);
+
+    useNotificationStore.getState().watchReminders(workspaceId);
+    await waitFor(() =>
+      expect(useNotificationStore.getState().reminderTasks.map((task) => task.id)).toEqual([`${workspaceId}-open`])
+    );
+
+    await taskRepository.update(`${workspaceId}-none`, { reminders });
+    await waitFor(() => expect(useNotificationStore.getState().reminderTasks).toHaveLength(2));
+
+    await taskRepository.update(`${workspaceId}-open`, { status: 'Completed' });
+    await waitFor(() =>
+      expect(useNotificationStore.getState().reminderTasks.map((task) => task.id)).toEqual([`${workspaceId}-none`])
+    );
+  });
+
+  it("leaves out teammates' tasks that aren't assigned to the user", async () => {
+    await taskRepository.batch([[
+      { type: 'create', id: `${workspaceId}-mine`, task: buildTask({ workspaceId, reminders }) },
+      {
+        type: 'create',
+        id: `${workspaceId}-assigned`,
+        task: buildTask({ workspaceId, reminders, createdBy: 'user-2', assigneeIds: ['user-1'] })
+      },
+      { type: 'create', id: `${workspaceId}-theirs`, task: buildTask({ workspaceId, reminders, createdBy: 'user-2' }) },
+      {
+        type: 'create',
+        id: `${workspaceId}-for-someone-else`,
+        task: buildTask({ workspaceId, reminders, createdBy: 'user-2', assigneeIds: ['user-3'] })
+      }
+    ]]);
+
+    useNotificationStore.getState().watchReminders(workspaceId);
+    await waitFor(() =>
+      expect(useNotificationStore.getState().reminderTasks.map((task) => task.id).sort()).toEqual([
+        `${workspaceId}-assigned`,
+        `${workspaceId}-mine`
+      ])
+    );
+
+    await taskRepository.update(`${workspaceId}-theirs`, { assigneeIds: ['user-1'] });
+    await waitFor(() => expect(useNotificationStore.getState().reminderTasks).toHaveLength(3));
+  });
+
+  it('stops when the workspace is closed', async () => {
+    await taskRepository.create(`${workspaceId}-open`, buildTask({ workspaceId, reminders }));
+    useNotificationStore.getState().watchReminders(workspaceId);
+    await waitFor(() => expect(useNotificationStore.getState().reminderTasks).toHaveLength(1));
+
+    useNotificationStore.getState().watchReminders(null);
+    await taskRepository.create(`${workspaceId}-new`, buildTask({ workspaceId, reminders }));
+    expect(useNotificationStore.getState().reminderTasks).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { taskRepository } from '../services/taskRepository';
+import { AppNotification, NotificationPreferences } from '../types/notification';
+import { Task } from '../types/task';
+import { getToday } from '../utils/dueDate';
+import { DEFAULT_REMINDER_TIME, isReminderFor } from '../utils/reminders';
+
+const NOTIFICATION_LIMIT = 50;
+const FIRED_REMINDERS_KEY = 'taskbuddy.firedReminders';
+const FIRED_REMINDERS_LIMIT = 500;
+const OVERDUE_SUMMARY_KEY = 'taskbuddy.overdueSummary';
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  browserNotifications: false,
+  reminders: true,
+  overdueSummary: true,
+  defaultReminderTime: DEFAULT_REMINDER_TIME
+};
+
+// Shared by every tab through localStorage, so only one of them fires a reminder
+const getFiredReminders = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FIRED_REMINDERS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const hasFiredReminder = (key: string) => getFiredReminders().includes(key);
+
+export const markReminderFired = (key: string) => {
+  const fired = [...getFiredReminders(), key].slice(-FIRED_REMINDERS_LIMIT);
+  localStorage.setItem(FIRED_REMINDERS_KEY, JSON.stringify(fired));
+};
+
+const getPermission = (): NotificationPermission | 'unsupported' =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+type NewNotification = Omit<AppNotification, 'createdAt' | 'read'>;
+
+interface NotificationState {
+  notifications: AppNotification[];
+  preferences: NotificationPreferences;
+  // Set once the stored preferences have been read
+  preferencesLoaded: boolean;
+  permission: NotificationPermission | 'unsupported';
+  userId: string | null;
+  // Open tasks with reminders in the active workspace that are assigned to
+  // or created by the user, loaded apart from the task list so its filter
+  // and pagination don't hide any
+  reminderTasks: Task[];
+  error: string | null;
+  unsubscribers: (() => void)[];
+  unsubscribeReminders: () => void;
+  fetchNotifications: (userId: string) => void;
+  watchReminders: (workspaceId: string | null) => void;
+  notify: (notification: NewNotification) => Promise<void>;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  updatePreferences: (changes: Partial<NotificationPreferences>) => Promise<void>;
+  requestPermission: () => Promise<void>;
+  runOverdueSummary: (workspaceId: string) => Promise<void>;
+  cleanup: () => void;
+}
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+  notifications: [],
+  preferences: DEFAULT_PREFERENCES,
+  preferencesLoaded: false,
+  permission: getPermission(),
+  userId: null,
+  reminderTasks: [],
+  error: null,
+  unsubscribers: [],
+  unsubscribeReminders: () => {},
+
+  fetchNotifications: (userId) => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+    set({ userId, notifications: [], preferences: DEFAULT_PREFERENCES, preferencesLoaded: false, error: null });
+
+    const handleError = (error: Error) => {
+      console.error('Error fetching notifications:', error);
+      set({ error: `Failed to fetch notifications: ${error.message}` });
+    };
+
+    const unsubscribers = [
+      onSnapshot(
+        query(
+          collection(db, 'users', userId, 'notifications'),
+          orderBy('createdAt', 'desc'),
+          limit(NOTIFICATION_LIMIT)
+        ),
+        (snapshot) => {
+          set({
+            notifications: snapshot.docs.map((notificationDoc) => ({
+              id: notificationDoc.id,
+              ...notificationDoc.data()
+            }) as AppNotification)
+          });
+        },
+        handleError
+      ),
+      onSnapshot(
+        doc(db, 'users', userId, 'settings', 'notifications'),
+        (snapshot) => set({ preferences: { ...DEFAULT_PREFERENCES, ...snapshot.data() }, preferencesLoaded: true }),
+        handleError
+      )
+    ];
+    set({ unsubscribers });
+  },
+
+  watchReminders: (workspaceId) => {
+    get().unsubscribeReminders();
+    set({ reminderTasks: [], unsubscribeReminders: () => {} });
+    const { userId } = get();
+    if (!workspaceId || !userId) return;
+
+    const unsubscribeReminders = taskRepository.subscribeReminders(
+      workspaceId,
+      (tasks) => set({ reminderTasks: tasks.filter((task) => isReminderFor(task, userId)) }),
+      (error) => {
+        console.error('Error fetching reminders:', error);
+        set({ error: `Failed to fetch reminders: ${error.message}` });
+      }
+    );
+    set({ unsubscribeReminders });
+  },
+
+  // Records the notification in the notification center and, if the user
+  // has turned them on, shows it as a Web Notification too
+  notify: async (notification) => {
+    const { userId, preferences, notifications } = get();
+    if (!userId || notifications.some((existing) => existing.id === notification.id)) return;
+
+    if (preferences.browserNotifications && getPermission() === 'granted') {
+      // The tag stops other tabs from stacking the same notification
+      new Notification(notification.title, { body: notification.body, tag: notification.id });
+    }
+
+    const { id, ...data } = notification;
+    try {
+      await setDoc(doc(db, 'users', userId, 'notifications', id), {
+        ...data,
+        createdAt: new Date().toISOString(),
+        read: false
+      });
+    } catch (error) {
+      console.error('Error saving notification:', error);
+      set({ error: `Failed to save notification: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  markRead: async (notificationId) => {
+    const { userId } = get();
+    if (!userId) return;
+    try {
+      await setDoc(doc(db, 'users', userId, 'notifications', notificationId), { read: true }, { merge: true });
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      set({ error: `Failed to update notification: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  markAllRead: async () => {
+    const { userId, notifications } = get();
+    const unread = notifications.filter((notification) => !notification.read);
+    if (!userId || unread.length === 0) return;
+    try {
+      const batch = writeBatch(db);
+      unread.forEach((notification) => {
+        batch.update(doc(db, 'users', userId, 'notifications', notification.id), { read: true });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error updating notifications:', error);
+      set({ error: `Failed to update notifications: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  updatePreferences: async (changes) => {
+    const { userId, preferences } = get();
+    if (!userId) return;
+    set({ preferences: { ...preferences, ...changes } });
+    try {
+      await setDoc(doc(db, 'users', userId, 'settings', 'notifications'), changes, { merge: true });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      set({
+        preferences,
+        error: `Failed to save preferences: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  },
+
+  requestPermission: async () => {
+    if (!('Notification' in window)) return;
+    const permission = await Notification.requestPermission();
+    set({ permission });
+    if (permission === 'granted') {
+      await get().updatePreferences({ browserNotifications: true });
+    }
+  },
+
+  // Once a day per workspace, sums up the overdue tasks assigned to or
+  // created by the user
+  runOverdueSummary: async (workspaceId) => {
+    const { userId, preferences } = get();
+    if (!userId || !preferences.overdueSummary) return;
+
+    const today = getToday();
+    const storageKey = `${OVERDUE_SUMMARY_KEY}.${userId}.${workspaceId}`;
+    if (localStorage.getItem(storageKey) === today) return;
+    localStorage.setItem(storageKey, today);
+
+    try {
+      const results = await Promise.all(
+        (['assignedToMe', 'createdByMe'] as const).map((assignment) =>
+          taskRepository.list({ workspaceId, filter: { dueDate: 'overdue', assignment }, userId })
+        )
+      );
+      const overdue = new Map<string, Task>();
+      results.forEach((tasks) => tasks.forEach((task) => overdue.set(task.id, task)));
+      if (overdue.size === 0) return;
+
+      const titles = [...overdue.values()].map((task) => task.title);
+      await get().notify({
+        id: `overdue_${workspaceId}_${today.replace(/-/g, '')}`,
+        type: 'overdue',
+        title: `You have ${titles.length} overdue task${titles.length !== 1 ? 's' : ''}`,
+        body: titles.slice(0, 3).join(', ') + (titles.length > 3 ? ` and ${titles.length - 3} more` : ''),
+        taskId: null,
+        workspaceId
+      });
+    } catch (error) {
+      localStorage.removeItem(storageKey);
+      console.error('Error checking overdue tasks:', error);
+      set({ error: `Failed to check overdue tasks: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  cleanup: () => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+    get().unsubscribeReminders();
+    set({
+      unsubscribers: [],
+      unsubscribeReminders: () => {},
+      notifications: [],
+      reminderTasks: [],
+      userId: null,
+      preferencesLoaded: false
+    });
+  }
+}));
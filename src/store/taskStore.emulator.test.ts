@@ -0,0 +1,253 @@
+import { waitFor } from '@testing-library/react';
+import { doc, getDoc, setDoc, updateDoc, DocumentData } from 'firebase/firestore';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { useTaskStore } from './taskStore';
+import { useToastStore } from './toastStore';
+import { taskRepository } from '../services/taskRepository';
+import { buildTaskData, TaskData } from '../test/fixtures';
+import { clearAccounts, createTestEnvironment, seedWorkspace, signUp, TestEnvironment } from '../test/emulators';
+
+// Snapshots and acknowledgements take a round trip through the emulator
+const eventually = (assertion: () => unknown) => waitFor(assertion, { timeout: 10000 });
+
+describe('taskStore against the emulators', () => {
+  let env: TestEnvironment;
+  let userId: string;
+  const workspaceId = 'team';
+
+  // Written past the rules, like another member's client would
+  const seedTask = (id: string, overrides: Partial<TaskData> = {}) =>
+    env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'tasks', id), {
+        ...buildTaskData({ userId, createdBy: userId, workspaceId, ...overrides }),
+        createdAt: '2026-10-01T09:00:00.000Z',
+        updatedAt: null
+      });
+    });
+
+  const newTaskData = () => buildTaskData({ userId, createdBy: userId, workspaceId });
+
+  const readStored = async (collection: string, id: string) => {
+    let data: DocumentData | undefined;
+    await env.withSecurityRulesDisabled(async (context) => {
+      data = (await getDoc(doc(context.firestore(), collection, id))).data();
+    });
+    return data;
+  };
+
+  const setRole = (role: 'owner' | 'editor' | 'viewer') => seedWorkspace(env, workspaceId, { [userId]: role });
+
+  const lastToast = () => {
+    const { toasts } = useToastStore.getState();
+    return toasts[toasts.length - 1];
+  };
+
+  beforeAll(async () => {
+    env = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await clearAccounts();
+    userId = (await signUp('owner@example.com')).uid;
+    await setRole('owner');
+    useToastStore.setState({ toasts: [] });
+  });
+
+  afterEach(() => {
+    useTaskStore.getState().cleanup();
+    useTaskStore.setState({ tasks: [], workspaceId: null, pendingWrites: {}, undoStack: [], redoStack: [] });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  describe('fetchTasks', () => {
+    it('follows tasks other clients add, change and remove', async () => {
+      await seedTask('first', { title: 'First' });
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await eventually(() => expect(useTaskStore.getState().tasks.map((task) => task.title)).toEqual(['First']));
+      expect(useTaskStore.getState().loading).toBe(false);
+
+      await seedTask('second', { title: 'Second' });
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(2));
+
+      await env.withSecurityRulesDisabled((context) =>
+        updateDoc(doc(context.firestore(), 'tasks', 'first'), { title: 'First, renamed' })
+      );
+      await eventually(() =>
+        expect(useTaskStore.getState().tasks.find((task) => task.id === 'first')?.title).toBe('First, renamed')
+      );
+
+      await taskRepository.delete('second');
+      await eventually(() => expect(useTaskStore.getState().tasks.map((task) => task.id)).toEqual(['first']));
+    });
+
+    it('reports a workspace the user is not a member of', async () => {
+      await seedWorkspace(env, 'other', { someone: 'owner' });
+      await useTaskStore.getState().fetchTasks('other');
+      await eventually(() => expect(useTaskStore.getState().error).toMatch(/^Failed to fetch tasks/));
+      expect(useTaskStore.getState().loading).toBe(false);
+    });
+  });
+
+  describe('addTask', () => {
+    it('shows the task right away and stores it with a server timestamp', async () => {
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      const taskId = await useTaskStore.getState().addTask(newTaskData());
+
+      expect(useTaskStore.getState().tasks[0].id).toBe(taskId);
+      await eventually(() => expect(useTaskStore.getState().pendingWrites).toEqual({}));
+      const stored = await readStored('tasks', taskId!);
+      expect(stored?.title).toBe('Write the report');
+      expect(stored?.updatedAt).toBeTruthy();
+      expect(stored?.activities.map((activity: { type: string }) => activity.type)).toEqual(['created']);
+    });
+
+    it('takes the task back out when the rules reject it', async () => {
+      await setRole('viewer');
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await useTaskStore.getState().addTask(newTaskData());
+
+      await eventually(() => expect(lastToast()?.variant).toBe('error'));
+      expect(lastToast()?.message).toBe(`Couldn't save "Write the report". Your change was undone.`);
+      expect(useTaskStore.getState().tasks).toEqual([]);
+      expect(useTaskStore.getState().pendingWrites).toEqual({});
+    });
+  });
+
+  describe('updateTask', () => {
+    beforeEach(async () => {
+      await seedTask('task', { title: 'Draft' });
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(1));
+    });
+
+    it('stores the change with an activity entry, and undo reverts it', async () => {
+      await useTaskStore.getState().updateTask('task', { title: 'Final', priority: 'High' });
+      expect(useTaskStore.getState().tasks[0].title).toBe('Final');
+
+      await eventually(async () => {
+        const stored = await readStored('tasks', 'task');
+        expect(stored?.title).toBe('Final');
+        expect(stored?.activities[stored.activities.length - 1].changes).toEqual([
+          { field: 'title', from: 'Draft', to: 'Final' },
+          { field: 'priority', from: 'Medium', to: 'High' }
+        ]);
+      });
+
+      useTaskStore.getState().undo();
+      await eventually(async () => expect((await readStored('tasks', 'task'))?.title).toBe('Draft'));
+    });
+
+    it('restores the old values when the rules reject the change', async () => {
+      await setRole('viewer');
+      await useTaskStore.getState().updateTask('task', { title: 'Final' });
+
+      await eventually(() => expect(lastToast()?.message).toBe(`Couldn't save: Updated "Draft". Your change was undone.`));
+      expect(useTaskStore.getState().tasks[0].title).toBe('Draft');
+      expect((await readStored('tasks', 'task'))?.title).toBe('Draft');
+    });
+
+    it('rejects values the rules do not allow', async () => {
+      await useTaskStore.getState().updateTask('task', { title: 'x'.repeat(101) });
+
+      await eventually(() => expect(lastToast()?.variant).toBe('error'));
+      expect(useTaskStore.getState().tasks[0].title).toBe('Draft');
+    });
+  });
+
+  describe('deleteTask', () => {
+    beforeEach(async () => {
+      await seedTask('task', { title: 'Old task' });
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(1));
+    });
+
+    it('moves the task to the trash', async () => {
+      await useTaskStore.getState().deleteTask('task');
+      expect(useTaskStore.getState().tasks).toEqual([]);
+
+      await eventually(async () => {
+        expect(await readStored('tasks', 'task')).toBeUndefined();
+        const trashed = await readStored('trash', 'task');
+        expect(trashed?.title).toBe('Old task');
+        expect(trashed?.deletedBy).toBe(userId);
+      });
+    });
+
+    it('puts the task back when the rules reject the deletion', async () => {
+      await setRole('viewer');
+      await useTaskStore.getState().deleteTask('task');
+
+      await eventually(() => expect(lastToast()?.message).toBe(`Couldn't delete 1 task. Your change was undone.`));
+      expect(useTaskStore.getState().tasks.map((task) => task.id)).toEqual(['task']);
+      expect(await readStored('trash', 'task')).toBeUndefined();
+    });
+  });
+
+  describe('removeAttachment', () => {
+    // Without a storage path, so there is no object to delete
+    const attachment = (id: string) => ({
+      id,
+      name: `${id}.pdf`,
+      path: '',
+      url: `https://example.com/${id}.pdf`,
+      contentType: 'application/pdf',
+      size: 1024,
+      uploadedAt: '2026-10-01T09:00:00.000Z',
+      uploadedBy: userId
+    });
+
+    beforeEach(async () => {
+      await seedTask('task', { attachments: [attachment('a1')] });
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(1));
+    });
+
+    it('keeps an attachment another member added meanwhile', async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await updateDoc(doc(context.firestore(), 'tasks', 'task'), { attachments: [attachment('a1'), attachment('a2')] });
+      });
+      await useTaskStore.getState().removeAttachment('task', attachment('a1'));
+
+      await eventually(async () => {
+        const stored = await readStored('tasks', 'task');
+        expect(stored?.attachments.map((item: { id: string }) => item.id)).toEqual(['a2']);
+      });
+    });
+
+    it('removes attachments stored as their URL', async () => {
+      const url = 'https://example.com/legacy.pdf';
+      await seedTask('legacy', { attachments: [url] as unknown as TaskData['attachments'] });
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(2));
+
+      const [legacy] = useTaskStore.getState().tasks.find((task) => task.id === 'legacy')?.attachments ?? [];
+      await useTaskStore.getState().removeAttachment('legacy', legacy);
+      await eventually(async () => expect((await readStored('tasks', 'legacy'))?.attachments).toEqual([]));
+    });
+  });
+
+  describe('moveTask', () => {
+    beforeEach(async () => {
+      await seedTask('task', { category: 'Work' });
+      await useTaskStore.getState().fetchTasks(workspaceId);
+      await eventually(() => expect(useTaskStore.getState().tasks).toHaveLength(1));
+    });
+
+    it('stores the new category', async () => {
+      await useTaskStore.getState().moveTask('task', 'Personal');
+      expect(useTaskStore.getState().tasks[0].category).toBe('Personal');
+      await eventually(async () => expect((await readStored('tasks', 'task'))?.category).toBe('Personal'));
+    });
+
+    it('moves the task back when the rules reject it', async () => {
+      await setRole('viewer');
+      await useTaskStore.getState().moveTask('task', 'Personal');
+
+      await eventually(() => expect(lastToast()?.variant).toBe('error'));
+      expect(useTaskStore.getState().tasks[0].category).toBe('Work');
+    });
+  });
+});
@@ -1,86 +1,592 @@
-import { create } from 'zustand';
-import { Task, TaskFilter, TaskCategory } from '../types/task';
+import { create, StoreApi } from 'zustand';
 import {
-  collection,
-  addDoc,
-  deleteDoc,
-  updateDoc,
-  doc,
-  query,
-  where,
-  orderBy,
-  onSnapshot,
-  limit
-} from 'firebase/firestore';
-import { db } from '../services/firebase';
+  BulkTaskAction,
+  Task,
+  TaskActivity,
+  TaskFilter,
+  TaskCategory,
+  TaskAttachment,
+  TaskStatus,
+  TrashedTask
+} from '../types/task';
+import { TaskGroupBy, TaskSort, ViewMode, ViewState } from '../types/view';
+import { TaskCursor, TaskPageQuery, TaskWrite } from '../types/taskRepository';
+import { taskRepository } from '../services/taskRepository';
+import { useAuthStore } from './authStore';
+import { useToastStore } from './toastStore';
+import {
+  MAX_TASK_ACTIVITIES,
+  appendActivity,
+  createActivity,
+  diffTask,
+  pickChangedFields
+} from '../utils/taskActivity';
+import { buildNextOccurrence } from '../utils/recurrence';
+import { getOrderBetween, getTaskOrder, needsRebalance, rebalanceOrders, sortByOrder } from '../utils/taskOrder';
+import { describeBulkAction, getBulkUpdates } from '../utils/bulkActions';
+import { ImportedTask } from '../utils/taskImport';
+import { DEFAULT_VIEW_STATE, viewStateToQuery } from '../utils/viewParams';
+import { DayRange, matchesTaskQuery, narrowDueDateRange } from '../utils/taskQuery';
+import { MAX_ATTACHMENTS_PER_TASK, deleteAttachment, uploadAttachment } from '../services/attachments';
+
+// The acting user for activity entries is whoever is signed in, falling back
+// to the task owner when the auth state is not available yet.
+const getActingUserId = (fallback = '') => useAuthStore.getState().user?.uid ?? fallback;
+
+const PAGE_SIZE = 50;
+// Smaller than the limit, so an import shows progress and a failed batch loses less
+const IMPORT_BATCH_SIZE = 100;
+const HISTORY_LIMIT = 50;
+export const TRASH_RETENTION_DAYS = 30;
+
+// An undoable change. Both directions write through the same helpers as the
+// actions themselves, but never record history of their own.
+interface HistoryEntry {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+interface TaskPage {
+  tasks: Task[];
+  // Cursor the page starts after, null for the first page
+  startAfter: TaskCursor | null;
+  lastCursor: TaskCursor | null;
+  unsubscribe: () => void;
+}
+
+const createPage = (cursor: TaskCursor | null): TaskPage => ({
+  tasks: [],
+  startAfter: cursor,
+  lastCursor: null,
+  unsubscribe: () => {}
+});
+
+// Pages can briefly overlap while their listeners catch up, so a task is only
+// kept from the first (newest) page it appears in.
+const mergePages = (pages: TaskPage[]) => {
+  const seen = new Set<string>();
+  return pages
+    .flatMap((page) => page.tasks)
+    .filter((task) => {
+      if (seen.has(task.id)) return false;
+      seen.add(task.id);
+      return true;
+    });
+};
 
 interface TaskState {
   tasks: Task[];
   loading: boolean;
   error: string | null;
   filter: TaskFilter;
-  viewMode: 'list' | 'board';
+  viewMode: ViewMode;
   searchQuery: string;
-  unsubscribe: (() => void) | null;
-  setViewMode: (mode: 'list' | 'board') => void;
+  sort: TaskSort[];
+  groupBy: TaskGroupBy;
+  collapsedGroups: string[];
+  workspaceId: string | null;
+  pages: TaskPage[];
+  hasMore: boolean;
+  loadingMore: boolean;
+  // Number of unacknowledged writes per task id
+  pendingWrites: Record<string, number>;
+  // Every task due in the days the calendar shows, however many pages are loaded
+  calendarRange: DayRange | null;
+  calendarTasks: Task[];
+  unsubscribeCalendar: () => void;
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  setViewMode: (mode: ViewMode) => void;
   setFilter: (filter: TaskFilter) => void;
   setSearchQuery: (query: string) => void;
-  fetchTasks: (userId: string) => Promise<void>;
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  setSort: (sort: TaskSort[]) => void;
+  setGroupBy: (groupBy: TaskGroupBy) => void;
+  toggleGroup: (key: string) => void;
+  applyView: (view: ViewState) => void;
+  fetchTasks: (workspaceId: string) => Promise<void>;
+  loadMore: () => void;
+  watchCalendar: (range: DayRange | null) => void;
+  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string | null>;
+  fetchTask: (taskId: string) => Promise<Task | null>;
+  importTasks: (tasks: ImportedTask[], onProgress?: (imported: number) => void) => Promise<number>;
   updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
+  bulkUpdate: (taskIds: string[], action: BulkTaskAction) => Promise<void>;
+  restoreTasks: (tasks: TrashedTask[]) => Promise<void>;
+  undo: (entry?: HistoryEntry) => void;
+  redo: () => void;
   moveTask: (taskId: string, newCategory: TaskCategory) => Promise<void>;
+  reorderTask: (taskId: string, status: TaskStatus, columnTasks: Task[], index: number) => Promise<void>;
+  convertSubtaskToTask: (taskId: string, subtaskId: string) => Promise<void>;
+  addAttachment: (taskId: string, file: File, onProgress?: (percent: number) => void) => Promise<void>;
+  removeAttachment: (taskId: string, attachment: TaskAttachment) => Promise<void>;
   cleanup: () => void;
 }
 
+// Keeps one real-time listener per page. Every page stays live, and only the
+// last page decides whether there is more to load.
+const listenToPage = (
+  set: StoreApi<TaskState>['setState'],
+  get: StoreApi<TaskState>['getState'],
+  index: number,
+  bounds: Pick<TaskPageQuery, 'startAfter' | 'endAt' | 'limit'>
+) => {
+  const { workspaceId, filter } = get();
+  if (!workspaceId) return;
+
+  const unsubscribe = taskRepository.subscribe(
+    { workspaceId, filter, userId: getActingUserId(), ...bounds },
+    (page) => {
+      const pages = [...get().pages];
+      if (!pages[index]) return;
+
+      pages[index] = { ...pages[index], tasks: page.tasks, lastCursor: page.lastCursor };
+      const isLastPage = index === pages.length - 1;
+      set({
+        pages,
+        tasks: mergePages(pages),
+        loading: false,
+        ...(isLastPage && { hasMore: page.tasks.length === PAGE_SIZE, loadingMore: false })
+      });
+    },
+    (error) => {
+      console.error('Error fetching tasks:', error);
+      set({ 
+        error: `Failed to fetch tasks: ${error instanceof Error ? error.message : String(error)}`,
+        loading: false,
+        loadingMore: false
+      });
+    }
+  );
+
+  set((state) => ({
+    pages: state.pages.map((page, i) => (i === index ? { ...page, unsubscribe } : page))
+  }));
+};
+
+// Listens to the tasks due in the calendar's days. The repository queries the
+// narrowed range, the rest of the filter is applied like the task list does.
+const listenToCalendar = (set: StoreApi<TaskState>['setState'], get: StoreApi<TaskState>['getState']) => {
+  get().unsubscribeCalendar();
+  set({ calendarTasks: [], unsubscribeCalendar: () => {} });
+
+  const { workspaceId, filter, calendarRange } = get();
+  const calendarFilter = calendarRange && narrowDueDateRange(filter, calendarRange);
+  if (!workspaceId || !calendarFilter) return;
+
+  const userId = getActingUserId();
+  const unsubscribeCalendar = taskRepository.subscribe(
+    { workspaceId, filter: calendarFilter, userId },
+    (page) => set({ calendarTasks: page.tasks.filter((task) => matchesTaskQuery(task, workspaceId, filter, userId)) }),
+    (error) => {
+      console.error('Error fetching calendar tasks:', error);
+      set({ error: `Failed to fetch calendar tasks: ${error.message}` });
+    }
+  );
+  set({ unsubscribeCalendar });
+};
+
+const changePending = (set: StoreApi<TaskState>['setState'], taskIds: string[], delta: 1 | -1) => {
+  set((state) => {
+    const pendingWrites = { ...state.pendingWrites };
+    taskIds.forEach((taskId) => {
+      const count = (pendingWrites[taskId] ?? 0) + delta;
+      if (count > 0) {
+        pendingWrites[taskId] = count;
+      } else {
+        delete pendingWrites[taskId];
+      }
+    });
+    return { pendingWrites };
+  });
+};
+
+// Runs a write whose result has already been applied to local state. The tasks
+// stay pending until the server acknowledges the write, which with offline
+// persistence can be long after it was queued. A rejected write is rolled back.
+const trackWrite = async (
+  set: StoreApi<TaskState>['setState'],
+  taskIds: string[],
+  write: () => Promise<unknown>,
+  rollback: () => void,
+  failureMessage: string
+) => {
+  changePending(set, taskIds, 1);
+  try {
+    await write();
+    return true;
+  } catch (error) {
+    console.error(`${failureMessage}:`, error);
+    rollback();
+    useToastStore.getState().showToast(`${failureMessage}. Your change was undone.`, { variant: 'error' });
+    return false;
+  } finally {
+    changePending(set, taskIds, -1);
+  }
+};
+
+// The task as it is written, the repository adds updatedAt
+const buildNewTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>, workspaceId: string | null) => {
+  const now = new Date().toISOString();
+  const assigneeIds = taskData.assigneeIds ?? [];
+  return {
+    ...taskData,
+    workspaceId: taskData.workspaceId ?? workspaceId ?? undefined,
+    assigneeIds,
+    assignedAt: assigneeIds.length > 0 ? now : null,
+    createdAt: now,
+    order: -Date.now(),
+    activities: [createActivity('created', getActingUserId(taskData.userId))]
+  };
+};
+
+// Puts a rolled back task back in place, unless a snapshot already restored it
+const restoreTask = (set: StoreApi<TaskState>['setState'], task: Task, index: number) => {
+  set((state) => {
+    if (state.tasks.some((item) => item.id === task.id)) {
+      return { tasks: state.tasks.map((item) => (item.id === task.id ? task : item)) };
+    }
+    const tasks = [...state.tasks];
+    tasks.splice(Math.max(index, 0), 0, task);
+    return { tasks };
+  });
+};
+
+const removeLocalTasks = (set: StoreApi<TaskState>['setState'], taskIds: Set<string>) =>
+  set((state) => ({ tasks: state.tasks.filter((task) => !taskIds.has(task.id)) }));
+
+const countTasks = (count: number) => `${count} task${count !== 1 ? 's' : ''}`;
+
+// Firestore can't store undefined, so optional fields that were never set
+// are written back as their empty value when a change is undone
+const EMPTY_VALUES: Partial<Task> = {
+  description: '',
+  subtasks: [],
+  attachments: [],
+  assigneeIds: [],
+  recurrence: null,
+  reminders: [],
+  nextOccurrenceId: null,
+  assignedAt: null
+};
+
+const getPreviousValues = (task: Task, fields: Partial<Task>): Partial<Task> =>
+  Object.fromEntries(
+    (Object.keys(fields) as (keyof Task)[]).map((field) => [
+      field,
+      field === 'order' ? getTaskOrder(task) : task[field] ?? EMPTY_VALUES[field] ?? null
+    ])
+  );
+
+// Tasks from before workspaces have nowhere to log to
+const logWrites = (taskId: string, workspaceId: string | undefined, title: string, activity: TaskActivity): TaskWrite[] =>
+  workspaceId ? [{ type: 'log', taskId, workspaceId, title, activity }] : [];
+
+type UpdateWrite = Extract<TaskWrite, { type: 'update' }>;
+
+// The update for a task, plus its entry in the activity log. Activities are
+// appended so concurrent writers keep each other's, until the task's list is
+// full and has to be rewritten; an entry a concurrent writer loses from the
+// task then still is in the log.
+const updateWrites = (
+  id: string,
+  task: Task | undefined,
+  fields: Partial<Task>,
+  activity: TaskActivity | null,
+  attachments: Pick<UpdateWrite, 'attachment' | 'removedAttachment'> = {}
+): TaskWrite[] => {
+  const activities = task?.activities ?? [];
+  const update: UpdateWrite = activity && activities.length >= MAX_TASK_ACTIVITIES
+    ? { type: 'update', id, fields: { ...fields, activities: appendActivity(activities, activity) }, ...attachments }
+    : { type: 'update', id, fields, activity, ...attachments };
+  return activity
+    ? [update, ...logWrites(id, task?.workspaceId, fields.title ?? task?.title ?? '', activity)]
+    : [update];
+};
+
+interface TaskUpdate {
+  task: Task;
+  updates: Partial<Task>;
+}
+
+interface AppliedUpdate {
+  task: Task;
+  fields: Partial<Task>;
+}
+
+// Writes field updates for any number of tasks in batches, applying them
+// locally first. Completing an occurrence of a recurring series generates the
+// next one in the same batch, no matter whether it was edited in the modal,
+// dragged on the board or changed in bulk.
+const applyTaskUpdates = (
+  set: StoreApi<TaskState>['setState'],
+  get: StoreApi<TaskState>['getState'],
+  entries: TaskUpdate[],
+  failureMessage: string
+) => {
+  const groups: TaskWrite[][] = [];
+  const applied: AppliedUpdate[] = [];
+  const updatedTasks = new Map<string, Task>();
+  const createdTasks: Task[] = [];
+  const now = new Date().toISOString();
+
+  entries.forEach(({ task, updates }) => {
+    const fields = pickChangedFields(task, updates);
+    if (Object.keys(fields).length === 0) return;
+    const changes = diffTask(task, fields);
+    const group: TaskWrite[] = [];
+    if (changes.some((change) => change.field === 'assigneeIds')) {
+      fields.assignedAt = now;
+    }
+
+    const completesOccurrence =
+      task.recurrence && !task.nextOccurrenceId && task.status !== 'Completed' && fields.status === 'Completed';
+    const nextOccurrence = completesOccurrence ? buildNextOccurrence({ ...task, ...fields }) : null;
+    if (nextOccurrence) {
+      const nextId = taskRepository.createId();
+      const newTask = buildNewTask(nextOccurrence, get().workspaceId);
+      group.push({ type: 'create', id: nextId, task: newTask });
+      createdTasks.push({ ...newTask, id: nextId, updatedAt: null });
+      fields.nextOccurrenceId = nextId;
+    }
+
+    const activity = changes.length > 0
+      ? createActivity('updated', getActingUserId(task.userId), changes)
+      : null;
+    group.push(...updateWrites(task.id, task, fields, activity));
+    groups.push(group);
+    applied.push({ task, fields });
+    updatedTasks.set(task.id, {
+      ...task,
+      ...fields,
+      activities: activity ? appendActivity(task.activities, activity) : task.activities
+    });
+  });
+
+  const tasks = get().tasks;
+  const createdIds = new Set(createdTasks.map((task) => task.id));
+  set((state) => ({
+    tasks: [...createdTasks, ...state.tasks.map((task) => updatedTasks.get(task.id) ?? task)]
+  }));
+  void trackWrite(
+    set,
+    [...updatedTasks.keys()],
+    () => taskRepository.batch(groups),
+    () => {
+      removeLocalTasks(set, createdIds);
+      entries.forEach(({ task }) => {
+        const index = tasks.findIndex((item) => item.id === task.id);
+        // Tasks that weren't loaded stay out of the list
+        if (index !== -1) restoreTask(set, task, index);
+      });
+    },
+    failureMessage
+  );
+  return { applied, createdIds: [...createdIds] };
+};
+
+// Deleted tasks are moved into the trash collection in the same batch that
+// removes them, so they can be restored until they expire.
+const trashTasks = (
+  set: StoreApi<TaskState>['setState'],
+  get: StoreApi<TaskState>['getState'],
+  tasksToTrash: Task[],
+  failureMessage: string
+) => {
+  const userId = getActingUserId();
+  const deletedAt = new Date();
+  const expiresAt = new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const tasks = get().tasks;
+  const groups = tasksToTrash.map((task): TaskWrite[] => [{
+    type: 'trash',
+    task,
+    deletedAt: deletedAt.toISOString(),
+    deletedBy: userId,
+    expiresAt,
+    activity: createActivity('deleted', userId)
+  }]);
+
+  removeLocalTasks(set, new Set(tasksToTrash.map((task) => task.id)));
+  void trackWrite(
+    set,
+    tasksToTrash.map((task) => task.id),
+    () => taskRepository.batch(groups),
+    () => tasksToTrash.forEach((task) => restoreTask(set, task, tasks.indexOf(task))),
+    failureMessage
+  );
+};
+
+const TRASH_FIELDS = ['deletedAt', 'deletedBy', 'expiresAt'];
+
+const untrashTasks = (
+  set: StoreApi<TaskState>['setState'],
+  tasksToRestore: Task[],
+  failureMessage: string
+) => {
+  const activity = createActivity('restored', getActingUserId());
+  const restored = tasksToRestore.map((task) => {
+    const data = Object.fromEntries(
+      Object.entries(task).filter(([key]) => !TRASH_FIELDS.includes(key))
+    ) as Task;
+    return { ...data, activities: appendActivity(data.activities, activity) };
+  });
+  const groups = restored.map((task): TaskWrite[] => [
+    { type: 'restore', task },
+    ...logWrites(task.id, task.workspaceId, task.title, activity)
+  ]);
+  const restoredIds = new Set(restored.map((task) => task.id));
+
+  set((state) => ({
+    tasks: [...restored, ...state.tasks.filter((task) => !restoredIds.has(task.id))]
+  }));
+  void trackWrite(
+    set,
+    [...restoredIds],
+    () => taskRepository.batch(groups),
+    () => removeLocalTasks(set, restoredIds),
+    failureMessage
+  );
+  return restored;
+};
+
+// Generated occurrences are removed outright when the completion that
+// created them is undone
+const removeGeneratedTasks = (set: StoreApi<TaskState>['setState'], taskIds: string[]) => {
+  if (taskIds.length === 0) return;
+  removeLocalTasks(set, new Set(taskIds));
+  void trackWrite(
+    set,
+    taskIds,
+    () => taskRepository.batch(taskIds.map((id) => [{ type: 'delete', id }])),
+    () => undefined,
+    "Couldn't remove the next occurrence"
+  );
+};
+
+const pushHistory = (set: StoreApi<TaskState>['setState'], get: StoreApi<TaskState>['getState'], entry: HistoryEntry) => {
+  set((state) => ({
+    undoStack: [...state.undoStack, entry].slice(-HISTORY_LIMIT),
+    redoStack: []
+  }));
+  useToastStore.getState().showToast(entry.label, {
+    action: { label: 'Undo', onClick: () => get().undo(entry) }
+  });
+};
+
+// Applies updates and records them as one undoable step. Undo diffs against
+// the tasks as they are at that point, so later unrelated edits survive.
+const updateWithHistory = (
+  set: StoreApi<TaskState>['setState'],
+  get: StoreApi<TaskState>['getState'],
+  entries: TaskUpdate[],
+  label: string
+) => {
+  const failureMessage = `Couldn't save: ${label}`;
+  const current = (task: Task) => get().tasks.find((item) => item.id === task.id) ?? task;
+  let { applied, createdIds } = applyTaskUpdates(set, get, entries, failureMessage);
+  const previous = applied.map(({ task, fields }) => ({ task, updates: getPreviousValues(task, fields) }));
+
+  pushHistory(set, get, {
+    label,
+    undo: () => {
+      applyTaskUpdates(set, get, previous.map(({ task, updates }) => ({ task: current(task), updates })), failureMessage);
+      removeGeneratedTasks(set, createdIds);
+    },
+    redo: () => {
+      ({ applied, createdIds } = applyTaskUpdates(
+        set,
+        get,
+        applied.map(({ task, fields }) => ({ task: current(task), updates: fields })),
+        failureMessage
+      ));
+    }
+  });
+};
+
+const trashWithHistory = (
+  set: StoreApi<TaskState>['setState'],
+  get: StoreApi<TaskState>['getState'],
+  tasks: Task[],
+  label: string
+) => {
+  const failureMessage = `Couldn't delete ${countTasks(tasks.length)}`;
+  let trashed = tasks;
+  trashTasks(set, get, trashed, failureMessage);
+  pushHistory(set, get, {
+    label,
+    undo: () => {
+      trashed = untrashTasks(set, trashed, `Couldn't restore ${countTasks(trashed.length)}`);
+    },
+    redo: () => trashTasks(set, get, trashed, failureMessage)
+  });
+};
+
 export const useTaskStore = create<TaskState>((set, get) => ({
   tasks: [],
   loading: false,
   error: null,
-  filter: 'all',
-  viewMode: 'list',
-  searchQuery: '',
-  unsubscribe: null,
+  ...DEFAULT_VIEW_STATE,
+  workspaceId: null,
+  pages: [],
+  hasMore: false,
+  loadingMore: false,
+  pendingWrites: {},
+  calendarRange: null,
+  calendarTasks: [],
+  unsubscribeCalendar: () => {},
+  undoStack: [],
+  redoStack: [],
 
   setViewMode: (mode) => set({ viewMode: mode }),
-  setFilter: (filter) => set({ filter }),
+  setFilter: (filter) => {
+    set({ filter });
+    // Re-subscribe so the new filter is applied by the repository's query
+    const { workspaceId, fetchTasks } = get();
+    if (workspaceId) fetchTasks(workspaceId);
+  },
   setSearchQuery: (query: string) => set({ searchQuery: query }),
+  setSort: (sort) => set({ sort }),
+  setGroupBy: (groupBy) => set({ groupBy }),
+  toggleGroup: (key) =>
+    set((state) => ({
+      collapsedGroups: state.collapsedGroups.includes(key)
+        ? state.collapsedGroups.filter((group) => group !== key)
+        : [...state.collapsedGroups, key]
+    })),
 
-  fetchTasks: async (userId: string) => {
-    const { unsubscribe } = get();
-    if (unsubscribe) unsubscribe();
+  applyView: (view) => {
+    const filterChanged =
+      viewStateToQuery({ ...DEFAULT_VIEW_STATE, filter: view.filter }) !==
+      viewStateToQuery({ ...DEFAULT_VIEW_STATE, filter: get().filter });
+    set({
+      viewMode: view.viewMode,
+      searchQuery: view.searchQuery,
+      sort: view.sort,
+      groupBy: view.groupBy,
+      collapsedGroups: view.collapsedGroups
+    });
+    if (filterChanged) get().setFilter(view.filter);
+  },
+
+  fetchTasks: async (workspaceId: string) => {
+    get().pages.forEach((page) => page.unsubscribe());
 
-    set({ loading: true, error: null });
-    console.log('Fetching tasks for user ID:', userId);
+    set({
+      loading: true,
+      error: null,
+      // History only makes sense within the workspace it was recorded in
+      ...(workspaceId !== get().workspaceId && { undoStack: [], redoStack: [] }),
+      workspaceId,
+      pages: [createPage(null)],
+      hasMore: false,
+      loadingMore: false
+    });
+    console.log('Fetching tasks for workspace ID:', workspaceId);
 
     try {
-      const tasksRef = collection(db, 'tasks');
-      const q = query(
-        tasksRef,
-        where('userId', '==', userId),
-        orderBy('createdAt', 'desc'),
-        limit(100) // Limit initial load to 100 tasks
-      );
-
-      // Set up real-time listener
-      const unsubscribeSnapshot = onSnapshot(q, 
-        (snapshot) => {
-          const tasks = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          })) as Task[];
-          set({ tasks, loading: false });
-        },
-        (error) => {
-          console.error('Error fetching tasks:', error);
-          set({ 
-            error: `Failed to fetch tasks: ${error instanceof Error ? error.message : String(error)}`,
-            loading: false 
-          });
-        }
-      );
-
-      set({ unsubscribe: unsubscribeSnapshot });
+      listenToPage(set, get, 0, { limit: PAGE_SIZE });
+      listenToCalendar(set, get);
     } catch (error) {
       console.error('Error setting up task listener:', error);
       set({ 
@@ -90,66 +596,172 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     }
   },
 
-  addTask: async (taskData) => {
-    set({ loading: true, error: null });
+  loadMore: () => {
+    const { pages, hasMore, loadingMore } = get();
+    const lastIndex = pages.length - 1;
+    const lastPage = pages[lastIndex];
+    if (!hasMore || loadingMore || !lastPage?.lastCursor) return;
+
+    const cursor = lastPage.lastCursor;
+    set({ loadingMore: true, pages: [...pages, createPage(cursor)] });
+
     try {
-      const now = new Date().toISOString();
-      const tasksRef = collection(db, 'tasks');
-      
-      const newTask = {
-        ...taskData,
-        createdAt: now,
-        updatedAt: now,
-        activities: []
-      };
-
-      await addDoc(tasksRef, newTask);
-      // No need to update state as the snapshot listener will handle it
-      set({ loading: false });
+      // Pin the current last page to end at the cursor. With a plain limit,
+      // newly created tasks would push its last entries into neither page.
+      lastPage.unsubscribe();
+      listenToPage(set, get, lastIndex, { startAfter: lastPage.startAfter ?? undefined, endAt: cursor });
+      listenToPage(set, get, lastIndex + 1, { startAfter: cursor, limit: PAGE_SIZE });
     } catch (error) {
-      console.error('Error adding task:', error);
+      console.error('Error loading more tasks:', error);
       set({ 
-        error: `Failed to add task: ${error instanceof Error ? error.message : String(error)}`,
-        loading: false 
+        error: `Failed to load more tasks: ${error instanceof Error ? error.message : String(error)}`,
+        loadingMore: false 
       });
     }
   },
 
-  updateTask: async (taskId, updates) => {
-    set({ loading: true, error: null });
+  watchCalendar: (range) => {
+    set({ calendarRange: range });
+    listenToCalendar(set, get);
+  },
+
+  // Writes are applied locally right away and resolve without waiting for
+  // the server, so they keep working while offline. The page listeners
+  // replace the local copies once the repository reports the change.
+  addTask: async (taskData) => {
+    const taskId = taskRepository.createId();
+    const newTask = buildNewTask(taskData, get().workspaceId);
+
+    set((state) => ({ tasks: [{ ...newTask, id: taskId, updatedAt: null }, ...state.tasks] }));
+    void trackWrite(
+      set,
+      [taskId],
+      () => taskRepository.create(taskId, newTask),
+      () => set((state) => ({ tasks: state.tasks.filter((task) => task.id !== taskId) })),
+      `Couldn't save "${taskData.title}"`
+    );
+    return taskId;
+  },
+
+  // A task that may not be in the loaded pages, e.g. one opened from a link
+  fetchTask: async (taskId) => {
+    const loaded = get().tasks.find((task) => task.id === taskId);
+    if (loaded) return loaded;
     try {
-      const taskRef = doc(db, 'tasks', taskId);
-      const updatedTask = {
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      await updateDoc(taskRef, updatedTask);
-      // No need to update state as the snapshot listener will handle it
-      set({ loading: false });
+      return await taskRepository.get(taskId);
     } catch (error) {
-      console.error('Error updating task:', error);
-      set({ 
-        error: `Failed to update task: ${error instanceof Error ? error.message : String(error)}`,
-        loading: false 
+      console.error('Error fetching task:', error);
+      return null;
+    }
+  },
+
+  // Unlike other writes, each batch waits for the server, so the caller can
+  // report progress. A failed batch stops the import, the ones before it stay.
+  importTasks: async (importedTasks, onProgress) => {
+    const userId = getActingUserId();
+    const { workspaceId } = get();
+    // Keeps the order of the file
+    const baseOrder = -Date.now();
+    let imported = 0;
+
+    for (let start = 0; start < importedTasks.length; start += IMPORT_BATCH_SIZE) {
+      const chunk = importedTasks.slice(start, start + IMPORT_BATCH_SIZE);
+      const writes = chunk.map((taskData, index): TaskWrite => {
+        const newTask = buildNewTask({ ...taskData, activities: [], createdBy: userId, userId }, workspaceId);
+        return { type: 'create', id: taskRepository.createId(), task: { ...newTask, order: baseOrder + start + index } };
       });
+      try {
+        await taskRepository.batch([writes]);
+      } catch (error) {
+        console.error('Error importing tasks:', error);
+        useToastStore.getState().showToast(
+          `Couldn't import all tasks, ${imported} of ${importedTasks.length} were imported`,
+          { variant: 'error' }
+        );
+        return imported;
+      }
+      imported += chunk.length;
+      onProgress?.(imported);
     }
+    return imported;
+  },
+
+  // The task may be outside the loaded pages, e.g. one opened from a link
+  updateTask: async (taskId, updates) => {
+    const existing = await get().fetchTask(taskId);
+    if (!existing) {
+      useToastStore.getState().showToast("Couldn't save, the task no longer exists", { variant: 'error' });
+      return;
+    }
+    updateWithHistory(set, get, [{ task: existing, updates }], `Updated "${existing.title}"`);
   },
 
   deleteTask: async (taskId) => {
-    set({ loading: true, error: null });
-    try {
-      const taskRef = doc(db, 'tasks', taskId);
-      await deleteDoc(taskRef);
-      // No need to update state as the snapshot listener will handle it
-      set({ loading: false });
-    } catch (error) {
-      console.error('Error deleting task:', error);
-      set({ 
-        error: `Failed to delete task: ${error instanceof Error ? error.message : String(error)}`,
-        loading: false 
-      });
+    const existing = get().tasks.find((task) => task.id === taskId);
+    if (!existing) return;
+    trashWithHistory(set, get, [existing], `Deleted "${existing.title}"`);
+  },
+
+  // Applies one action to all selected tasks through batched writes instead
+  // of one write per task, so a failure can't leave the selection half done.
+  bulkUpdate: async (taskIds, action) => {
+    const selected = get().tasks.filter((task) => taskIds.includes(task.id));
+    if (selected.length === 0) return;
+
+    const label = describeBulkAction(action, selected.length);
+    if (action.type === 'delete') {
+      trashWithHistory(set, get, selected, label);
+      return;
     }
+    const entries = selected
+      .map((task) => ({ task, updates: getBulkUpdates(task, action) }))
+      .filter(({ task, updates }) => diffTask(task, updates).length > 0);
+    if (entries.length > 0) {
+      updateWithHistory(set, get, entries, label);
+    }
+  },
+
+  restoreTasks: async (tasks) => {
+    if (tasks.length === 0) return;
+    const label = `Restored ${tasks.length === 1 ? `"${tasks[0].title}"` : countTasks(tasks.length)}`;
+    let restored = untrashTasks(set, tasks, `Couldn't restore ${countTasks(tasks.length)}`);
+    pushHistory(set, get, {
+      label,
+      undo: () => trashTasks(set, get, restored, `Couldn't delete ${countTasks(restored.length)}`),
+      redo: () => {
+        restored = untrashTasks(set, restored, `Couldn't restore ${countTasks(restored.length)}`);
+      }
+    });
+  },
+
+  // Entries can be undone out of order from their toast, in which case only
+  // that entry is taken off the stack
+  undo: (entry) => {
+    const { undoStack, redoStack } = get();
+    const target = entry ?? undoStack[undoStack.length - 1];
+    if (!target || !undoStack.includes(target)) return;
+
+    set({
+      undoStack: undoStack.filter((item) => item !== target),
+      redoStack: [...redoStack, target]
+    });
+    target.undo();
+    useToastStore.getState().showToast(`Undone: ${target.label}`, {
+      action: { label: 'Redo', onClick: () => get().redo() }
+    });
+  },
+
+  redo: () => {
+    const { undoStack, redoStack } = get();
+    const target = redoStack[redoStack.length - 1];
+    if (!target) return;
+
+    set({
+      undoStack: [...undoStack, target].slice(-HISTORY_LIMIT),
+      redoStack: redoStack.slice(0, -1)
+    });
+    target.redo();
+    useToastStore.getState().showToast(`Redone: ${target.label}`);
   },
 
   moveTask: async (taskId, newCategory) => {
@@ -157,11 +769,136 @@ export const useTaskStore = create<TaskState>((set, get) => ({
     await updateTask(taskId, { category: newCategory });
   },
 
-  cleanup: () => {
-    const { unsubscribe } = get();
-    if (unsubscribe) {
-      unsubscribe();
-      set({ unsubscribe: null });
+  // columnTasks is the destination column in display order, without the moved
+  // task. The task gets a rank between its new neighbours; if they are too
+  // close together the whole column is re-ranked in one batch first.
+  reorderTask: async (taskId, status, columnTasks, index) => {
+    const before = columnTasks[index - 1];
+    const after = columnTasks[index];
+    const beforeOrder = before && getTaskOrder(before);
+    const afterOrder = after && getTaskOrder(after);
+
+    const existing = get().tasks.find((task) => task.id === taskId);
+    if (!existing) return;
+    const label = `Moved "${existing.title}"`;
+    const moveBetweenNeighbours = () =>
+      updateWithHistory(set, get, [{ task: existing, updates: { status, order: getOrderBetween(beforeOrder, afterOrder) } }], label);
+
+    const { workspaceId } = get();
+    if (!needsRebalance(beforeOrder, afterOrder) || !workspaceId) {
+      moveBetweenNeighbours();
+      return;
     }
+
+    // columnTasks only has what the filter, search and loaded pages show, so
+    // the whole column is read to re-rank the hidden tasks along with it
+    let column: Task[];
+    try {
+      const stored = await taskRepository.list({ workspaceId, filter: { status }, userId: getActingUserId() });
+      column = sortByOrder(stored.filter((task) => task.id !== taskId));
+    } catch (error) {
+      console.error('Error reading the column to reorder:', error);
+      moveBetweenNeighbours();
+      return;
+    }
+    // The task goes right after its new neighbour, or before the next one
+    const beforeIndex = before ? column.findIndex((task) => task.id === before.id) : -1;
+    const afterIndex = after ? column.findIndex((task) => task.id === after.id) : -1;
+    const position = beforeIndex !== -1 ? beforeIndex + 1 : afterIndex !== -1 ? afterIndex : column.length;
+
+    const ids = column.map((task) => task.id);
+    ids.splice(position, 0, taskId);
+    const orders = rebalanceOrders(ids);
+    const others = orders.filter(({ id }) => id !== taskId);
+    const previousOrders = new Map(column.map((task) => [task.id, task.order]));
+    const applyOrders = (orderById: Map<string, number | undefined>) =>
+      set((state) => ({
+        tasks: state.tasks.map((task) => (orderById.has(task.id) ? { ...task, order: orderById.get(task.id) } : task))
+      }));
+
+    applyOrders(new Map(others.map(({ id, order }) => [id, order])));
+    void trackWrite(
+      set,
+      [taskId],
+      () => taskRepository.batch([others.map(({ id, order }): TaskWrite => ({ type: 'update', id, fields: { order } }))]),
+      () => applyOrders(previousOrders),
+      "Couldn't reorder tasks"
+    );
+    // Undo only moves this task back. The re-ranked column keeps its
+    // relative order either way.
+    updateWithHistory(set, get, [{ task: existing, updates: { status, order: orders[position].order } }], label);
+  },
+
+  // Promotes a checklist item to a standalone task that inherits the parent's
+  // category, priority and due date, then drops it from the parent.
+  convertSubtaskToTask: async (taskId, subtaskId) => {
+    const { tasks, addTask, updateTask } = get();
+    const parent = tasks.find((task) => task.id === taskId);
+    const subtask = parent?.subtasks?.find((item) => item.id === subtaskId);
+    if (!parent || !subtask) return;
+
+    const newTaskId = await addTask({
+      title: subtask.title,
+      description: `Created from a subtask of "${parent.title}"`,
+      category: parent.category,
+      status: subtask.completed ? 'Completed' : 'Todo',
+      priority: parent.priority,
+      dueDate: parent.dueDate,
+      activities: [],
+      createdBy: getActingUserId(parent.userId),
+      userId: parent.userId,
+      workspaceId: parent.workspaceId
+    });
+    if (!newTaskId) return;
+
+    await updateTask(taskId, {
+      subtasks: (parent.subtasks ?? []).filter((item) => item.id !== subtaskId)
+    });
+  },
+
+  // Attachment uploads report failures to the caller instead of the global
+  // error state so a rejected file does not replace the whole task view.
+  addAttachment: async (taskId, file, onProgress) => {
+    const existing = get().tasks.find((task) => task.id === taskId);
+    const attachments = existing?.attachments ?? [];
+    if (attachments.length >= MAX_ATTACHMENTS_PER_TASK) {
+      throw new Error(`A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments`);
+    }
+
+    const userId = getActingUserId(existing?.userId);
+    const workspaceId = existing?.workspaceId ?? get().workspaceId ?? userId;
+    const attachment = await uploadAttachment(workspaceId, userId, taskId, file, onProgress);
+    try {
+      const changes = diffTask(existing ?? {}, { attachments: [...attachments, attachment] });
+      await taskRepository.batch([updateWrites(taskId, existing, {}, createActivity('updated', userId, changes), { attachment })]);
+    } catch (error) {
+      console.error('Error saving attachment:', error);
+      // Don't leave an orphaned object behind if the task could not be updated
+      await deleteAttachment(attachment).catch(() => undefined);
+      throw error;
+    }
+  },
+
+  removeAttachment: async (taskId, attachment) => {
+    const existing = get().tasks.find((task) => task.id === taskId);
+    const attachments = (existing?.attachments ?? []).filter((item) => item.id !== attachment.id);
+    const changes = diffTask(existing ?? {}, { attachments });
+    const activity = createActivity('updated', getActingUserId(existing?.userId), changes);
+
+    await taskRepository.batch([updateWrites(taskId, existing, {}, activity, { removedAttachment: attachment })]);
+    await deleteAttachment(attachment);
+  },
+
+  cleanup: () => {
+    get().pages.forEach((page) => page.unsubscribe());
+    get().unsubscribeCalendar();
+    set({
+      pages: [],
+      workspaceId: null,
+      hasMore: false,
+      loadingMore: false,
+      calendarTasks: [],
+      unsubscribeCalendar: () => {}
+    });
   }
 }));
@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+
+const TOAST_DURATION = 5000;
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  variant: 'info' | 'error';
+  action?: ToastAction;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (message: string, options?: { variant?: Toast['variant']; action?: ToastAction }) => number;
+  dismissToast: (id: number) => void;
+}
+
+let nextToastId = 1;
+
+export const useToastStore = create<ToastState>((set, get) => ({
+  toasts: [],
+
+  showToast: (message, { variant = 'info', action } = {}) => {
+    const id = nextToastId++;
+    set((state) => ({ toasts: [...state.toasts, { id, message, variant, action }] }));
+    setTimeout(() => get().dismissToast(id), TOAST_DURATION);
+    return id;
+  },
+
+  dismissToast: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) }))
+}));
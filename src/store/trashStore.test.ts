@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useTrashStore } from './trashStore';
+import { taskRepository } from '../services/taskRepository';
+import { buildTask } from '../test/fixtures';
+import { TrashedTask } from '../types/task';
+import { createActivity } from '../utils/taskActivity';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('purgeExpired', () => {
+  let workspaceId: string;
+
+  const trash = (id: string, expiresAt: Date) =>
+    taskRepository.batch([[{
+      type: 'trash',
+      task: buildTask({ id, workspaceId }),
+      deletedAt: new Date(expiresAt.getTime() - 30 * DAY).toISOString(),
+      deletedBy: 'user-1',
+      expiresAt,
+      activity: createActivity('deleted', 'user-1')
+    }]]);
+
+  const readTrash = () =>
+    new Promise<TrashedTask[]>((resolve, reject) => {
+      const unsubscribe = taskRepository.subscribeTrash(
+        workspaceId,
+        (tasks) => {
+          unsubscribe();
+          resolve(tasks);
+        },
+        reject
+      );
+    });
+
+  beforeEach(() => {
+    workspaceId = `workspace-${crypto.randomUUID()}`;
+  });
+
+  it('deletes the expired tasks and keeps the others', async () => {
+    await trash(`${workspaceId}-expired`, new Date(Date.now() - DAY));
+    await trash(`${workspaceId}-kept`, new Date(Date.now() + DAY));
+
+    await useTrashStore.getState().purgeExpired(workspaceId);
+
+    expect((await readTrash()).map((task) => task.id)).toEqual([`${workspaceId}-kept`]);
+  });
+});
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { deleteAttachment } from '../services/attachments';
+import { taskRepository } from '../services/taskRepository';
+import { TrashedTask } from '../types/task';
+
+interface TrashState {
+  tasks: TrashedTask[];
+  loading: boolean;
+  error: string | null;
+  unsubscribe: (() => void) | null;
+  fetchTrash: (workspaceId: string, canPurge: boolean) => void;
+  purgeExpired: (workspaceId: string) => Promise<void>;
+  deleteForever: (tasks: TrashedTask[]) => Promise<void>;
+  cleanup: () => void;
+}
+
+const isExpired = (task: TrashedTask, now = Date.now()) => task.expiresAt.toMillis() <= now;
+
+// The trash as it is now, read once
+const readTrash = (workspaceId: string) =>
+  new Promise<TrashedTask[]>((resolve, reject) => {
+    const unsubscribe = taskRepository.subscribeTrash(
+      workspaceId,
+      (tasks) => {
+        unsubscribe();
+        resolve(tasks);
+      },
+      reject
+    );
+  });
+
+export const useTrashStore = create<TrashState>((set, get) => ({
+  tasks: [],
+  loading: false,
+  error: null,
+  unsubscribe: null,
+
+  // Expired tasks are left out, and purged if the user can edit
+  fetchTrash: (workspaceId, canPurge) => {
+    get().unsubscribe?.();
+    set({ loading: true, error: null });
+
+    const unsubscribe = taskRepository.subscribeTrash(
+      workspaceId,
+      (tasks) => {
+        const now = Date.now();
+        const expired = tasks.filter((task) => isExpired(task, now));
+        set({ tasks: tasks.filter((task) => !expired.includes(task)), loading: false });
+        if (canPurge && expired.length > 0) {
+          get().deleteForever(expired);
+        }
+      },
+      (error) => {
+        console.error('Error fetching trash:', error);
+        set({
+          error: `Failed to fetch trash: ${error instanceof Error ? error.message : String(error)}`,
+          loading: false
+        });
+      }
+    );
+    set({ unsubscribe });
+  },
+
+  // Runs whenever an editor loads the workspace, so the trash is emptied
+  // on time without anyone opening it. Deleting here rather than through a
+  // TTL policy also removes the tasks' attachments.
+  purgeExpired: async (workspaceId) => {
+    try {
+      const expired = (await readTrash(workspaceId)).filter((task) => isExpired(task));
+      if (expired.length > 0) await get().deleteForever(expired);
+    } catch (error) {
+      console.error('Error purging trash:', error);
+    }
+  },
+
+  deleteForever: async (tasks) => {
+    try {
+      await taskRepository.batch(tasks.map((task) => [{ type: 'purge', id: task.id }]));
+      await Promise.allSettled(tasks.flatMap((task) => task.attachments ?? []).map(deleteAttachment));
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      set({ error: `Failed to delete tasks: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  cleanup: () => {
+    get().unsubscribe?.();
+    set({ tasks: [], unsubscribe: null });
+  }
+}));
@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { User } from '@firebase/auth';
+import { collection, doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { auth, db } from '../services/firebase';
+import { UserProfile } from '../types/user';
+
+export const getProfileName = (profile: UserProfile | undefined, fallback = 'Unknown user') =>
+  profile?.displayName || profile?.email || fallback;
+
+interface UserState {
+  profiles: Record<string, UserProfile>;
+  // The signed-in user's, as last saved
+  profile: UserProfile | null;
+  unsubscribers: (() => void)[];
+  saveProfile: (user: User) => Promise<void>;
+  shareProfile: (workspaceIds: string[]) => Promise<void>;
+  fetchProfiles: (workspaceId: string) => void;
+  cleanup: () => void;
+}
+
+export const useUserStore = create<UserState>((set, get) => ({
+  profiles: {},
+  profile: null,
+  unsubscribers: [],
+
+  saveProfile: async (user) => {
+    const profile: UserProfile = {
+      uid: user.uid,
+      displayName: user.displayName,
+      email: user.email,
+      photoURL: user.photoURL,
+      updatedAt: new Date().toISOString()
+    };
+    try {
+      await setDoc(doc(db, 'users', user.uid), profile);
+      set((state) => ({ profile, profiles: { ...state.profiles, [user.uid]: profile } }));
+    } catch (error) {
+      console.error('Error saving user profile:', error);
+    }
+  },
+
+  // Other users can't read users/{uid}, so the profile is copied into each
+  // workspace for its members. A workspace the user was just removed from
+  // rejects the copy, which doesn't stop the others.
+  shareProfile: async (workspaceIds) => {
+    const { profile } = get();
+    if (!profile || profile.uid !== auth.currentUser?.uid) return;
+    await Promise.all(
+      workspaceIds.map((workspaceId) =>
+        setDoc(doc(db, 'workspaces', workspaceId, 'members', profile.uid), profile).catch((error) =>
+          console.error('Error sharing user profile:', error)
+        )
+      )
+    );
+  },
+
+  fetchProfiles: (workspaceId) => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'workspaces', workspaceId, 'members'),
+      (snapshot) => {
+        const profiles = { ...get().profiles };
+        snapshot.docs.forEach((profileDoc) => {
+          profiles[profileDoc.id] = profileDoc.data() as UserProfile;
+        });
+        set({ profiles });
+      },
+      (error) => console.error('Error fetching user profiles:', error)
+    );
+    set({ unsubscribers: [unsubscribe] });
+  },
+
+  cleanup: () => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+    set({ unsubscribers: [] });
+  }
+}));
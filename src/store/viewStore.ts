@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { addDoc, collection, deleteDoc, doc, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { SavedView } from '../types/view';
+
+interface ViewStoreState {
+  views: SavedView[];
+  userId: string | null;
+  error: string | null;
+  unsubscribe: (() => void) | null;
+  fetchViews: (userId: string) => void;
+  saveView: (name: string, query: string) => Promise<void>;
+  deleteView: (viewId: string) => Promise<void>;
+  cleanup: () => void;
+}
+
+export const useViewStore = create<ViewStoreState>((set, get) => ({
+  views: [],
+  userId: null,
+  error: null,
+  unsubscribe: null,
+
+  fetchViews: (userId) => {
+    get().unsubscribe?.();
+    set({ userId, views: [], error: null });
+
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'users', userId, 'views'), orderBy('createdAt', 'asc')),
+      (snapshot) => {
+        set({ views: snapshot.docs.map((viewDoc) => ({ id: viewDoc.id, ...viewDoc.data() }) as SavedView) });
+      },
+      (error) => {
+        console.error('Error fetching saved views:', error);
+        set({ error: `Failed to fetch saved views: ${error.message}` });
+      }
+    );
+    set({ unsubscribe });
+  },
+
+  saveView: async (name, viewQuery) => {
+    const { userId } = get();
+    if (!userId) return;
+    try {
+      await addDoc(collection(db, 'users', userId, 'views'), {
+        name,
+        query: viewQuery,
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving view:', error);
+      set({ error: `Failed to save view: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  deleteView: async (viewId) => {
+    const { userId } = get();
+    if (!userId) return;
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'views', viewId));
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      set({ error: `Failed to delete view: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  },
+
+  cleanup: () => {
+    get().unsubscribe?.();
+    set({ views: [], unsubscribe: null, userId: null });
+  }
+}));
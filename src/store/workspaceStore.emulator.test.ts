@@ -0,0 +1,220 @@
+import { User } from '@firebase/auth';
+import { waitFor } from '@testing-library/react';
+import { doc, getDoc, setDoc, updateDoc, DocumentData } from 'firebase/firestore';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { useWorkspaceStore } from './workspaceStore';
+import { db } from '../services/firebase';
+import { taskRepository } from '../services/taskRepository';
+import { buildTaskData } from '../test/fixtures';
+import { clearAccounts, createTestEnvironment, signIn, signUp, TestEnvironment } from '../test/emulators';
+import { WorkspaceRole } from '../types/workspace';
+
+// Snapshots and acknowledgements take a round trip through the emulator
+const eventually = (assertion: () => unknown) => waitFor(assertion, { timeout: 10000 });
+
+describe('workspaceStore against the emulators', () => {
+  let env: TestEnvironment;
+  let owner: User;
+  let workspaceId: string;
+
+  const readStored = async (path: string, ...segments: string[]) => {
+    let data: DocumentData | undefined;
+    await env.withSecurityRulesDisabled(async (context) => {
+      data = (await getDoc(doc(context.firestore(), path, ...segments))).data();
+    });
+    return data;
+  };
+
+  // Signs in as the given account and loads its workspaces and invites
+  const switchTo = async (email: string, isNew = true) => {
+    useWorkspaceStore.getState().cleanup();
+    const user = isNew ? await signUp(email) : await signIn(email);
+    await useWorkspaceStore.getState().fetchWorkspaces(user);
+    await eventually(() => expect(useWorkspaceStore.getState().loading).toBe(false));
+    return user;
+  };
+
+  // Invites the email as the owner, then signs in as it and accepts
+  const join = async (email: string, role: Exclude<WorkspaceRole, 'owner'>) => {
+    await useWorkspaceStore.getState().inviteMember(workspaceId, email, role);
+    const user = await switchTo(email);
+    await eventually(() => expect(useWorkspaceStore.getState().invites).toHaveLength(1));
+    await useWorkspaceStore.getState().acceptInvite(useWorkspaceStore.getState().invites[0]);
+    await eventually(() =>
+      expect(useWorkspaceStore.getState().workspaces.map((workspace) => workspace.id)).toContain(workspaceId)
+    );
+    return user;
+  };
+
+  const createTask = (userId: string, id: string) =>
+    taskRepository.create(id, {
+      ...buildTaskData({ userId, createdBy: userId, workspaceId }),
+      createdAt: '2026-10-19T09:00:00.000Z'
+    });
+
+  beforeAll(async () => {
+    env = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await clearAccounts();
+    owner = await switchTo('owner@example.com');
+    workspaceId = (await useWorkspaceStore.getState().createWorkspace('Team'))!;
+    await eventually(() =>
+      expect(useWorkspaceStore.getState().workspaces.map((workspace) => workspace.id)).toContain(workspaceId)
+    );
+  });
+
+  afterEach(() => {
+    useWorkspaceStore.getState().cleanup();
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  describe('invites', () => {
+    it('lets the invited user join with the role of the invite', async () => {
+      const editor = await join('editor@example.com', 'editor');
+
+      await eventually(() =>
+        expect(useWorkspaceStore.getState().workspaces.find((workspace) => workspace.id === workspaceId)?.members).toEqual({
+          [owner.uid]: 'owner',
+          [editor.uid]: 'editor'
+        })
+      );
+      expect(useWorkspaceStore.getState().activeWorkspaceId).toBe(workspaceId);
+      expect(await readStored('workspaces', workspaceId, 'invites', 'editor@example.com')).toBeUndefined();
+      await eventually(() => expect(useWorkspaceStore.getState().invites).toEqual([]));
+    });
+
+    it('rejects joining without an invite or with another role', async () => {
+      await useWorkspaceStore.getState().inviteMember(workspaceId, 'viewer@example.com', 'viewer');
+      const viewer = await switchTo('viewer@example.com');
+      await eventually(() => expect(useWorkspaceStore.getState().invites).toHaveLength(1));
+      const invite = useWorkspaceStore.getState().invites[0];
+
+      await expect(useWorkspaceStore.getState().acceptInvite({ ...invite, role: 'editor' })).rejects.toThrow();
+      await expect(
+        updateDoc(doc(db, 'workspaces', workspaceId), { [`members.${viewer.uid}`]: 'owner', memberIds: [owner.uid, viewer.uid] })
+      ).rejects.toThrow();
+
+      await switchTo('stranger@example.com');
+      await expect(
+        useWorkspaceStore.getState().acceptInvite({ ...invite, email: 'stranger@example.com' })
+      ).rejects.toThrow();
+      expect((await readStored('workspaces', workspaceId))?.memberIds).toEqual([owner.uid]);
+    });
+
+    it('lets the invited user decline', async () => {
+      await useWorkspaceStore.getState().inviteMember(workspaceId, 'editor@example.com', 'editor');
+      await switchTo('editor@example.com');
+      await eventually(() => expect(useWorkspaceStore.getState().invites).toHaveLength(1));
+
+      await useWorkspaceStore.getState().declineInvite(useWorkspaceStore.getState().invites[0]);
+      await eventually(() => expect(useWorkspaceStore.getState().invites).toEqual([]));
+      expect((await readStored('workspaces', workspaceId))?.memberIds).toEqual([owner.uid]);
+    });
+
+    it('hides invites from accounts that have not verified the address', async () => {
+      await useWorkspaceStore.getState().inviteMember(workspaceId, 'editor@example.com', 'editor');
+      const impostor = await signUp('editor@example.com', { verified: false });
+      useWorkspaceStore.getState().cleanup();
+      await useWorkspaceStore.getState().fetchWorkspaces(impostor);
+      await eventually(() => expect(useWorkspaceStore.getState().loading).toBe(false));
+
+      expect(useWorkspaceStore.getState().invites).toEqual([]);
+      await expect(getDoc(doc(db, 'workspaces', workspaceId, 'invites', 'editor@example.com'))).rejects.toThrow();
+      await expect(
+        updateDoc(doc(db, 'workspaces', workspaceId), {
+          [`members.${impostor.uid}`]: 'editor',
+          [`memberEmails.${impostor.uid}`]: 'editor@example.com',
+          memberIds: [owner.uid, impostor.uid]
+        })
+      ).rejects.toThrow();
+      expect((await readStored('workspaces', workspaceId))?.memberIds).toEqual([owner.uid]);
+    });
+
+    it('only lets owners invite', async () => {
+      await join('editor@example.com', 'editor');
+      await expect(useWorkspaceStore.getState().inviteMember(workspaceId, 'friend@example.com', 'viewer')).rejects.toThrow();
+    });
+  });
+
+  describe('task access by role', () => {
+    it('lets owners and editors write tasks and viewers only read them', async () => {
+      await createTask(owner.uid, 'by-owner');
+      await join('viewer@example.com', 'viewer');
+      await switchTo('owner@example.com', false);
+      const editor = await join('editor@example.com', 'editor');
+
+      await createTask(editor.uid, 'by-editor');
+      await taskRepository.update('by-owner', { title: 'Edited by the editor' });
+      expect((await taskRepository.get('by-owner'))?.title).toBe('Edited by the editor');
+
+      const viewer = await switchTo('viewer@example.com', false);
+      expect((await taskRepository.get('by-editor'))?.createdBy).toBe(editor.uid);
+      await expect(createTask(viewer.uid, 'by-viewer')).rejects.toThrow();
+      await expect(taskRepository.update('by-owner', { title: 'Edited by the viewer' })).rejects.toThrow();
+      await expect(taskRepository.delete('by-owner')).rejects.toThrow();
+
+      await switchTo('owner@example.com', false);
+      await taskRepository.delete('by-editor');
+      expect(await readStored('tasks', 'by-editor')).toBeUndefined();
+    });
+
+    it('keeps tasks from users outside the workspace', async () => {
+      await createTask(owner.uid, 'by-owner');
+      const stranger = await switchTo('stranger@example.com');
+
+      await expect(taskRepository.get('by-owner')).rejects.toThrow();
+      await expect(createTask(stranger.uid, 'by-stranger')).rejects.toThrow();
+    });
+
+    it('follows role changes', async () => {
+      const editor = await join('editor@example.com', 'editor');
+      await switchTo('owner@example.com', false);
+      await useWorkspaceStore.getState().updateMemberRole(workspaceId, editor.uid, 'viewer');
+
+      await switchTo('editor@example.com', false);
+      await expect(createTask(editor.uid, 'by-editor')).rejects.toThrow();
+    });
+  });
+
+  describe('leaving', () => {
+    it('lets members leave and loses their access', async () => {
+      const editor = await join('editor@example.com', 'editor');
+      await setDoc(doc(db, 'workspaces', workspaceId, 'members', editor.uid), { uid: editor.uid, displayName: 'Editor' });
+      await createTask(editor.uid, 'by-editor');
+
+      await useWorkspaceStore.getState().removeMember(workspaceId, editor.uid);
+      await eventually(() =>
+        expect(useWorkspaceStore.getState().workspaces.map((workspace) => workspace.id)).toEqual([editor.uid])
+      );
+      expect(useWorkspaceStore.getState().activeWorkspaceId).toBe(editor.uid);
+      expect((await readStored('workspaces', workspaceId))?.members).toEqual({ [owner.uid]: 'owner' });
+      expect(await readStored('workspaces', workspaceId, 'members', editor.uid)).toBeUndefined();
+      await expect(createTask(editor.uid, 'after-leaving')).rejects.toThrow();
+      await expect(taskRepository.get('by-editor')).rejects.toThrow();
+    });
+
+    it('lets owners remove members, and nobody else', async () => {
+      const viewer = await join('viewer@example.com', 'viewer');
+      await switchTo('owner@example.com', false);
+      const editor = await join('editor@example.com', 'editor');
+
+      await expect(useWorkspaceStore.getState().removeMember(workspaceId, viewer.uid)).rejects.toThrow();
+
+      await createTask(editor.uid, 'by-editor');
+
+      await switchTo('owner@example.com', false);
+      await useWorkspaceStore.getState().removeMember(workspaceId, editor.uid);
+      expect((await readStored('workspaces', workspaceId))?.memberIds).toEqual([owner.uid, viewer.uid]);
+
+      // Not even the tasks they created stay readable
+      await switchTo('editor@example.com', false);
+      await expect(taskRepository.get('by-editor')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { create } from 'zustand';
+import { User } from '@firebase/auth';
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  onSnapshot,
+  arrayUnion,
+  arrayRemove,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { taskRepository } from '../services/taskRepository';
+import { useAuthStore } from './authStore';
+import { useTrashStore } from './trashStore';
+import { Workspace, WorkspaceInvite, WorkspaceRole } from '../types/workspace';
+
+const ACTIVE_WORKSPACE_KEY = 'taskbuddy.activeWorkspace';
+
+export const getWorkspaceRole = (workspace: Workspace | undefined, userId: string | undefined) =>
+  workspace && userId ? workspace.members[userId] ?? null : null;
+
+export const canEditTasks = (role: WorkspaceRole | null) => role === 'owner' || role === 'editor';
+
+// Tasks created before workspaces existed are moved into the owner's
+// personal workspace once, the first time they sign in.
+const migrateLegacyTasks = async (userId: string) => {
+  await taskRepository.migrateLegacyTasks(userId);
+  await updateDoc(doc(db, 'workspaces', userId), { legacyTasksMigrated: true });
+};
+
+// Older versions of the app stored due dates in more than one format. Owners
+// rewrite them once per workspace; the task list also normalizes on read, so
+// nothing depends on this having run.
+const migratingDueDates = new Set<string>();
+const migrateDueDates = async (workspaceId: string) => {
+  if (migratingDueDates.has(workspaceId)) return;
+  migratingDueDates.add(workspaceId);
+  try {
+    await taskRepository.migrateDueDates(workspaceId);
+    await updateDoc(doc(db, 'workspaces', workspaceId), { dueDatesMigrated: true });
+  } catch (error) {
+    console.error('Error migrating due dates:', error);
+  } finally {
+    migratingDueDates.delete(workspaceId);
+  }
+};
+
+// Expired trash is purged once per session in every workspace the user can edit
+const purgedTrash = new Set<string>();
+const purgeTrash = (workspaceId: string) => {
+  if (purgedTrash.has(workspaceId)) return;
+  purgedTrash.add(workspaceId);
+  void useTrashStore.getState().purgeExpired(workspaceId);
+};
+
+const ensurePersonalWorkspace = async (user: User) => {
+  const workspaceRef = doc(db, 'workspaces', user.uid);
+  const snapshot = await getDoc(workspaceRef);
+
+  if (!snapshot.exists()) {
+    const workspace: Omit<Workspace, 'id'> = {
+      name: 'Personal',
+      members: { [user.uid]: 'owner' },
+      memberIds: [user.uid],
+      memberEmails: user.email ? { [user.uid]: user.email } : {},
+      personal: true,
+      legacyTasksMigrated: false,
+      createdAt: new Date().toISOString(),
+      createdBy: user.uid
+    };
+    await setDoc(workspaceRef, workspace);
+  }
+  if (!snapshot.data()?.legacyTasksMigrated) {
+    await migrateLegacyTasks(user.uid);
+  }
+};
+
+interface WorkspaceState {
+  workspaces: Workspace[];
+  invites: WorkspaceInvite[];
+  activeWorkspaceId: string | null;
+  loading: boolean;
+  error: string | null;
+  unsubscribers: (() => void)[];
+  fetchWorkspaces: (user: User) => Promise<void>;
+  setActiveWorkspace: (workspaceId: string) => void;
+  createWorkspace: (name: string) => Promise<string | null>;
+  inviteMember: (workspaceId: string, email: string, role: WorkspaceInvite['role']) => Promise<void>;
+  acceptInvite: (invite: WorkspaceInvite) => Promise<void>;
+  declineInvite: (invite: WorkspaceInvite) => Promise<void>;
+  updateMemberRole: (workspaceId: string, userId: string, role: WorkspaceRole) => Promise<void>;
+  removeMember: (workspaceId: string, userId: string) => Promise<void>;
+  cleanup: () => void;
+}
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  workspaces: [],
+  invites: [],
+  activeWorkspaceId: null,
+  loading: false,
+  error: null,
+  unsubscribers: [],
+
+  fetchWorkspaces: async (user) => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+    set({ loading: true, error: null, unsubscribers: [] });
+
+    try {
+      await ensurePersonalWorkspace(user);
+
+      const storedId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+      const unsubscribeWorkspaces = onSnapshot(
+        query(collection(db, 'workspaces'), where('memberIds', 'array-contains', user.uid)),
+        (snapshot) => {
+          const workspaces = snapshot.docs
+            .map((workspaceDoc) => ({ id: workspaceDoc.id, ...workspaceDoc.data() }) as Workspace)
+            .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+          // Fall back to the personal workspace if the active one was left or removed
+          const activeId = get().activeWorkspaceId ?? storedId;
+          const activeWorkspaceId = workspaces.some((workspace) => workspace.id === activeId)
+            ? activeId
+            : user.uid;
+          set({ workspaces, activeWorkspaceId, loading: false });
+          workspaces
+            .filter((workspace) => !workspace.dueDatesMigrated && workspace.members[user.uid] === 'owner')
+            .forEach((workspace) => migrateDueDates(workspace.id));
+          workspaces
+            .filter((workspace) => canEditTasks(getWorkspaceRole(workspace, user.uid)))
+            .forEach((workspace) => purgeTrash(workspace.id));
+        },
+        (error) => {
+          console.error('Error fetching workspaces:', error);
+          set({
+            error: `Failed to fetch workspaces: ${error instanceof Error ? error.message : String(error)}`,
+            loading: false
+          });
+        }
+      );
+
+      const unsubscribers = [unsubscribeWorkspaces];
+      // The rules only show invites to verified addresses
+      if (user.email && user.emailVerified) {
+        unsubscribers.push(onSnapshot(
+          query(collectionGroup(db, 'invites'), where('email', '==', user.email.toLowerCase())),
+          (snapshot) => {
+            set({ invites: snapshot.docs.map((inviteDoc) => inviteDoc.data() as WorkspaceInvite) });
+          },
+          (error) => console.error('Error fetching workspace invites:', error)
+        ));
+      }
+      set({ unsubscribers });
+    } catch (error) {
+      console.error('Error setting up workspaces:', error);
+      set({
+        error: `Failed to set up workspaces: ${error instanceof Error ? error.message : String(error)}`,
+        loading: false
+      });
+    }
+  },
+
+  setActiveWorkspace: (workspaceId) => {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+    set({ activeWorkspaceId: workspaceId });
+  },
+
+  createWorkspace: async (name) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return null;
+
+    try {
+      const workspaceRef = doc(collection(db, 'workspaces'));
+      const workspace: Omit<Workspace, 'id'> = {
+        name,
+        members: { [user.uid]: 'owner' },
+        memberIds: [user.uid],
+        memberEmails: user.email ? { [user.uid]: user.email } : {},
+        personal: false,
+        createdAt: new Date().toISOString(),
+        createdBy: user.uid
+      };
+      await setDoc(workspaceRef, workspace);
+      get().setActiveWorkspace(workspaceRef.id);
+      return workspaceRef.id;
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      set({
+        error: `Failed to create workspace: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return null;
+    }
+  },
+
+  inviteMember: async (workspaceId, email, role) => {
+    const workspace = get().workspaces.find((item) => item.id === workspaceId);
+    const user = useAuthStore.getState().user;
+    if (!workspace || !user) return;
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const invite: WorkspaceInvite = {
+      email: normalizedEmail,
+      role,
+      workspaceId,
+      workspaceName: workspace.name,
+      invitedBy: user.uid,
+      createdAt: new Date().toISOString()
+    };
+    await setDoc(doc(db, 'workspaces', workspaceId, 'invites', normalizedEmail), invite);
+  },
+
+  acceptInvite: async (invite) => {
+    const { user, emailVerified } = useAuthStore.getState();
+    const userId = user?.uid;
+    if (!userId || !emailVerified) return;
+
+    // Joining and consuming the invite happen together, which is what the
+    // security rules check for
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'workspaces', invite.workspaceId), {
+      [`members.${userId}`]: invite.role,
+      [`memberEmails.${userId}`]: invite.email,
+      memberIds: arrayUnion(userId)
+    });
+    batch.delete(doc(db, 'workspaces', invite.workspaceId, 'invites', invite.email));
+    await batch.commit();
+    get().setActiveWorkspace(invite.workspaceId);
+  },
+
+  declineInvite: async (invite) => {
+    await deleteDoc(doc(db, 'workspaces', invite.workspaceId, 'invites', invite.email));
+  },
+
+  updateMemberRole: async (workspaceId, userId, role) => {
+    await updateDoc(doc(db, 'workspaces', workspaceId), {
+      [`members.${userId}`]: role
+    });
+  },
+
+  removeMember: async (workspaceId, userId) => {
+    // The member's profile copy goes with the membership
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'workspaces', workspaceId), {
+      [`members.${userId}`]: deleteField(),
+      [`memberEmails.${userId}`]: deleteField(),
+      memberIds: arrayRemove(userId)
+    });
+    batch.delete(doc(db, 'workspaces', workspaceId, 'members', userId));
+    await batch.commit();
+  },
+
+  cleanup: () => {
+    get().unsubscribers.forEach((unsubscribe) => unsubscribe());
+    set({ unsubscribers: [], workspaces: [], invites: [], activeWorkspaceId: null });
+  }
+}));
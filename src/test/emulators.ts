@@ -0,0 +1,78 @@
+import { initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut, User } from '@firebase/auth';
+import { doc, setDoc } from 'firebase/firestore';
+import { auth } from '../services/firebase';
+import { useAuthStore } from '../store/authStore';
+import { Workspace, WorkspaceRole } from '../types/workspace';
+import firestoreRules from '../../firestore.rules?raw';
+import storageRules from '../../storage.rules?raw';
+
+// For the *.emulator.test.ts suites, which `npm run test:emulators` runs
+// against the emulators from firebase.json
+
+export const PROJECT_ID = 'demo-taskbuddy';
+const host = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+const PASSWORD = 'correct-horse';
+
+export const createTestEnvironment = () =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { host, port: 8080, rules: firestoreRules },
+    storage: { host, port: 9199, rules: storageRules }
+  });
+
+export type TestEnvironment = Awaited<ReturnType<typeof createTestEnvironment>>;
+
+// Removes every account from the Auth emulator
+export const clearAccounts = async () => {
+  await signOut(auth);
+  await fetch(`http://${host}:9099/emulator/v1/projects/${PROJECT_ID}/accounts`, { method: 'DELETE' });
+};
+
+// Marks the address as verified, like opening the emailed link would, and
+// refreshes the ID token so the rules see it
+const verifyEmail = async (user: User) => {
+  await fetch(`http://${host}:9099/identitytoolkit.googleapis.com/v1/projects/${PROJECT_ID}/accounts:update`, {
+    method: 'POST',
+    headers: { Authorization: 'Bearer owner', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ localId: user.uid, emailVerified: true })
+  });
+  await user.reload();
+  await user.getIdToken(true);
+};
+
+// Signs the app in as a new email/password account, verified unless told otherwise
+export const signUp = async (email: string, { verified = true } = {}): Promise<User> => {
+  const { user } = await createUserWithEmailAndPassword(auth, email, PASSWORD);
+  if (verified) await verifyEmail(user);
+  useAuthStore.setState({ user, isGuest: false, emailVerified: user.emailVerified, loading: false });
+  return user;
+};
+
+// Signs the app back in as an account signUp created
+export const signIn = async (email: string): Promise<User> => {
+  const { user } = await signInWithEmailAndPassword(auth, email, PASSWORD);
+  useAuthStore.setState({ user, isGuest: false, emailVerified: user.emailVerified, loading: false });
+  return user;
+};
+
+// Written past the rules, like a workspace another client set up
+export const seedWorkspace = (
+  env: TestEnvironment,
+  workspaceId: string,
+  members: Record<string, WorkspaceRole>,
+  extra: Partial<Workspace> = {}
+) =>
+  env.withSecurityRulesDisabled(async (context) => {
+    const workspace: Omit<Workspace, 'id'> = {
+      name: 'Team',
+      members,
+      memberIds: Object.keys(members),
+      memberEmails: {},
+      personal: false,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      createdBy: Object.keys(members)[0],
+      ...extra
+    };
+    await setDoc(doc(context.firestore(), 'workspaces', workspaceId), workspace);
+  });
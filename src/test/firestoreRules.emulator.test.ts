@@ -0,0 +1,348 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import {
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { createTestEnvironment, seedWorkspace, TestEnvironment } from './emulators';
+import { buildTaskData, TaskData } from './fixtures';
+
+describe('firestore.rules', () => {
+  let env: TestEnvironment;
+
+  const firestoreAs = (uid: string, emailVerified = true) =>
+    env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: emailVerified }).firestore();
+  const taskRef = (uid: string, taskId = 'task') => doc(firestoreAs(uid), 'tasks', taskId);
+
+  // What the app writes for a new task
+  const newTask = (uid: string, overrides: Partial<TaskData> = {}) => ({
+    ...buildTaskData({ userId: uid, createdBy: uid, workspaceId: 'team' }),
+    createdAt: '2026-10-01T09:00:00.000Z',
+    updatedAt: serverTimestamp(),
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    env = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await seedWorkspace(env, 'team', { owner: 'owner', editor: 'editor', viewer: 'viewer' });
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'tasks', 'task'), {
+        ...buildTaskData({ userId: 'owner', createdBy: 'owner', workspaceId: 'team' }),
+        createdAt: '2026-10-01T09:00:00.000Z',
+        updatedAt: Timestamp.now()
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  describe('task creation', () => {
+    it('lets owners and editors create valid tasks', async () => {
+      await assertSucceeds(setDoc(taskRef('owner', 'new-1'), newTask('owner')));
+      await assertSucceeds(setDoc(taskRef('editor', 'new-2'), newTask('editor')));
+    });
+
+    it('rejects viewers, non-members and signed-out users', async () => {
+      await assertFails(setDoc(taskRef('viewer', 'new'), newTask('viewer')));
+      await assertFails(setDoc(taskRef('stranger', 'new'), newTask('stranger')));
+      await assertFails(setDoc(doc(env.unauthenticatedContext().firestore(), 'tasks', 'new'), newTask('owner')));
+    });
+
+    it('rejects values outside the enums', async () => {
+      await assertFails(setDoc(taskRef('owner', 'new'), { ...newTask('owner'), status: 'Done' }));
+      await assertFails(setDoc(taskRef('owner', 'new'), { ...newTask('owner'), category: 'Errands' }));
+      await assertFails(setDoc(taskRef('owner', 'new'), { ...newTask('owner'), priority: 'Urgent' }));
+    });
+
+    it('rejects titles and descriptions that are empty or too long', async () => {
+      await assertFails(setDoc(taskRef('owner', 'new'), newTask('owner', { title: '' })));
+      await assertFails(setDoc(taskRef('owner', 'new'), newTask('owner', { title: 'x'.repeat(101) })));
+      await assertSucceeds(setDoc(taskRef('owner', 'new'), newTask('owner', { title: 'x'.repeat(100) })));
+      await assertFails(setDoc(taskRef('owner', 'other'), newTask('owner', { description: 'x'.repeat(301) })));
+    });
+
+    it('rejects due dates that are not a local date with an optional time', async () => {
+      await assertSucceeds(setDoc(taskRef('owner', 'new-1'), newTask('owner', { dueDate: '2026-11-02T14:30' })));
+      await assertFails(setDoc(taskRef('owner', 'new-2'), newTask('owner', { dueDate: '02-11-2026' })));
+      await assertFails(setDoc(taskRef('owner', 'new-3'), newTask('owner', { dueDate: '2026-11-02T14:30:00.000Z' })));
+    });
+
+    it('requires updatedAt to be the server timestamp', async () => {
+      await assertFails(setDoc(taskRef('owner', 'new-1'), { ...newTask('owner'), updatedAt: Timestamp.now() }));
+      await assertFails(setDoc(taskRef('owner', 'new-2'), { ...newTask('owner'), updatedAt: null }));
+    });
+
+    it('rejects tasks without the required fields', async () => {
+      const task: Record<string, unknown> = newTask('owner');
+      delete task.createdBy;
+      await assertFails(setDoc(taskRef('owner', 'new'), task));
+    });
+  });
+
+  describe('task updates', () => {
+    const update = (uid: string, fields: Record<string, unknown>) =>
+      updateDoc(taskRef(uid), { updatedAt: serverTimestamp(), ...fields });
+
+    it('lets owners and editors change tasks', async () => {
+      await assertSucceeds(update('owner', { title: 'Renamed' }));
+      await assertSucceeds(update('editor', { status: 'Completed' }));
+    });
+
+    it('rejects viewers and non-members', async () => {
+      await assertFails(update('viewer', { title: 'Renamed' }));
+      await assertFails(update('stranger', { title: 'Renamed' }));
+    });
+
+    it('keeps createdAt, createdBy and userId fixed', async () => {
+      await assertFails(update('owner', { createdAt: '2026-01-01T00:00:00.000Z' }));
+      await assertFails(update('owner', { createdBy: 'editor' }));
+      await assertFails(update('owner', { userId: 'editor' }));
+    });
+
+    it('requires updatedAt to be the server timestamp', async () => {
+      await assertFails(updateDoc(taskRef('owner'), { title: 'Renamed' }));
+      await assertFails(updateDoc(taskRef('owner'), { title: 'Renamed', updatedAt: Timestamp.now() }));
+    });
+
+    it('validates the changed fields', async () => {
+      await assertFails(update('owner', { priority: 'Urgent' }));
+      await assertFails(update('owner', { title: 'x'.repeat(101) }));
+      await assertFails(update('owner', { reminders: Array.from({ length: 11 }, () => ({ type: 'onDue' })) }));
+    });
+
+    it('checks the type and size of reminders, recurrence, activities and ranks', async () => {
+      const reminder = { id: 'r1', type: 'beforeDue', minutes: 60 };
+      await assertSucceeds(update('owner', { reminders: [reminder, { id: 'r2', type: 'timeOfDay', daysBefore: 1, time: '09:00' }] }));
+      await assertFails(update('owner', { reminders: [reminder, { id: 'r2', type: 'beforeDue', minutes: 'soon' }] }));
+      await assertFails(update('owner', { reminders: [{ id: 'r1', type: 'custom', at: '2026-11-02' }] }));
+      await assertFails(update('owner', { reminders: 'every hour' }));
+
+      await assertSucceeds(update('owner', { recurrence: { frequency: 'weekly', interval: 2, weekdays: [1, 3] } }));
+      await assertSucceeds(update('owner', { recurrence: null }));
+      await assertFails(update('owner', { recurrence: { frequency: 'yearly', interval: 1 } }));
+      await assertFails(update('owner', { recurrence: { frequency: 'monthly', interval: 0 } }));
+      await assertFails(update('owner', { recurrence: { frequency: 'monthly', interval: 1, monthDay: 32 } }));
+      await assertFails(update('owner', { recurrence: 'daily' }));
+
+      const activity = (userId: string) => ({ type: 'updated', changes: [], timestamp: '2026-10-19T09:00:00.000Z', userId });
+      await assertSucceeds(update('owner', { activities: [activity('owner')] }));
+      await assertFails(update('owner', { activities: [activity('editor')] }));
+      await assertFails(update('owner', { activities: [{ ...activity('owner'), type: 'hacked' }] }));
+      await assertFails(update('owner', { activities: Array.from({ length: 51 }, () => activity('owner')) }));
+      await assertFails(update('owner', { activities: 'lots' }));
+
+      await assertSucceeds(update('owner', { order: 1.5 }));
+      await assertFails(update('owner', { order: 'first' }));
+      await assertSucceeds(update('owner', { nextOccurrenceId: 'next' }));
+      await assertFails(update('owner', { nextOccurrenceId: 'x'.repeat(129) }));
+      await assertFails(update('owner', { nextOccurrenceId: 42 }));
+    });
+
+    it('rejects moving a task to another workspace', async () => {
+      await seedWorkspace(env, 'elsewhere', { owner: 'owner' });
+      await assertFails(update('owner', { workspaceId: 'elsewhere' }));
+    });
+    describe('of tasks from before workspaces', () => {
+      beforeEach(async () => {
+        await seedWorkspace(env, 'outsider', { outsider: 'owner' }, { personal: true });
+        await env.withSecurityRulesDisabled(async (context) => {
+          const task: Record<string, unknown> = {
+            ...buildTaskData({ userId: 'outsider', createdBy: 'outsider' }),
+            createdAt: '2026-01-01T09:00:00.000Z',
+            updatedAt: Timestamp.now()
+          };
+          delete task.workspaceId;
+          await setDoc(doc(context.firestore(), 'tasks', 'legacy'), task);
+        });
+      });
+
+      const moveLegacy = (workspaceId: string) =>
+        updateDoc(doc(firestoreAs('outsider'), 'tasks', 'legacy'), { updatedAt: serverTimestamp(), workspaceId });
+
+      it('lets their creator move them into their personal workspace', async () => {
+        await assertSucceeds(moveLegacy('outsider'));
+      });
+
+      it("rejects moving them into a workspace the creator can't edit", async () => {
+        await assertFails(moveLegacy('team'));
+        await assertFails(moveLegacy('nowhere'));
+      });
+    });
+  });
+
+  describe('task reads and deletes', () => {
+    it('lets every member read, and nobody else', async () => {
+      await assertSucceeds(getDoc(taskRef('viewer')));
+      await assertFails(getDoc(taskRef('stranger')));
+    });
+
+    it('stops creators reading their tasks once they leave the workspace', async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'tasks', 'by-editor'), {
+          ...buildTaskData({ userId: 'editor', createdBy: 'editor', workspaceId: 'team' }),
+          createdAt: '2026-10-01T09:00:00.000Z',
+          updatedAt: Timestamp.now()
+        });
+      });
+      await seedWorkspace(env, 'team', { owner: 'owner', viewer: 'viewer' });
+
+      await assertFails(getDoc(doc(firestoreAs('editor'), 'tasks', 'by-editor')));
+      await assertFails(getDocs(query(collection(firestoreAs('editor'), 'tasks'), where('userId', '==', 'editor'))));
+    });
+
+    it('lets only owners and editors delete', async () => {
+      await assertFails(deleteDoc(taskRef('viewer')));
+      await assertFails(deleteDoc(taskRef('stranger')));
+      await assertSucceeds(deleteDoc(taskRef('editor')));
+    });
+  });
+
+  describe('trash', () => {
+    const trashed = (deletedBy: string) => ({
+      ...newTask('owner'),
+      updatedAt: Timestamp.now(),
+      deletedAt: '2026-10-19T09:00:00.000Z',
+      deletedBy,
+      expiresAt: Timestamp.fromDate(new Date('2026-11-18T09:00:00.000Z'))
+    });
+
+    it('lets editors trash tasks in their own name', async () => {
+      await assertSucceeds(setDoc(doc(firestoreAs('editor'), 'trash', 'task'), trashed('editor')));
+      await assertFails(setDoc(doc(firestoreAs('editor'), 'trash', 'other'), trashed('owner')));
+    });
+
+    it('rejects viewers and non-members', async () => {
+      await assertFails(setDoc(doc(firestoreAs('viewer'), 'trash', 'task'), trashed('viewer')));
+      await assertFails(setDoc(doc(firestoreAs('stranger'), 'trash', 'task'), trashed('stranger')));
+    });
+  });
+
+  describe('activity log', () => {
+    const entry = (uid: string, workspaceId = 'team') => ({
+      type: 'deleted',
+      changes: [],
+      timestamp: '2026-10-19T09:00:00.000Z',
+      userId: uid,
+      taskId: 'task',
+      workspaceId,
+      title: 'Write the report'
+    });
+    const entryRef = (uid: string) => doc(collection(firestoreAs(uid), 'activityLog'));
+
+    it('lets owners and editors log in their own name', async () => {
+      await assertSucceeds(setDoc(entryRef('owner'), entry('owner')));
+      await assertSucceeds(setDoc(entryRef('editor'), entry('editor')));
+      await assertFails(setDoc(entryRef('editor'), entry('owner')));
+    });
+
+    it('rejects viewers, non-members and entries without a workspace', async () => {
+      await assertFails(setDoc(entryRef('viewer'), entry('viewer')));
+      await assertFails(setDoc(entryRef('stranger'), entry('stranger')));
+      await assertFails(setDoc(entryRef('owner'), { ...entry('owner'), workspaceId: null }));
+    });
+  });
+
+  describe('invites', () => {
+    const inviteRef = (uid: string, emailVerified = true) =>
+      doc(firestoreAs(uid, emailVerified), 'workspaces', 'team', 'invites', 'friend@example.com');
+    const join = (uid: string, emailVerified = true) =>
+      updateDoc(doc(firestoreAs(uid, emailVerified), 'workspaces', 'team'), {
+        'members.friend': 'editor',
+        'memberEmails.friend': 'friend@example.com',
+        memberIds: ['owner', 'editor', 'viewer', 'friend']
+      });
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'workspaces', 'team', 'invites', 'friend@example.com'), {
+          email: 'friend@example.com',
+          role: 'editor',
+          workspaceId: 'team',
+          workspaceName: 'Team',
+          invitedBy: 'owner',
+          createdAt: '2026-10-19T09:00:00.000Z'
+        });
+      });
+    });
+
+    it('lets the invited address read and accept the invite', async () => {
+      await assertSucceeds(getDoc(inviteRef('friend')));
+      await assertSucceeds(join('friend'));
+    });
+
+    it('rejects accounts that have not verified the address', async () => {
+      await assertFails(getDoc(inviteRef('friend', false)));
+      await assertFails(
+        getDocs(query(collectionGroup(firestoreAs('friend', false), 'invites'), where('email', '==', 'friend@example.com')))
+      );
+      await assertFails(deleteDoc(inviteRef('friend', false)));
+      await assertFails(join('friend', false));
+    });
+  });
+
+  describe('profiles', () => {
+    const profile = (uid: string) => ({
+      uid,
+      displayName: uid,
+      email: `${uid}@example.com`,
+      photoURL: null,
+      updatedAt: '2026-10-19T09:00:00.000Z'
+    });
+    const copyRef = (uid: string, memberId: string) => doc(firestoreAs(uid), 'workspaces', 'team', 'members', memberId);
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'users', 'editor'), profile('editor'));
+        await setDoc(doc(context.firestore(), 'workspaces', 'team', 'members', 'editor'), profile('editor'));
+      });
+    });
+
+    it('lets users read and write only their own profile', async () => {
+      await assertSucceeds(getDoc(doc(firestoreAs('editor'), 'users', 'editor')));
+      await assertSucceeds(setDoc(doc(firestoreAs('viewer'), 'users', 'viewer'), profile('viewer')));
+      await assertFails(getDoc(doc(firestoreAs('owner'), 'users', 'editor')));
+      await assertFails(setDoc(doc(firestoreAs('owner'), 'users', 'editor'), profile('editor')));
+    });
+
+    it('never lists profiles', async () => {
+      await assertFails(getDocs(collection(firestoreAs('owner'), 'users')));
+      await assertFails(getDocs(query(collection(firestoreAs('editor'), 'users'), where('uid', '==', 'editor'))));
+    });
+
+    it("shares the copies with the workspace's members only", async () => {
+      await assertSucceeds(getDoc(copyRef('viewer', 'editor')));
+      await assertSucceeds(getDocs(collection(firestoreAs('owner'), 'workspaces', 'team', 'members')));
+      await assertFails(getDoc(copyRef('stranger', 'editor')));
+      await assertFails(getDocs(collection(firestoreAs('stranger'), 'workspaces', 'team', 'members')));
+    });
+
+    it('lets members write only their own copy', async () => {
+      await assertSucceeds(setDoc(copyRef('viewer', 'viewer'), profile('viewer')));
+      await assertFails(setDoc(copyRef('viewer', 'editor'), profile('viewer')));
+      await assertFails(setDoc(copyRef('viewer', 'viewer'), profile('editor')));
+      await assertFails(setDoc(copyRef('stranger', 'stranger'), profile('stranger')));
+    });
+
+    it('lets owners and the member delete a copy', async () => {
+      await assertFails(deleteDoc(copyRef('viewer', 'editor')));
+      await assertSucceeds(deleteDoc(copyRef('owner', 'editor')));
+      await assertSucceeds(deleteDoc(copyRef('viewer', 'viewer')));
+    });
+  });
+});
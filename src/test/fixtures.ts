@@ -0,0 +1,57 @@
+import { User } from '@firebase/auth';
+import { useAuthStore } from '../store/authStore';
+import { useWorkspaceStore } from '../store/workspaceStore';
+import { Task } from '../types/task';
+import { Workspace, WorkspaceRole } from '../types/workspace';
+
+// A task as addTask takes it
+export type TaskData = Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const buildTaskData = (overrides: Partial<TaskData> = {}): TaskData => ({
+  title: 'Write the report',
+  description: '',
+  category: 'Work',
+  status: 'Todo',
+  priority: 'Medium',
+  dueDate: '2026-11-02',
+  activities: [],
+  subtasks: [],
+  attachments: [],
+  assigneeIds: [],
+  reminders: [],
+  recurrence: null,
+  createdBy: 'user-1',
+  userId: 'user-1',
+  workspaceId: 'workspace-1',
+  ...overrides
+});
+
+export const buildTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: null,
+  ...buildTaskData(),
+  ...overrides
+});
+
+// Only the fields the app reads from a signed-in user
+export const signInAs = (uid = 'user-1') => {
+  const user = { uid, isAnonymous: false, email: `${uid}@example.com`, displayName: uid } as User;
+  useAuthStore.setState({ user, isGuest: false, loading: false });
+  return user;
+};
+
+export const buildWorkspace = (id: string, members: Record<string, WorkspaceRole>): Workspace => ({
+  id,
+  name: 'Team',
+  members,
+  memberIds: Object.keys(members),
+  memberEmails: {},
+  personal: false,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  createdBy: Object.keys(members)[0]
+});
+
+export const openWorkspace = (workspaceId = 'workspace-1', members: Record<string, WorkspaceRole> = { 'user-1': 'owner' }) => {
+  useWorkspaceStore.setState({ activeWorkspaceId: workspaceId, workspaces: [buildWorkspace(workspaceId, members)] });
+};
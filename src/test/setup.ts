@@ -0,0 +1,12 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
+
+// Not implemented by jsdom
+window.scrollTo = () => {};
+Element.prototype.scrollIntoView = () => {};
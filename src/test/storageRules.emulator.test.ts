@@ -0,0 +1,77 @@
+import { assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { deleteObject, getMetadata, ref, uploadBytes } from '@firebase/storage';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { createTestEnvironment, seedWorkspace, TestEnvironment } from './emulators';
+
+describe('storage.rules', () => {
+  let env: TestEnvironment;
+
+  const storageAs = (uid: string) => env.authenticatedContext(uid).storage();
+  const attachmentPath = 'workspaces/team/tasks/task/notes.txt';
+  const notes = new TextEncoder().encode('Meeting notes');
+
+  const upload = (uid: string, path: string, data = notes, contentType = 'text/plain') =>
+    uploadBytes(ref(storageAs(uid), path), data, { contentType });
+
+  beforeAll(async () => {
+    env = await createTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.clearStorage();
+    await seedWorkspace(env, 'team', { owner: 'owner', editor: 'editor', viewer: 'viewer' });
+    await env.withSecurityRulesDisabled(async (context) => {
+      await uploadBytes(ref(context.storage(), attachmentPath), notes, { contentType: 'text/plain' });
+      await uploadBytes(ref(context.storage(), 'users/owner/tasks/task/old.txt'), notes, { contentType: 'text/plain' });
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  describe('workspace attachments', () => {
+    it('lets every member read them, and nobody else', async () => {
+      await assertSucceeds(getMetadata(ref(storageAs('viewer'), attachmentPath)));
+      await assertFails(getMetadata(ref(storageAs('stranger'), attachmentPath)));
+      await assertFails(getMetadata(ref(env.unauthenticatedContext().storage(), attachmentPath)));
+    });
+
+    it('lets owners and editors upload', async () => {
+      await assertSucceeds(upload('owner', 'workspaces/team/tasks/task/a.txt'));
+      await assertSucceeds(upload('editor', 'workspaces/team/tasks/task/b.png', notes, 'image/png'));
+    });
+
+    it('rejects uploads from viewers and non-members', async () => {
+      await assertFails(upload('viewer', 'workspaces/team/tasks/task/a.txt'));
+      await assertFails(upload('stranger', 'workspaces/team/tasks/task/a.txt'));
+    });
+
+    it('rejects files of other types or over 10 MB', async () => {
+      await assertFails(upload('owner', 'workspaces/team/tasks/task/run.sh', notes, 'application/x-sh'));
+      await assertFails(upload('owner', 'workspaces/team/tasks/task/big.txt', new Uint8Array(10 * 1024 * 1024)));
+    });
+
+    it('lets only owners and editors delete', async () => {
+      await assertFails(deleteObject(ref(storageAs('viewer'), attachmentPath)));
+      await assertFails(deleteObject(ref(storageAs('stranger'), attachmentPath)));
+      await assertSucceeds(deleteObject(ref(storageAs('editor'), attachmentPath)));
+    });
+  });
+
+  describe('attachments from before workspaces', () => {
+    const legacyPath = 'users/owner/tasks/task/old.txt';
+
+    it('are only readable and deletable by their user', async () => {
+      await assertFails(getMetadata(ref(storageAs('editor'), legacyPath)));
+      await assertFails(deleteObject(ref(storageAs('editor'), legacyPath)));
+      await assertSucceeds(getMetadata(ref(storageAs('owner'), legacyPath)));
+      await assertSucceeds(deleteObject(ref(storageAs('owner'), legacyPath)));
+    });
+
+    it('can no longer be uploaded', async () => {
+      await assertFails(upload('owner', 'users/owner/tasks/task/new.txt'));
+    });
+  });
+});
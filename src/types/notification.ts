@@ -0,0 +1,25 @@
+export type NotificationType = 'reminder' | 'overdue';
+
+// In-app notification stored at users/{uid}/notifications/{id}. Ids are
+// derived from what triggered them, so every tab and device writes the same
+// document instead of a duplicate.
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  taskId: string | null;
+  workspaceId: string | null;
+  createdAt: string;
+  read: boolean;
+}
+
+// Stored at users/{uid}/settings/notifications, readable only by its owner
+export interface NotificationPreferences {
+  // Show Web Notifications as well as the in-app ones, once permission is granted
+  browserNotifications: boolean;
+  reminders: boolean;
+  overdueSummary: boolean;
+  // 'HH:mm' that 'beforeDue' reminders count back from when a task has no due time
+  defaultReminderTime: string;
+}
@@ -1,13 +1,75 @@
+import { Timestamp } from 'firebase/firestore';
+
 export type TaskStatus = 'Todo' | 'In-Progress' | 'Completed';
 export type TaskCategory = 'Work' | 'Personal';
 export type TaskPriority = 'Low' | 'Medium' | 'High';
 
+export type TaskActivityType = 'created' | 'updated' | 'deleted' | 'restored';
+
+export type TrackedTaskField =
+  | 'title'
+  | 'status'
+  | 'category'
+  | 'priority'
+  | 'dueDate'
+  | 'description'
+  | 'attachments'
+  | 'subtasks'
+  | 'assigneeIds';
+
+export interface TaskFieldChange {
+  field: TrackedTaskField;
+  from: string | string[] | null;
+  to: string | string[] | null;
+}
+
 export interface TaskActivity {
-  action: string;
-  timestamp: Date;
+  type: TaskActivityType;
+  changes: TaskFieldChange[];
+  timestamp: string;
   userId: string;
 }
 
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Modelled on RFC 5545 RRULE: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // 0 (Sunday) to 6 (Saturday), weekly rules only
+  weekdays?: number[];
+  // 1 to 31, clamped to the length of the month, monthly rules only
+  monthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+// Reminders fire relative to the due date, on a day before it at a time of
+// day, or at a fixed local time ("yyyy-MM-dd'T'HH:mm")
+export type TaskReminderRule =
+  | { type: 'beforeDue'; minutes: number }
+  | { type: 'timeOfDay'; daysBefore: number; time: string }
+  | { type: 'custom'; at: string };
+
+export type TaskReminder = TaskReminderRule & { id: string };
+
+export interface TaskAttachment {
+  id: string;
+  name: string;
+  path: string;
+  url: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -16,18 +78,56 @@ export interface Task {
   status: TaskStatus;
   priority: TaskPriority;
   dueDate: string;
-  attachments?: string[];
+  attachments?: TaskAttachment[];
   activities: TaskActivity[];
+  subtasks?: Subtask[];
+  recurrence?: TaskRecurrence | null;
+  // Id of the first task in a recurring series and this task's 1-based position in it
+  seriesId?: string;
+  occurrence?: number;
+  // Set once the following occurrence has been generated, so it is only created once
+  nextOccurrenceId?: string | null;
+  reminders?: TaskReminder[];
+  // Fractional rank within the task's status column, lower comes first
+  order?: number;
   createdAt: string;
-  updatedAt: string;
+  // Set by the server on every write, null while a local write is pending
+  updatedAt: Timestamp | null;
   createdBy: string;
   userId: string;
+  // Optional only for tasks written before workspaces, see workspaceStore
+  workspaceId?: string;
+  assigneeIds?: string[];
+  // When the assignees last changed
+  assignedAt?: string | null;
+}
+
+// A deleted task, kept in the trash collection until it expires
+export interface TrashedTask extends Task {
+  deletedAt: string;
+  deletedBy: string;
+  // Purged by the app when an editor loads the workspace or opens the trash
+  expiresAt: Timestamp;
 }
 
+export type DueDateFilter = 'overdue' | 'today' | 'week' | 'custom';
+export type AssignmentFilter = 'assignedToMe' | 'unassigned' | 'createdByMe';
+
 export interface TaskFilter {
   category?: TaskCategory;
   status?: TaskStatus;
   priority?: TaskPriority;
-  dueDate?: string;
+  dueDate?: DueDateFilter;
+  // Inclusive yyyy-MM-dd bounds, only used with the 'custom' due date filter
+  dueDateFrom?: string;
+  dueDateTo?: string;
+  assignment?: AssignmentFilter;
   searchQuery?: string;
 }
+
+export type BulkTaskAction =
+  | { type: 'status'; status: TaskStatus }
+  | { type: 'category'; category: TaskCategory }
+  | { type: 'priority'; priority: TaskPriority }
+  | { type: 'shiftDueDate'; days: number }
+  | { type: 'delete' };
@@ -0,0 +1,82 @@
+import { Task, TaskActivity, TaskAttachment, TaskFilter, TrashedTask } from './task';
+
+export type TaskBackend = 'firestore' | 'local' | 'memory' | 'rest';
+
+// A task as it is written, the backend sets updatedAt
+export type NewTask = Omit<Task, 'id' | 'updatedAt'>;
+
+// Position of a task in a query's results. Only meaningful to the
+// repository that handed it out.
+export type TaskCursor = unknown;
+
+export interface TaskQuery {
+  workspaceId: string;
+  filter: TaskFilter;
+  // The signed-in user, for the assignment filters
+  userId: string;
+}
+
+export interface TaskPageQuery extends TaskQuery {
+  startAfter?: TaskCursor;
+  // Inclusive, pins a page that is followed by another one
+  endAt?: TaskCursor;
+  limit?: number;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  // Cursor of the last task, null when the page is empty
+  lastCursor: TaskCursor | null;
+}
+
+export type TaskWrite =
+  | { type: 'create'; id: string; task: NewTask }
+  | {
+      type: 'update';
+      id: string;
+      fields: Partial<Task>;
+      // Appended to the stored lists, so concurrent writers don't drop each
+      // other's entries. The task keeps at most MAX_TASK_ACTIVITIES.
+      activity?: TaskActivity | null;
+      attachment?: TaskAttachment;
+      // Taken out of the stored list, for the same reason
+      removedAttachment?: TaskAttachment;
+    }
+  | { type: 'delete'; id: string }
+  // Moves a task into the trash, `activity` records the deletion
+  | { type: 'trash'; task: Task; deletedAt: string; deletedBy: string; expiresAt: Date; activity: TaskActivity }
+  // Moves a trashed task back, replacing the stored task
+  | { type: 'restore'; task: Task }
+  // Removes a task from the trash for good
+  | { type: 'purge'; id: string }
+  // Adds an entry to the workspace's activity log, which keeps the history
+  // tasks drop once their own list is full
+  | { type: 'log'; taskId: string; workspaceId: string; title: string; activity: TaskActivity };
+
+// Where tasks and the trash are stored. Tasks are ordered like the task list:
+// by due date first when the filter has a due date range, then newest first.
+export interface TaskRepository {
+  // Listens to one page of a query's results until the returned function is called
+  subscribe: (query: TaskPageQuery, onChange: (page: TaskPage) => void, onError: (error: Error) => void) => () => void;
+  list: (query: TaskQuery) => Promise<Task[]>;
+  get: (taskId: string) => Promise<Task | null>;
+  // Ids are picked before writing, so the task can be shown while it saves
+  createId: () => string;
+  create: (id: string, task: NewTask) => Promise<void>;
+  update: (id: string, fields: Partial<Task>, activity?: TaskActivity | null) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  // Each group is written atomically, a failed group may leave earlier ones written
+  batch: (groups: TaskWrite[][]) => Promise<void>;
+  // A workspace's open tasks that have reminders, whatever the task list shows
+  subscribeReminders: (workspaceId: string, onChange: (tasks: Task[]) => void, onError: (error: Error) => void) => () => void;
+  // One-off rewrites of tasks stored by older versions of the app. Only
+  // Firestore has such tasks, the other backends resolve right away.
+  migrateLegacyTasks: (userId: string) => Promise<void>;
+  migrateDueDates: (workspaceId: string) => Promise<void>;
+  // A workspace's trash, most recently deleted first
+  subscribeTrash: (
+    workspaceId: string,
+    onChange: (tasks: TrashedTask[]) => void,
+    onError: (error: Error) => void
+  ) => () => void;
+}
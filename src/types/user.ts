@@ -0,0 +1,9 @@
+// Profile stored at users/{uid}, written on every sign-in. The other members
+// of a workspace read its copy at workspaces/{workspaceId}/members/{uid}.
+export interface UserProfile {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+  updatedAt: string;
+}
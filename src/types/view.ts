@@ -0,0 +1,35 @@
+import { TaskFilter } from './task';
+
+export type ViewMode = 'list' | 'board' | 'calendar' | 'trash';
+
+export type TaskSortField = 'title' | 'priority' | 'dueDate' | 'status' | 'category' | 'createdAt' | 'updatedAt';
+export type SortDirection = 'asc' | 'desc';
+
+export type TaskGroupBy = 'status' | 'category' | 'priority' | 'dueDate' | 'none';
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: SortDirection;
+}
+
+// Everything that decides what the task page shows, mirrored in its URL
+export interface ViewState {
+  viewMode: ViewMode;
+  filter: TaskFilter;
+  searchQuery: string;
+  // Applied in order, later entries break ties. Empty keeps the manual order.
+  sort: TaskSort[];
+  // Groups of the list view, the board always groups by status
+  groupBy: TaskGroupBy;
+  // Keys of collapsed groups, see getGroupKey
+  collapsedGroups: string[];
+}
+
+// Stored at users/{uid}/views/{id}. The view is kept as the page's URL query
+// string, so a saved view opens exactly like a shared link.
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
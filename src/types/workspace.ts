@@ -0,0 +1,29 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // Role per member uid. memberIds mirrors its keys so workspaces can be
+  // queried with array-contains.
+  members: Record<string, WorkspaceRole>;
+  memberIds: string[];
+  // Email per member uid, shown in the member list
+  memberEmails: Record<string, string>;
+  // Every user has a personal workspace whose id is their uid
+  personal: boolean;
+  legacyTasksMigrated?: boolean;
+  // Set once every task's dueDate has been rewritten in the canonical format
+  dueDatesMigrated?: boolean;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Stored at workspaces/{workspaceId}/invites/{email}
+export interface WorkspaceInvite {
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  workspaceId: string;
+  workspaceName: string;
+  invitedBy: string;
+  createdAt: string;
+}
@@ -0,0 +1,38 @@
+import { FirebaseError } from '@firebase/util';
+
+// Messages for the Firebase Auth errors a user can do something about. Null
+// means the user cancelled and there is nothing to show.
+const MESSAGES: Record<string, string | null> = {
+  'auth/invalid-email': "That email address doesn't look right.",
+  'auth/missing-email': 'Enter your email address.',
+  'auth/missing-password': 'Enter your password.',
+  'auth/weak-password': 'Use a password with at least 6 characters.',
+  'auth/email-already-in-use': 'There is already an account with this email. Sign in instead.',
+  'auth/invalid-credential': 'Wrong email or password.',
+  'auth/wrong-password': 'Wrong email or password.',
+  'auth/user-not-found': 'Wrong email or password.',
+  'auth/user-disabled': 'This account has been disabled.',
+  'auth/too-many-requests': 'Too many attempts. Wait a moment and try again.',
+  'auth/network-request-failed': 'You appear to be offline. Check your connection and try again.',
+  'auth/invalid-action-code': 'This sign-in link has expired or was already used. Request a new one.',
+  'auth/expired-action-code': 'This sign-in link has expired. Request a new one.',
+  'auth/account-exists-with-different-credential':
+    'There is already an account with this email. Sign in with the method you used before.',
+  'auth/provider-already-linked': 'Your account is already connected to this sign-in method.',
+  'auth/admin-restricted-operation': "This sign-in method isn't enabled.",
+  'auth/operation-not-allowed': "This sign-in method isn't enabled.",
+  'auth/unauthorized-continue-uri': "Sign-in links aren't set up for this site.",
+  'auth/popup-closed-by-user': null,
+  'auth/cancelled-popup-request': null,
+  'auth/user-cancelled': null
+};
+
+export const getAuthErrorMessage = (error: unknown): string | null => {
+  if (error instanceof FirebaseError && error.code in MESSAGES) {
+    return MESSAGES[error.code];
+  }
+  return 'Something went wrong signing in. Please try again.';
+};
+
+export const hasAuthErrorCode = (error: unknown, ...codes: string[]) =>
+  error instanceof FirebaseError && codes.includes(error.code);
@@ -0,0 +1,32 @@
+import { BulkTaskAction, Task } from '../types/task';
+import { shiftDueDate } from './dueDate';
+
+// The field updates a bulk action makes to a single task
+export const getBulkUpdates = (task: Task, action: Exclude<BulkTaskAction, { type: 'delete' }>): Partial<Task> => {
+  switch (action.type) {
+    case 'status':
+      return { status: action.status };
+    case 'category':
+      return { category: action.category };
+    case 'priority':
+      return { priority: action.priority };
+    case 'shiftDueDate':
+      return { dueDate: shiftDueDate(task.dueDate, action.days) };
+  }
+};
+
+export const describeBulkAction = (action: BulkTaskAction, count: number) => {
+  const tasks = `${count} task${count !== 1 ? 's' : ''}`;
+  switch (action.type) {
+    case 'status':
+      return `Moved ${tasks} to ${action.status}`;
+    case 'category':
+      return `Set ${tasks} to ${action.category}`;
+    case 'priority':
+      return `Set ${tasks} to ${action.priority} priority`;
+    case 'shiftDueDate':
+      return `Shifted ${tasks} by ${action.days} day${Math.abs(action.days) !== 1 ? 's' : ''}`;
+    case 'delete':
+      return `Deleted ${tasks}`;
+  }
+};
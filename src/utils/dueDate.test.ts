@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getWeekRange, isDueToday, isOverdue, normalizeDueDate, shiftDueDate } from './dueDate';
+
+// UTC, a negative and a positive offset, one without whole hours, and zones
+// whose daylight saving time changes in 2026:
+// Los Angeles on Mar 8 (10:00Z) and Nov 1 (09:00Z), Berlin on Mar 29 and
+// Oct 25 (01:00Z), Auckland on Apr 5 and Sep 27 (14:00Z).
+const UTC = 'UTC';
+const LOS_ANGELES = 'America/Los_Angeles';
+const BERLIN = 'Europe/Berlin';
+const KOLKATA = 'Asia/Kolkata';
+const AUCKLAND = 'Pacific/Auckland';
+
+const at = (iso: string) => new Date(iso);
+const timestamp = (iso: string) => ({ toDate: () => at(iso) });
+
+describe('normalizeDueDate', () => {
+  it('keeps canonical due dates as they are in every zone', () => {
+    [UTC, LOS_ANGELES, KOLKATA].forEach((zone) => {
+      expect(normalizeDueDate('2026-11-02', zone)).toBe('2026-11-02');
+      expect(normalizeDueDate('2026-11-02T14:30', zone)).toBe('2026-11-02T14:30');
+    });
+  });
+
+  it('converts values with an offset to the wall clock of the zone', () => {
+    const value = '2026-11-02T23:30:00.000Z';
+    expect(normalizeDueDate(value, UTC)).toBe('2026-11-02T23:30');
+    expect(normalizeDueDate(value, LOS_ANGELES)).toBe('2026-11-02T15:30');
+    expect(normalizeDueDate(value, KOLKATA)).toBe('2026-11-03T05:00');
+    expect(normalizeDueDate(value, AUCKLAND)).toBe('2026-11-03T12:30');
+    expect(normalizeDueDate('2026-06-15T09:00:00+05:30', UTC)).toBe('2026-06-15T03:30');
+    expect(normalizeDueDate('2026-06-15T09:00-0700', BERLIN)).toBe('2026-06-15T18:00');
+  });
+
+  it('drops the time when it falls on midnight', () => {
+    expect(normalizeDueDate('2026-11-02T08:00:00.000Z', LOS_ANGELES)).toBe('2026-11-02');
+    expect(normalizeDueDate('2026-11-02T00:00:00.000Z', UTC)).toBe('2026-11-02');
+    expect(normalizeDueDate('2026-11-02T00:00:00.000Z', LOS_ANGELES)).toBe('2026-11-01T16:00');
+  });
+
+  it('converts Firestore timestamps', () => {
+    expect(normalizeDueDate(timestamp('2026-11-02T18:30:00.000Z'), KOLKATA)).toBe('2026-11-03');
+    expect(normalizeDueDate(timestamp('2026-11-02T18:45:00.000Z'), BERLIN)).toBe('2026-11-02T19:45');
+  });
+
+  it('follows the daylight saving time changes', () => {
+    // Los Angeles skips from 02:00 to 03:00
+    expect(normalizeDueDate(timestamp('2026-03-08T09:59:00.000Z'), LOS_ANGELES)).toBe('2026-03-08T01:59');
+    expect(normalizeDueDate(timestamp('2026-03-08T10:00:00.000Z'), LOS_ANGELES)).toBe('2026-03-08T03:00');
+    // Berlin goes through 02:00 to 03:00 twice
+    expect(normalizeDueDate('2026-10-25T00:30:00Z', BERLIN)).toBe('2026-10-25T02:30');
+    expect(normalizeDueDate('2026-10-25T01:30:00Z', BERLIN)).toBe('2026-10-25T02:30');
+    // Auckland skips from 02:00 to 03:00, a day after UTC
+    expect(normalizeDueDate('2026-09-26T13:59:00Z', AUCKLAND)).toBe('2026-09-27T01:59');
+    expect(normalizeDueDate('2026-09-26T14:00:00Z', AUCKLAND)).toBe('2026-09-27T03:00');
+  });
+
+  it('keeps the wall clock of date times without an offset', () => {
+    [UTC, LOS_ANGELES, AUCKLAND].forEach((zone) => {
+      expect(normalizeDueDate('2026-11-02T14:30:00', zone)).toBe('2026-11-02T14:30');
+      expect(normalizeDueDate('2026-11-02T14:30:00.000', zone)).toBe('2026-11-02T14:30');
+    });
+  });
+
+  it('reads the formats older versions wrote', () => {
+    expect(normalizeDueDate('02 Nov, 2026')).toBe('2026-11-02');
+    expect(normalizeDueDate('Nov 02, 2026')).toBe('2026-11-02');
+    expect(normalizeDueDate('11/02/2026')).toBe('2026-11-02');
+    expect(normalizeDueDate('  11/02/2026 ')).toBe('2026-11-02');
+  });
+
+  it('returns null for values it cannot read', () => {
+    expect(normalizeDueDate('next tuesday')).toBeNull();
+    expect(normalizeDueDate('')).toBeNull();
+    expect(normalizeDueDate(null)).toBeNull();
+    expect(normalizeDueDate(1793577600000)).toBeNull();
+    expect(normalizeDueDate('2026-13-45T10:00:00Z')).toBeNull();
+  });
+});
+
+describe('isOverdue', () => {
+  const open = (dueDate: string) => ({ dueDate, status: 'Todo' as const });
+
+  it('is overdue from the day after the due date in the given zone', () => {
+    const now = at('2026-11-03T05:00:00.000Z');
+    expect(isOverdue(open('2026-11-02'), now, UTC)).toBe(true);
+    expect(isOverdue(open('2026-11-02'), now, LOS_ANGELES)).toBe(false);
+    expect(isOverdue(open('2026-11-02'), now, KOLKATA)).toBe(true);
+    expect(isOverdue(open('2026-11-03'), now, AUCKLAND)).toBe(false);
+  });
+
+  it('is overdue once the due time has passed in the given zone', () => {
+    const now = at('2026-11-02T17:30:00.000Z');
+    expect(isOverdue(open('2026-11-02T18:00'), now, UTC)).toBe(false);
+    expect(isOverdue(open('2026-11-02T18:00'), now, BERLIN)).toBe(true);
+    expect(isOverdue(open('2026-11-02T18:00'), now, LOS_ANGELES)).toBe(false);
+    expect(isOverdue(open('2026-11-02T18:00'), now, KOLKATA)).toBe(true);
+  });
+
+  it('uses the wall clock across daylight saving time changes', () => {
+    // 03:15 on the day Los Angeles skips an hour
+    expect(isOverdue(open('2026-03-08T03:15'), at('2026-03-08T09:59:00.000Z'), LOS_ANGELES)).toBe(false);
+    expect(isOverdue(open('2026-03-08T03:15'), at('2026-03-08T10:10:00.000Z'), LOS_ANGELES)).toBe(false);
+    expect(isOverdue(open('2026-03-08T03:15'), at('2026-03-08T10:20:00.000Z'), LOS_ANGELES)).toBe(true);
+    // 23:30 on the day Auckland gains an hour, which is 10:30Z instead of 11:30Z
+    expect(isOverdue(open('2026-04-05T23:30'), at('2026-04-05T11:00:00.000Z'), AUCKLAND)).toBe(false);
+    expect(isOverdue(open('2026-04-05T23:30'), at('2026-04-05T11:45:00.000Z'), AUCKLAND)).toBe(true);
+  });
+
+  it('never reports completed tasks or unreadable dates', () => {
+    const now = at('2026-12-01T00:00:00.000Z');
+    expect(isOverdue({ dueDate: '2026-11-02', status: 'Completed' }, now, UTC)).toBe(false);
+    expect(isOverdue(open('soon'), now, UTC)).toBe(false);
+  });
+
+  it('reads legacy due dates', () => {
+    expect(isOverdue(open('11/02/2026'), at('2026-11-03T12:00:00.000Z'), UTC)).toBe(true);
+  });
+});
+
+describe('isDueToday', () => {
+  it('compares with today in the given zone', () => {
+    const lateInUtc = at('2026-11-02T23:30:00.000Z');
+    expect(isDueToday('2026-11-02', lateInUtc, UTC)).toBe(true);
+    expect(isDueToday('2026-11-02', lateInUtc, LOS_ANGELES)).toBe(true);
+    expect(isDueToday('2026-11-02', lateInUtc, KOLKATA)).toBe(false);
+
+    const earlyInUtc = at('2026-11-02T06:00:00.000Z');
+    expect(isDueToday('2026-11-02', earlyInUtc, LOS_ANGELES)).toBe(false);
+    expect(isDueToday('2026-11-02T21:00', earlyInUtc, AUCKLAND)).toBe(true);
+  });
+
+  it('counts the day the clocks change', () => {
+    // Berlin's Oct 25 has 25 hours, from 22:00Z the day before to 23:00Z
+    expect(isDueToday('2026-10-25', at('2026-10-24T22:00:00.000Z'), BERLIN)).toBe(true);
+    expect(isDueToday('2026-10-25', at('2026-10-25T22:59:00.000Z'), BERLIN)).toBe(true);
+    expect(isDueToday('2026-10-25', at('2026-10-25T23:00:00.000Z'), BERLIN)).toBe(false);
+  });
+
+  it('is false for unreadable dates', () => {
+    expect(isDueToday('', at('2026-11-02T12:00:00.000Z'), UTC)).toBe(false);
+  });
+});
+
+describe('getWeekRange', () => {
+  it('uses the week of today in the given zone', () => {
+    // Sunday in UTC, still Saturday in Los Angeles
+    const now = at('2026-11-01T03:00:00.000Z');
+    expect(getWeekRange(now, UTC)).toEqual({ from: '2026-11-01', to: '2026-11-07' });
+    expect(getWeekRange(now, KOLKATA)).toEqual({ from: '2026-11-01', to: '2026-11-07' });
+    expect(getWeekRange(now, LOS_ANGELES)).toEqual({ from: '2026-10-25', to: '2026-10-31' });
+  });
+
+  it('starts the week on Monday when asked', () => {
+    const now = at('2026-11-01T03:00:00.000Z');
+    expect(getWeekRange(now, UTC, 1)).toEqual({ from: '2026-10-26', to: '2026-11-01' });
+    expect(getWeekRange(now, LOS_ANGELES, 1)).toEqual({ from: '2026-10-26', to: '2026-11-01' });
+  });
+
+  it('spans the daylight saving time changes', () => {
+    // Just after midnight on Sunday in Auckland, the day its clocks go forward
+    const now = at('2026-09-26T12:30:00.000Z');
+    expect(getWeekRange(now, AUCKLAND)).toEqual({ from: '2026-09-27', to: '2026-10-03' });
+    expect(getWeekRange(now, UTC)).toEqual({ from: '2026-09-20', to: '2026-09-26' });
+    expect(getWeekRange(at('2026-10-25T12:00:00.000Z'), BERLIN, 1)).toEqual({ from: '2026-10-19', to: '2026-10-25' });
+  });
+});
+
+// Pure calendar arithmetic, so the result must not depend on the zone the
+// app runs in
+describe.each([UTC, LOS_ANGELES, BERLIN, KOLKATA, AUCKLAND])('shiftDueDate running in %s', (zone) => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('moves the day and keeps the time', () => {
+    vi.stubEnv('TZ', zone);
+    expect(shiftDueDate('2026-11-02', 1)).toBe('2026-11-03');
+    expect(shiftDueDate('2026-11-02T14:30', 7)).toBe('2026-11-09T14:30');
+    expect(shiftDueDate('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDueDate('2026-12-31T23:59', 1)).toBe('2027-01-01T23:59');
+  });
+
+  it('crosses the daylight saving time changes by whole days', () => {
+    vi.stubEnv('TZ', zone);
+    expect(shiftDueDate('2026-03-07T02:30', 1)).toBe('2026-03-08T02:30');
+    expect(shiftDueDate('2026-03-28', 2)).toBe('2026-03-30');
+    expect(shiftDueDate('2026-10-25T00:00', -1)).toBe('2026-10-24T00:00');
+    expect(shiftDueDate('2026-09-26', 1)).toBe('2026-09-27');
+    expect(shiftDueDate('2026-04-05T02:30', 0)).toBe('2026-04-05T02:30');
+  });
+
+  it('normalizes legacy dates and leaves unreadable ones alone', () => {
+    vi.stubEnv('TZ', zone);
+    expect(shiftDueDate('11/02/2026', 1)).toBe('2026-11-03');
+    expect(shiftDueDate('someday', 1)).toBe('someday');
+  });
+});
@@ -0,0 +1,124 @@
+import { addDays, endOfWeek, format, isValid, parse, parseISO, startOfWeek } from 'date-fns';
+import { Task } from '../types/task';
+
+// Due dates are stored as a local calendar date, 'yyyy-MM-dd', optionally with
+// a wall clock time, "yyyy-MM-dd'T'HH:mm". Neither carries an offset: a task
+// due on the 3rd is due on the 3rd wherever it is viewed, and plain string
+// comparison (including Firestore range queries) orders them correctly.
+export const DUE_DATE_FORMAT = 'yyyy-MM-dd';
+export const DUE_DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/;
+// Formats older versions of the app wrote, e.g. the edit modal's 'dd MMM, yyyy'
+const LEGACY_FORMATS = ['dd MMM, yyyy', 'MMM dd, yyyy', 'MM/dd/yyyy'];
+
+export const isCanonicalDueDate = (value: string) => DATE_ONLY.test(value) || DATE_TIME.test(value);
+
+export const buildDueDate = (day: string, time?: string | null) => (time ? `${day}T${time}` : day);
+
+export const getDueDay = (dueDate: string) => dueDate.slice(0, 10);
+
+export const getDueTime = (dueDate: string) => (DATE_TIME.test(dueDate) ? dueDate.slice(11, 16) : null);
+
+// Calendar date and wall clock time of an instant in a time zone, the
+// browser's own by default
+export const getZonedNow = (now = new Date(), timeZone?: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    })
+      .formatToParts(now)
+      .map(({ type, value }) => [type, value])
+  );
+  return { day: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+const fromInstant = (instant: Date, timeZone?: string) => {
+  if (!isValid(instant)) return null;
+  const { day, time } = getZonedNow(instant, timeZone);
+  return buildDueDate(day, time === '00:00' ? null : time);
+};
+
+// Converts any due date the app has stored into the canonical format, or
+// null when it can't be read. Values with an offset describe an instant and
+// are converted to the wall clock of the given time zone.
+export const normalizeDueDate = (value: unknown, timeZone?: string): string | null => {
+  if (value && typeof value === 'object' && 'toDate' in value && typeof value.toDate === 'function') {
+    return fromInstant(value.toDate(), timeZone);
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const trimmed = value.trim();
+  if (isCanonicalDueDate(trimmed)) return trimmed;
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(trimmed)) {
+    return HAS_OFFSET.test(trimmed)
+      ? fromInstant(new Date(trimmed), timeZone)
+      : buildDueDate(getDueDay(trimmed), trimmed.slice(11, 16));
+  }
+  for (const pattern of LEGACY_FORMATS) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, DUE_DATE_FORMAT);
+  }
+  return null;
+};
+
+// Local Date for display and calendar arithmetic
+export const parseDueDate = (dueDate: string) => parseISO(normalizeDueDate(dueDate) ?? '');
+
+export const toDueDate = (date: Date) => format(date, DUE_DATE_FORMAT);
+
+export const addDaysToDay = (day: string, days: number) => toDueDate(addDays(parseISO(day), days));
+
+// Moves a due date by whole days, keeping its time
+export const shiftDueDate = (dueDate: string, days: number) => {
+  const normalized = normalizeDueDate(dueDate);
+  if (!normalized) return dueDate;
+  return buildDueDate(addDaysToDay(getDueDay(normalized), days), getDueTime(normalized));
+};
+
+export const formatDueDate = (dueDate: string, pattern = 'MMM d, yyyy') => {
+  const normalized = normalizeDueDate(dueDate);
+  if (!normalized) return dueDate;
+  const date = parseISO(normalized);
+  return getDueTime(normalized) ? `${format(date, pattern)}, ${format(date, 'h:mm a')}` : format(date, pattern);
+};
+
+export const getToday = (now = new Date(), timeZone?: string) => getZonedNow(now, timeZone).day;
+
+export const getWeekRange = (now = new Date(), timeZone?: string, weekStartsOn: 0 | 1 = 0) => {
+  const today = parseISO(getToday(now, timeZone));
+  return {
+    from: toDueDate(startOfWeek(today, { weekStartsOn })),
+    to: toDueDate(endOfWeek(today, { weekStartsOn }))
+  };
+};
+
+// Completed tasks are never overdue. Tasks without a time are overdue from
+// the day after they are due, tasks with one as soon as it has passed.
+export const isOverdue = (task: Pick<Task, 'dueDate' | 'status'>, now = new Date(), timeZone?: string) => {
+  const dueDate = normalizeDueDate(task.dueDate);
+  if (!dueDate || task.status === 'Completed') return false;
+  const { day, time } = getZonedNow(now, timeZone);
+  return getDueTime(dueDate) ? dueDate < buildDueDate(day, time) : dueDate < day;
+};
+
+export const isDueToday = (dueDate: string, now = new Date(), timeZone?: string) => {
+  const normalized = normalizeDueDate(dueDate);
+  return normalized !== null && getDueDay(normalized) === getToday(now, timeZone);
+};
+
+export const isDueThisWeek = (dueDate: string, now = new Date(), timeZone?: string, weekStartsOn: 0 | 1 = 0) => {
+  const normalized = normalizeDueDate(dueDate);
+  if (!normalized) return false;
+  const { from, to } = getWeekRange(now, timeZone, weekStartsOn);
+  const day = getDueDay(normalized);
+  return day >= from && day <= to;
+};
@@ -0,0 +1,233 @@
+import { Timestamp } from 'firebase/firestore';
+import { describe, expect, it } from 'vitest';
+import { buildRecurrenceRule, countIcsTasks, escapeIcsText, foldIcsLine, getTaskLink, tasksToIcs } from './icalendar';
+import { buildTask } from '../test/fixtures';
+import { Task } from '../types/task';
+
+const APP_URL = 'https://taskbuddy.example';
+const NOW = new Date('2026-10-19T08:30:00.000Z');
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+// Unfolded content lines of a calendar
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+const componentOf = (ics: string, name: 'VTODO' | 'VEVENT') => {
+  const lines = unfold(ics);
+  return lines.slice(lines.indexOf(`BEGIN:${name}`), lines.indexOf(`END:${name}`) + 1);
+};
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+
+  it('leaves colons and quotes alone', () => {
+    expect(escapeIcsText('Call: "Anna"')).toBe('Call: "Anna"');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('keeps lines of up to 75 octets', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`;
+    expect(octets(line)).toBe(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds longer lines into 75 octet lines, counting the leading space', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldIcsLine(line);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(3);
+    lines.forEach((part) => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(octets(lines[0])).toBe(75);
+    expect(octets(lines[1])).toBe(75);
+    lines.slice(1).forEach((part) => expect(part.startsWith(' ')).toBe(true));
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('never splits a character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}🎉${'日本'.repeat(20)}`;
+    const lines = foldIcsLine(line).split('\r\n');
+
+    lines.forEach((part) => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+      expect(new TextDecoder('utf-8', { fatal: true }).decode(new TextEncoder().encode(part))).toBe(part);
+    });
+    expect(lines.map((part, index) => (index > 0 ? part.slice(1) : part)).join('')).toBe(line);
+  });
+});
+
+describe('buildRecurrenceRule', () => {
+  it('writes the frequency and interval', () => {
+    expect(buildRecurrenceRule({ frequency: 'daily', interval: 1 }, '2026-11-02')).toBe('RRULE:FREQ=DAILY');
+    expect(buildRecurrenceRule({ frequency: 'daily', interval: 2 }, '2026-11-02')).toBe('RRULE:FREQ=DAILY;INTERVAL=2');
+  });
+
+  it('sorts the weekdays and counts weeks from Sunday', () => {
+    expect(buildRecurrenceRule({ frequency: 'weekly', interval: 1, weekdays: [5, 1, 3] }, '2026-11-02')).toBe(
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR'
+    );
+    expect(buildRecurrenceRule({ frequency: 'weekly', interval: 2, weekdays: [0] }, '2026-11-02')).toBe(
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;WKST=SU;BYDAY=SU'
+    );
+  });
+
+  it('repeats monthly on the day of the due date, or the one set', () => {
+    expect(buildRecurrenceRule({ frequency: 'monthly', interval: 1 }, '2026-11-15')).toBe(
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=15'
+    );
+    expect(buildRecurrenceRule({ frequency: 'monthly', interval: 3, monthDay: 28 }, '2026-11-02')).toBe(
+      'RRULE:FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=28'
+    );
+  });
+
+  it('moves days after the 28th to the last day of shorter months', () => {
+    // The earlier of the day and the last day of the month
+    expect(buildRecurrenceRule({ frequency: 'monthly', interval: 1 }, '2026-01-31')).toBe(
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=31,-1;BYSETPOS=1'
+    );
+    expect(buildRecurrenceRule({ frequency: 'monthly', interval: 1, monthDay: 29 }, '2026-01-29T10:00')).toBe(
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=29,-1;BYSETPOS=1'
+    );
+  });
+
+  it('ends UNTIL with the same value type as the start', () => {
+    expect(buildRecurrenceRule({ frequency: 'daily', interval: 1, until: '2026-12-31' }, '2026-11-02')).toBe(
+      'RRULE:FREQ=DAILY;UNTIL=20261231'
+    );
+    expect(buildRecurrenceRule({ frequency: 'daily', interval: 1, until: '2026-12-31' }, '2026-11-02T09:30')).toBe(
+      'RRULE:FREQ=DAILY;UNTIL=20261231T235959'
+    );
+  });
+
+  it('counts the occurrences left from the given one', () => {
+    const rule = { frequency: 'weekly' as const, interval: 1, count: 5 };
+    expect(buildRecurrenceRule(rule, '2026-11-02')).toBe('RRULE:FREQ=WEEKLY;COUNT=5');
+    expect(buildRecurrenceRule(rule, '2026-11-02', 1)).toBe('RRULE:FREQ=WEEKLY;COUNT=5');
+    expect(buildRecurrenceRule(rule, '2026-11-02', 3)).toBe('RRULE:FREQ=WEEKLY;COUNT=3');
+    expect(buildRecurrenceRule(rule, '2026-11-02', 5)).toBe('RRULE:FREQ=WEEKLY;COUNT=1');
+    // Never fewer than the occurrence being exported
+    expect(buildRecurrenceRule(rule, '2026-11-02', 8)).toBe('RRULE:FREQ=WEEKLY;COUNT=1');
+  });
+
+  it('prefers UNTIL over COUNT', () => {
+    expect(buildRecurrenceRule({ frequency: 'daily', interval: 1, until: '2026-12-31', count: 3 }, '2026-11-02')).toBe(
+      'RRULE:FREQ=DAILY;UNTIL=20261231'
+    );
+  });
+});
+
+describe('tasksToIcs', () => {
+  const task = buildTask({
+    id: 'abc',
+    title: 'Send invoices, reminders; follow up',
+    description: 'Line one\nLine two',
+    dueDate: '2026-11-02T14:30',
+    priority: 'High',
+    status: 'In-Progress',
+    updatedAt: Timestamp.fromDate(new Date('2026-10-18T12:00:00.000Z'))
+  });
+
+  it('wraps the components in a calendar with CRLF line endings', () => {
+    const ics = tasksToIcs([task], { kind: 'todo', appUrl: APP_URL, calendarName: 'TaskBuddy: Team, Inc.', now: NOW });
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(unfold(ics).slice(0, 6)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//TaskBuddy//Tasks//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:TaskBuddy: Team\\, Inc.'
+    ]);
+    ics.split('\r\n').forEach((line) => expect(octets(line)).toBeLessThanOrEqual(75));
+  });
+
+  it('writes a VTODO with the status, priority and floating due time', () => {
+    expect(componentOf(tasksToIcs([task], { kind: 'todo', appUrl: APP_URL, now: NOW }), 'VTODO')).toEqual([
+      'BEGIN:VTODO',
+      'UID:task-abc@taskbuddy',
+      'DTSTAMP:20261019T083000Z',
+      'SUMMARY:Send invoices\\, reminders\\; follow up',
+      'DESCRIPTION:Line one\\nLine two\\n\\nhttps://taskbuddy.example/?task=abc',
+      'URL:https://taskbuddy.example/?task=abc',
+      'CATEGORIES:Work',
+      'CREATED:20261001T090000Z',
+      'LAST-MODIFIED:20261018T120000Z',
+      'DUE:20261102T143000',
+      'STATUS:IN-PROCESS',
+      'PRIORITY:1',
+      'END:VTODO'
+    ]);
+  });
+
+  it('writes all-day VEVENTs that block no time', () => {
+    const event = componentOf(tasksToIcs([task], { kind: 'event', appUrl: APP_URL, now: NOW }), 'VEVENT');
+    expect(event).toContain('UID:task-abc-due@taskbuddy');
+    expect(event).toContain('DTSTART;VALUE=DATE:20261102');
+    expect(event).toContain('DTEND;VALUE=DATE:20261103');
+    expect(event).toContain('TRANSP:TRANSPARENT');
+    expect(event.some((line) => line.startsWith('DUE') || line.startsWith('STATUS'))).toBe(false);
+  });
+
+  it('writes both components when asked', () => {
+    const lines = unfold(tasksToIcs([task], { kind: 'both', appUrl: APP_URL, now: NOW }));
+    expect(lines.filter((line) => line.startsWith('BEGIN:V') && line !== 'BEGIN:VCALENDAR')).toEqual([
+      'BEGIN:VTODO',
+      'BEGIN:VEVENT'
+    ]);
+  });
+
+  it('writes dates without a time as dates, and completed tasks as done', () => {
+    const done = buildTask({ id: 'done', dueDate: '2026-11-02', status: 'Completed', priority: 'Low' });
+    const todo = componentOf(tasksToIcs([done], { kind: 'todo', appUrl: APP_URL, now: NOW }), 'VTODO');
+    expect(todo).toContain('DUE;VALUE=DATE:20261102');
+    expect(todo).toContain('STATUS:COMPLETED');
+    expect(todo).toContain('PRIORITY:9');
+    expect(todo).toContain('PERCENT-COMPLETE:100');
+    expect(todo.some((line) => line.startsWith('LAST-MODIFIED'))).toBe(false);
+  });
+
+  it('puts the rule on the latest occurrence of a series only, counted from there', () => {
+    const recurrence = { frequency: 'monthly' as const, interval: 1, count: 6 };
+    const earlier = buildTask({ id: 'first', dueDate: '2026-10-31', recurrence, occurrence: 1, nextOccurrenceId: 'second' });
+    const latest = buildTask({ id: 'second', dueDate: '2026-11-30T09:00', recurrence, occurrence: 2, nextOccurrenceId: null });
+    const ics = tasksToIcs([earlier, latest], { kind: 'both', appUrl: APP_URL, now: NOW });
+    const rules = unfold(ics).filter((line) => line.startsWith('RRULE'));
+
+    expect(rules).toEqual([
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=30,-1;BYSETPOS=1;COUNT=5',
+      'RRULE:FREQ=MONTHLY;BYMONTHDAY=30,-1;BYSETPOS=1;COUNT=5'
+    ]);
+    // A VTODO only repeats with a DTSTART
+    const todo = unfold(ics).slice(unfold(ics).indexOf('UID:task-second@taskbuddy'));
+    expect(todo).toContain('DTSTART:20261130T090000');
+  });
+
+  it('leaves out tasks without a readable due date or outside the filter', () => {
+    const tasks: Task[] = [
+      buildTask({ id: 'a', category: 'Work', status: 'Todo' }),
+      buildTask({ id: 'b', category: 'Personal', status: 'Todo' }),
+      buildTask({ id: 'c', category: 'Work', status: 'Completed' }),
+      buildTask({ id: 'd', category: 'Work', status: 'Todo', dueDate: 'someday' }),
+      buildTask({ id: 'e', category: 'Work', status: 'Todo', dueDate: '11/02/2026' })
+    ];
+    const filter = { categories: ['Work' as const], statuses: ['Todo' as const] };
+    const uids = unfold(tasksToIcs(tasks, { kind: 'todo', appUrl: APP_URL, now: NOW, ...filter }))
+      .filter((line) => line.startsWith('UID'));
+
+    expect(uids).toEqual(['UID:task-a@taskbuddy', 'UID:task-e@taskbuddy']);
+    expect(countIcsTasks(tasks, filter)).toBe(2);
+    expect(countIcsTasks(tasks, {})).toBe(4);
+  });
+});
+
+describe('getTaskLink', () => {
+  it('links to the task from the app origin', () => {
+    expect(getTaskLink('https://taskbuddy.example/', 'a b/c')).toBe('https://taskbuddy.example/?task=a%20b%2Fc');
+  });
+});
@@ -0,0 +1,190 @@
+import { isValid } from 'date-fns';
+import { Task, TaskCategory, TaskPriority, TaskRecurrence, TaskStatus } from '../types/task';
+import { addDaysToDay, getDueDay, getDueTime, normalizeDueDate } from './dueDate';
+
+// RFC 5545 calendar of task due dates. Due dates have no time zone, so they
+// are written as dates or floating local times and show up on the same day
+// in every calendar, like they do in the app.
+
+export type IcsComponentKind = 'todo' | 'event' | 'both';
+
+export interface IcsOptions {
+  // VTODOs keep the status and priority, all-day VEVENTs show up in any calendar
+  kind: IcsComponentKind;
+  // Origin of the app, tasks link to `${appUrl}/?task=<id>`
+  appUrl: string;
+  // Only tasks in these categories and statuses, all of them when empty or unset
+  categories?: TaskCategory[];
+  statuses?: TaskStatus[];
+  calendarName?: string;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//TaskBuddy//Tasks//EN';
+const UID_DOMAIN = 'taskbuddy';
+// Octets, not counting the line break
+const MAX_LINE_LENGTH = 75;
+
+const STATUS_VALUES: Record<TaskStatus, string> = {
+  Todo: 'NEEDS-ACTION',
+  'In-Progress': 'IN-PROCESS',
+  Completed: 'COMPLETED'
+};
+
+// 1 is the highest priority, 9 the lowest
+const PRIORITY_VALUES: Record<TaskPriority, number> = { High: 1, Medium: 5, Low: 9 };
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Splits lines longer than 75 octets, continuation lines start with a space.
+// Characters are never split across lines.
+export const foldIcsLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose an octet to the leading space
+    if (length + size > MAX_LINE_LENGTH - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDay = (day: string) => day.replace(/-/g, '');
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// `NAME;VALUE=DATE:20261102` or floating `NAME:20261102T093000`
+const dateProperty = (name: string, dueDate: string) => {
+  const time = getDueTime(dueDate);
+  return time
+    ? `${name}:${formatDay(getDueDay(dueDate))}T${time.replace(':', '')}00`
+    : `${name};VALUE=DATE:${formatDay(getDueDay(dueDate))}`;
+};
+
+// Builds the RRULE of a series, starting from the task's occurrence. UNTIL
+// has to be of the same type as DTSTART, a date or a floating time.
+export const buildRecurrenceRule = (
+  rule: TaskRecurrence,
+  start: string,
+  occurrence = 1
+) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  // The app counts weeks from Sunday
+  if (rule.frequency === 'weekly' && rule.interval > 1) parts.push('WKST=SU');
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort().map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    const monthDay = rule.monthDay ?? Number(getDueDay(start).slice(8, 10));
+    // The app moves day 29 to 31 to the last day of shorter months, which
+    // RRULE would skip instead: take the earlier of that day and the last day
+    parts.push(monthDay > 28 ? `BYMONTHDAY=${monthDay},-1;BYSETPOS=1` : `BYMONTHDAY=${monthDay}`);
+  }
+  // The app stops at whichever end comes first, the editor only sets one
+  if (rule.until) {
+    parts.push(`UNTIL=${formatDay(rule.until)}${getDueTime(start) ? 'T235959' : ''}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${Math.max(rule.count - occurrence + 1, 1)}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+};
+
+export const getTaskLink = (appUrl: string, taskId: string) =>
+  `${appUrl.replace(/\/$/, '')}/?task=${encodeURIComponent(taskId)}`;
+
+type IcsFilter = Pick<IcsOptions, 'categories' | 'statuses'>;
+
+const matchesFilter = (task: Task, { categories, statuses }: IcsFilter) =>
+  (!categories?.length || categories.includes(task.category)) &&
+  (!statuses?.length || statuses.includes(task.status));
+
+const buildComponents = (task: Task, dueDate: string, options: IcsOptions, stamp: string) => {
+  const link = getTaskLink(options.appUrl, task.id);
+  const description = [task.description?.trim(), link].filter(Boolean).join('\n\n');
+  // Each occurrence of a series is its own task. Only the latest one carries
+  // the rule, or the earlier ones would repeat the series.
+  const rule = task.recurrence && !task.nextOccurrenceId ? task.recurrence : null;
+  const shared = [
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeIcsText(task.title)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `URL:${link}`,
+    `CATEGORIES:${escapeIcsText(task.category)}`,
+    ...(isValid(new Date(task.createdAt)) ? [`CREATED:${formatUtc(new Date(task.createdAt))}`] : []),
+    ...(task.updatedAt ? [`LAST-MODIFIED:${formatUtc(task.updatedAt.toDate())}`] : [])
+  ];
+
+  const components: string[][] = [];
+  if (options.kind !== 'event') {
+    components.push([
+      'BEGIN:VTODO',
+      `UID:task-${task.id}@${UID_DOMAIN}`,
+      ...shared,
+      // Recurrence is counted from DTSTART, which a VTODO may set equal to DUE
+      ...(rule ? [dateProperty('DTSTART', dueDate)] : []),
+      dateProperty('DUE', dueDate),
+      `STATUS:${STATUS_VALUES[task.status]}`,
+      `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+      ...(task.status === 'Completed' ? ['PERCENT-COMPLETE:100'] : []),
+      ...(rule ? [buildRecurrenceRule(rule, dueDate, task.occurrence)] : []),
+      'END:VTODO'
+    ]);
+  }
+  if (options.kind !== 'todo') {
+    const day = getDueDay(dueDate);
+    components.push([
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}-due@${UID_DOMAIN}`,
+      ...shared,
+      `DTSTART;VALUE=DATE:${formatDay(day)}`,
+      `DTEND;VALUE=DATE:${formatDay(addDaysToDay(day, 1))}`,
+      // Doesn't block the day in free/busy lookups
+      'TRANSP:TRANSPARENT',
+      ...(rule ? [buildRecurrenceRule(rule, day, task.occurrence)] : []),
+      'END:VEVENT'
+    ]);
+  }
+  return components.flat();
+};
+
+// A VCALENDAR with the tasks that have a readable due date
+export const tasksToIcs = (tasks: Task[], options: IcsOptions) => {
+  const stamp = formatUtc(options.now ?? new Date());
+  const components = tasks
+    .filter((task) => matchesFilter(task, options))
+    .flatMap((task) => {
+      const dueDate = normalizeDueDate(task.dueDate);
+      return dueDate ? buildComponents(task, dueDate, options, stamp) : [];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`] : []),
+    ...components,
+    'END:VCALENDAR'
+  ]
+    .map(foldIcsLine)
+    .join('\r\n') + '\r\n';
+};
+
+// Tasks that would end up in the calendar
+export const countIcsTasks = (tasks: Task[], filter: IcsFilter) =>
+  tasks.filter((task) => matchesFilter(task, filter) && normalizeDueDate(task.dueDate)).length;
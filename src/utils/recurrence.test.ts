@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildNextOccurrence, getNextDueDate } from './recurrence';
+import { buildTask } from '../test/fixtures';
+import { TaskRecurrence } from '../types/task';
+
+// UTC, a negative and a positive offset, one without whole hours, and zones
+// whose daylight saving time changes in 2026:
+// Los Angeles on Mar 8 and Nov 1, Berlin on Mar 29 and Oct 25, Auckland on
+// Apr 5 and Sep 27.
+const UTC = 'UTC';
+const LOS_ANGELES = 'America/Los_Angeles';
+const BERLIN = 'Europe/Berlin';
+const KOLKATA = 'Asia/Kolkata';
+const AUCKLAND = 'Pacific/Auckland';
+
+const daily = (interval = 1, rest: Partial<TaskRecurrence> = {}): TaskRecurrence =>
+  ({ frequency: 'daily', interval, ...rest });
+const weekly = (interval = 1, weekdays?: number[]): TaskRecurrence =>
+  ({ frequency: 'weekly', interval, weekdays });
+const monthly = (interval = 1, monthDay?: number): TaskRecurrence =>
+  ({ frequency: 'monthly', interval, monthDay });
+
+// Follows a series for the given number of occurrences
+const series = (rule: TaskRecurrence, dueDate: string, length: number) => {
+  const dates = [dueDate];
+  while (dates.length < length) {
+    const next = getNextDueDate(rule, dates[dates.length - 1], dates.length);
+    if (!next) break;
+    dates.push(next);
+  }
+  return dates;
+};
+
+// Due dates are wall-clock values, so a series must land on the same days
+// and times whichever zone the app runs in
+describe.each([UTC, LOS_ANGELES, BERLIN, KOLKATA, AUCKLAND])('getNextDueDate running in %s', (zone) => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('repeats every few days and keeps the time', () => {
+    vi.stubEnv('TZ', zone);
+    expect(getNextDueDate(daily(), '2026-11-02')).toBe('2026-11-03');
+    expect(getNextDueDate(daily(2), '2026-12-31T23:30')).toBe('2027-01-02T23:30');
+  });
+
+  it('repeats on the chosen weekdays', () => {
+    vi.stubEnv('TZ', zone);
+    // Nov 2 2026 is a Monday
+    expect(series(weekly(1, [1, 3, 5]), '2026-11-02', 5))
+      .toEqual(['2026-11-02', '2026-11-04', '2026-11-06', '2026-11-09', '2026-11-11']);
+    expect(series(weekly(1, [5, 1]), '2026-11-02T08:15', 3))
+      .toEqual(['2026-11-02T08:15', '2026-11-06T08:15', '2026-11-09T08:15']);
+  });
+
+  it('skips weeks for longer intervals', () => {
+    vi.stubEnv('TZ', zone);
+    expect(series(weekly(2, [1, 3]), '2026-11-02', 4))
+      .toEqual(['2026-11-02', '2026-11-04', '2026-11-16', '2026-11-18']);
+    expect(series(weekly(3, [0]), '2026-11-01', 3)).toEqual(['2026-11-01', '2026-11-22', '2026-12-13']);
+  });
+
+  it('repeats on the weekday of the due date when none are chosen', () => {
+    vi.stubEnv('TZ', zone);
+    expect(getNextDueDate(weekly(), '2026-11-02')).toBe('2026-11-09');
+    expect(getNextDueDate(weekly(2), '2026-12-28T17:00')).toBe('2027-01-11T17:00');
+  });
+
+  it('clamps the day of the month to shorter months', () => {
+    vi.stubEnv('TZ', zone);
+    expect(series(monthly(1, 31), '2026-01-31', 5))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31']);
+    expect(getNextDueDate(monthly(1, 31), '2028-01-31T09:00')).toBe('2028-02-29T09:00');
+    expect(getNextDueDate(monthly(1, 30), '2026-02-28')).toBe('2026-03-30');
+  });
+
+  it('moves to the chosen day of the month', () => {
+    vi.stubEnv('TZ', zone);
+    expect(getNextDueDate(monthly(1, 20), '2026-11-02')).toBe('2026-11-20');
+    expect(getNextDueDate(monthly(1, 20), '2026-11-20')).toBe('2026-12-20');
+    expect(getNextDueDate(monthly(3), '2026-11-15T10:00')).toBe('2027-02-15T10:00');
+  });
+
+  it('crosses the daylight saving time changes on the same wall-clock time', () => {
+    vi.stubEnv('TZ', zone);
+    expect(getNextDueDate(daily(), '2026-03-07T02:30')).toBe('2026-03-08T02:30');
+    expect(getNextDueDate(daily(), '2026-03-28T02:30')).toBe('2026-03-29T02:30');
+    expect(getNextDueDate(weekly(), '2026-03-01T02:30')).toBe('2026-03-08T02:30');
+    expect(getNextDueDate(weekly(1, [0]), '2026-10-19T01:30')).toBe('2026-10-25T01:30');
+    expect(getNextDueDate(weekly(), '2026-10-26T09:00')).toBe('2026-11-02T09:00');
+    expect(getNextDueDate(monthly(1, 27), '2026-08-27T02:30')).toBe('2026-09-27T02:30');
+    expect(getNextDueDate(daily(), '2026-04-04T02:30')).toBe('2026-04-05T02:30');
+  });
+});
+
+describe('getNextDueDate', () => {
+  it('ends the series after its last day', () => {
+    const rule = daily(1, { until: '2026-11-04' });
+    expect(series(rule, '2026-11-02', 10)).toEqual(['2026-11-02', '2026-11-03', '2026-11-04']);
+    expect(getNextDueDate({ ...weekly(), until: '2026-11-08' }, '2026-11-02')).toBeNull();
+    expect(getNextDueDate({ ...weekly(), until: '2026-11-09' }, '2026-11-02T23:59')).toBe('2026-11-09T23:59');
+  });
+
+  it('ends the series after its number of occurrences', () => {
+    const rule = daily(1, { count: 3 });
+    expect(series(rule, '2026-11-02', 10)).toEqual(['2026-11-02', '2026-11-03', '2026-11-04']);
+    expect(getNextDueDate(rule, '2026-11-02', 2)).toBe('2026-11-03');
+    expect(getNextDueDate(rule, '2026-11-02', 3)).toBeNull();
+    expect(getNextDueDate(daily(1, { count: 1 }), '2026-11-02')).toBeNull();
+  });
+
+  it('returns null for unreadable due dates', () => {
+    expect(getNextDueDate(daily(), 'someday')).toBeNull();
+  });
+});
+
+describe('buildNextOccurrence', () => {
+  it('copies the task to the next due date as a fresh occurrence', () => {
+    const task = buildTask({
+      id: 'task-1',
+      status: 'Completed',
+      dueDate: '2026-11-02T09:00',
+      recurrence: weekly(),
+      subtasks: [{ id: 'subtask-1', title: 'Outline', completed: true }],
+      reminders: [
+        { id: 'reminder-1', type: 'beforeDue', minutes: 30 },
+        { id: 'reminder-2', type: 'custom', at: '2026-11-01T18:00' }
+      ],
+      activities: [{ type: 'created', changes: [], timestamp: '2026-10-01T09:00:00.000Z', userId: 'user-1' }]
+    });
+
+    expect(buildNextOccurrence(task)).toMatchObject({
+      title: task.title,
+      status: 'Todo',
+      dueDate: '2026-11-09T09:00',
+      activities: [],
+      subtasks: [{ id: 'subtask-1', title: 'Outline', completed: false }],
+      reminders: [{ id: 'reminder-1', type: 'beforeDue', minutes: 30 }],
+      recurrence: weekly(),
+      seriesId: 'task-1',
+      occurrence: 2,
+      workspaceId: task.workspaceId
+    });
+  });
+
+  it('keeps the series of later occurrences', () => {
+    const task = buildTask({ id: 'task-3', recurrence: daily(), seriesId: 'task-1', occurrence: 3 });
+    expect(buildNextOccurrence(task)).toMatchObject({ seriesId: 'task-1', occurrence: 4, dueDate: '2026-11-03' });
+  });
+
+  it('returns null for tasks that do not repeat or whose series has ended', () => {
+    expect(buildNextOccurrence(buildTask())).toBeNull();
+    expect(buildNextOccurrence(buildTask({ recurrence: daily(1, { count: 3 }), occurrence: 3 }))).toBeNull();
+    expect(buildNextOccurrence(buildTask({ recurrence: daily(1, { until: '2026-11-02' }) }))).toBeNull();
+  });
+});
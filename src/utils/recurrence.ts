@@ -0,0 +1,115 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isValid,
+  parseISO,
+  setDate,
+  startOfMonth
+} from 'date-fns';
+import { Task, TaskRecurrence } from '../types/task';
+import { buildDueDate, getDueTime, parseDueDate, toDueDate } from './dueDate';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const nextWeekly = (from: Date, rule: TaskRecurrence) => {
+  const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+  // Worst case is the last weekday of the week followed by `interval` skipped weeks
+  for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+    const candidate = addDays(from, offset);
+    const weeksApart = differenceInCalendarWeeks(candidate, from);
+    if (weekdays.includes(candidate.getDay()) && weeksApart % rule.interval === 0) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+const nextMonthly = (from: Date, rule: TaskRecurrence) => {
+  const monthDay = rule.monthDay ?? from.getDate();
+  const inMonth = (month: Date) => setDate(month, Math.min(monthDay, getDaysInMonth(month)));
+
+  const sameMonth = inMonth(startOfMonth(from));
+  if (sameMonth > from) return sameMonth;
+  return inMonth(addMonths(startOfMonth(from), rule.interval));
+};
+
+// Due date of the occurrence after the given one, at the same time of day, or
+// null once the series has reached its end date or occurrence count.
+export const getNextDueDate = (
+  rule: TaskRecurrence,
+  dueDate: string,
+  occurrence = 1
+): string | null => {
+  if (rule.count && occurrence >= rule.count) return null;
+
+  const from = parseDueDate(dueDate);
+  if (!isValid(from)) return null;
+
+  let next: Date | null;
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(from, rule.interval);
+      break;
+    case 'weekly':
+      next = nextWeekly(from, rule);
+      break;
+    case 'monthly':
+      next = nextMonthly(from, rule);
+      break;
+    default:
+      next = null;
+  }
+  if (!next) return null;
+
+  const day = toDueDate(next);
+  if (rule.until && day > rule.until) return null;
+  return buildDueDate(day, getDueTime(dueDate));
+};
+
+// Fields for the task that follows a completed occurrence
+export const buildNextOccurrence = (task: Task): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> | null => {
+  if (!task.recurrence) return null;
+  const occurrence = task.occurrence ?? 1;
+  const dueDate = getNextDueDate(task.recurrence, task.dueDate, occurrence);
+  if (!dueDate) return null;
+
+  return {
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    status: 'Todo',
+    priority: task.priority,
+    dueDate,
+    activities: [],
+    subtasks: task.subtasks?.map((subtask) => ({ ...subtask, completed: false })),
+    recurrence: task.recurrence,
+    // Relative reminders follow the series, fixed-time ones stay with this task
+    reminders: task.reminders?.filter((reminder) => reminder.type !== 'custom'),
+    seriesId: task.seriesId ?? task.id,
+    occurrence: occurrence + 1,
+    createdBy: task.createdBy,
+    userId: task.userId,
+    workspaceId: task.workspaceId
+  };
+};
+
+export const describeRecurrence = (rule: TaskRecurrence) => {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    text += ` on ${[...rule.weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.frequency === 'monthly' && rule.monthDay) {
+    text += ` on day ${rule.monthDay}`;
+  }
+  if (rule.until) {
+    text += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  return text;
+};
@@ -0,0 +1,197 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Clock, REMINDER_CATCH_UP_MS, ScheduledReminder, createReminderScheduler } from './reminders';
+import { buildTask } from '../test/fixtures';
+import { Task, TaskReminder } from '../types/task';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Runs timers only when told to, in the order they are due
+const createFakeClock = (start: number) => {
+  let now = start;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++;
+      timers.set(handle, { at: now + ms, callback });
+      return handle;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    }
+  };
+
+  const advance = (ms: number) => {
+    const end = now + ms;
+    for (;;) {
+      const due = [...timers.entries()].filter(([, timer]) => timer.at <= end).sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = end;
+  };
+
+  return { clock, advance, pendingDelays: () => [...timers.values()].map((timer) => timer.at - now) };
+};
+
+// Reminder times are local wall clock times, so the tests use local dates too
+const local = (year: number, month: number, day: number, hours: number, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).getTime();
+
+const taskWith = (reminders: TaskReminder[], overrides: Partial<Task> = {}) =>
+  buildTask({ dueDate: '2026-11-02T10:00', reminders, ...overrides });
+
+describe('createReminderScheduler', () => {
+  let fired: Set<string>;
+  let onFire: ReturnType<typeof vi.fn<(reminder: ScheduledReminder) => void>>;
+
+  const setup = (start: number) => {
+    const fake = createFakeClock(start);
+    const scheduler = createReminderScheduler({
+      onFire,
+      hasFired: (key) => fired.has(key),
+      markFired: (key) => fired.add(key),
+      clock: fake.clock
+    });
+    return { ...fake, scheduler };
+  };
+
+  beforeEach(() => {
+    fired = new Set();
+    onFire = vi.fn();
+  });
+
+  it('fires a reminder when its time comes, not before', () => {
+    const { scheduler, advance } = setup(local(2026, 11, 2, 8, 30));
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 60 }])]);
+
+    advance(29 * MINUTE);
+    expect(onFire).not.toHaveBeenCalled();
+    advance(MINUTE);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(onFire.mock.calls[0][0]).toMatchObject({
+      taskId: 'task-1',
+      title: 'Write the report',
+      dueDate: '2026-11-02T10:00',
+      workspaceId: 'workspace-1',
+      fireAt: local(2026, 11, 2, 9)
+    });
+  });
+
+  it('fires every reminder of a task in turn', () => {
+    const { scheduler, advance } = setup(local(2026, 11, 1, 8));
+    scheduler.update([
+      taskWith([
+        { id: 'r1', type: 'beforeDue', minutes: 0 },
+        { id: 'r2', type: 'timeOfDay', daysBefore: 1, time: '09:00' },
+        { id: 'r3', type: 'custom', at: '2026-11-02T07:15' }
+      ])
+    ]);
+
+    advance(2 * HOUR);
+    expect(onFire.mock.calls.map(([reminder]) => reminder.key)).toEqual(['task-1_r2_20261101T0900']);
+    advance(22 * HOUR);
+    expect(onFire.mock.calls.map(([reminder]) => reminder.key)).toEqual([
+      'task-1_r2_20261101T0900',
+      'task-1_r3_20261102T0715'
+    ]);
+    advance(2 * HOUR);
+    expect(onFire).toHaveBeenCalledTimes(3);
+  });
+
+  it('uses the default time for due dates without one', () => {
+    const { scheduler, advance } = setup(local(2026, 11, 2, 7));
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 30 }], { dueDate: '2026-11-02' })], '08:00');
+
+    advance(29 * MINUTE);
+    expect(onFire).not.toHaveBeenCalled();
+    advance(MINUTE);
+    expect(onFire).toHaveBeenCalledTimes(1);
+  });
+
+  it('catches up on reminders missed within the last day', () => {
+    const { scheduler } = setup(local(2026, 11, 2, 12));
+    scheduler.update([
+      taskWith([{ id: 'recent', type: 'custom', at: '2026-11-02T09:00' }]),
+      taskWith([{ id: 'old', type: 'custom', at: '2026-11-01T11:00' }], { id: 'task-2' })
+    ]);
+
+    expect(onFire.mock.calls.map(([reminder]) => reminder.key)).toEqual(['task-1_recent_20261102T0900']);
+    expect(REMINDER_CATCH_UP_MS).toBe(24 * HOUR);
+  });
+
+  it('fires each reminder once, also after the tasks change', () => {
+    const { scheduler, advance } = setup(local(2026, 11, 2, 8, 59));
+    const task = taskWith([{ id: 'r1', type: 'beforeDue', minutes: 60 }]);
+    scheduler.update([task]);
+    advance(MINUTE);
+    scheduler.update([{ ...task, title: 'Write the report, v2' }]);
+    advance(HOUR);
+
+    expect(onFire).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips reminders another tab already fired', () => {
+    fired.add('task-1_r1_20261102T0900');
+    const { scheduler, advance } = setup(local(2026, 11, 2, 8));
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 60 }])]);
+    advance(2 * HOUR);
+
+    expect(onFire).not.toHaveBeenCalled();
+  });
+
+  it('schedules a new reminder when the due date moves', () => {
+    const { scheduler, advance } = setup(local(2026, 11, 2, 8, 59));
+    const task = taskWith([{ id: 'r1', type: 'beforeDue', minutes: 60 }]);
+    scheduler.update([task]);
+    advance(MINUTE);
+    scheduler.update([{ ...task, dueDate: '2026-11-02T11:00' }]);
+    advance(HOUR);
+
+    expect(onFire.mock.calls.map(([reminder]) => reminder.key)).toEqual([
+      'task-1_r1_20261102T0900',
+      'task-1_r1_20261102T1000'
+    ]);
+  });
+
+  it('leaves out completed tasks and tasks without a due date', () => {
+    const { scheduler, advance, pendingDelays } = setup(local(2026, 11, 2, 8));
+    scheduler.update([
+      taskWith([{ id: 'r1', type: 'beforeDue', minutes: 0 }], { status: 'Completed' }),
+      taskWith([{ id: 'r2', type: 'beforeDue', minutes: 0 }], { id: 'task-2', dueDate: '' })
+    ]);
+
+    expect(pendingDelays()).toEqual([]);
+    advance(4 * HOUR);
+    expect(onFire).not.toHaveBeenCalled();
+  });
+
+  it('keeps one timer and re-arms it at least every hour', () => {
+    const { scheduler, advance, pendingDelays } = setup(local(2026, 11, 2, 6));
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 30 }])]);
+    expect(pendingDelays()).toEqual([HOUR]);
+
+    advance(HOUR);
+    expect(pendingDelays()).toEqual([HOUR]);
+    advance(2 * HOUR);
+    expect(pendingDelays()).toEqual([30 * MINUTE]);
+
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 30 }])]);
+    expect(pendingDelays()).toEqual([30 * MINUTE]);
+  });
+
+  it('fires nothing once stopped', () => {
+    const { scheduler, advance, pendingDelays } = setup(local(2026, 11, 2, 8));
+    scheduler.update([taskWith([{ id: 'r1', type: 'beforeDue', minutes: 60 }])]);
+    scheduler.stop();
+
+    expect(pendingDelays()).toEqual([]);
+    advance(2 * HOUR);
+    expect(onFire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { addMinutes, format, parseISO } from 'date-fns';
+import { Task, TaskReminder, TaskReminderRule } from '../types/task';
+import { DUE_DATE_TIME_FORMAT, addDaysToDay, buildDueDate, formatDueDate, getDueDay, getDueTime, normalizeDueDate } from './dueDate';
+
+export const DEFAULT_REMINDER_TIME = '09:00';
+
+// Same limit as firestore.rules
+export const MAX_REMINDERS = 10;
+
+// Reminders missed while the app was closed still fire on the next load,
+// unless they are older than this
+export const REMINDER_CATCH_UP_MS = 24 * 60 * 60 * 1000;
+
+// Timers are re-armed at least this often, so a sleeping laptop or a changed
+// system clock can't delay a reminder by more than this
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export const REMINDER_PRESETS: { label: string; reminder: TaskReminderRule }[] = [
+  { label: 'At the due time', reminder: { type: 'beforeDue', minutes: 0 } },
+  { label: '1 hour before', reminder: { type: 'beforeDue', minutes: 60 } },
+  { label: '1 day before', reminder: { type: 'beforeDue', minutes: 24 * 60 } },
+  { label: 'On the due day at 9:00 AM', reminder: { type: 'timeOfDay', daysBefore: 0, time: '09:00' } },
+  { label: 'The day before at 9:00 AM', reminder: { type: 'timeOfDay', daysBefore: 1, time: '09:00' } }
+];
+
+export const hasReminders = (task: Task) => (task.reminders ?? []).length > 0;
+
+// Like the overdue summary, reminders only go to the task's assignees and its
+// creator, not to everyone in the workspace
+export const isReminderFor = (task: Task, userId: string) =>
+  task.createdBy === userId || (task.assigneeIds ?? []).includes(userId);
+
+export const createReminderId = () => Math.random().toString(36).substring(2, 9);
+
+// Local wall clock time the reminder fires at, in the due date format, or
+// null when the task has no usable due date
+export const getReminderTime = (dueDate: string, reminder: TaskReminder, defaultTime = DEFAULT_REMINDER_TIME) => {
+  if (reminder.type === 'custom') return normalizeDueDate(reminder.at);
+
+  const normalized = normalizeDueDate(dueDate);
+  if (!normalized) return null;
+  const day = getDueDay(normalized);
+
+  if (reminder.type === 'timeOfDay') {
+    return buildDueDate(addDaysToDay(day, -reminder.daysBefore), reminder.time);
+  }
+  const due = parseISO(buildDueDate(day, getDueTime(normalized) ?? defaultTime));
+  return format(addMinutes(due, -reminder.minutes), DUE_DATE_TIME_FORMAT);
+};
+
+export const describeReminder = (reminder: TaskReminder) => {
+  switch (reminder.type) {
+    case 'custom':
+      return formatDueDate(reminder.at);
+    case 'timeOfDay': {
+      const time = format(parseISO(`2000-01-01T${reminder.time}`), 'h:mm a');
+      if (reminder.daysBefore === 0) return `On the due day at ${time}`;
+      return `${reminder.daysBefore} day${reminder.daysBefore !== 1 ? 's' : ''} before at ${time}`;
+    }
+    case 'beforeDue': {
+      if (reminder.minutes === 0) return 'At the due time';
+      const [amount, unit] = reminder.minutes % (24 * 60) === 0
+        ? [reminder.minutes / (24 * 60), 'day']
+        : reminder.minutes % 60 === 0
+          ? [reminder.minutes / 60, 'hour']
+          : [reminder.minutes, 'minute'];
+      return `${amount} ${unit}${amount !== 1 ? 's' : ''} before`;
+    }
+  }
+};
+
+export interface ScheduledReminder {
+  // Includes the fire time, so moving the due date schedules a new reminder
+  key: string;
+  taskId: string;
+  title: string;
+  dueDate: string;
+  workspaceId: string | null;
+  fireAt: number;
+}
+
+export const getScheduledReminders = (tasks: Task[], defaultTime = DEFAULT_REMINDER_TIME): ScheduledReminder[] =>
+  tasks
+    .filter((task) => task.status !== 'Completed')
+    .flatMap((task) =>
+      (task.reminders ?? []).flatMap((reminder) => {
+        const time = getReminderTime(task.dueDate, reminder, defaultTime);
+        if (!time) return [];
+        return [{
+          key: `${task.id}_${reminder.id}_${time.replace(/[-:]/g, '')}`,
+          taskId: task.id,
+          title: task.title,
+          dueDate: task.dueDate,
+          workspaceId: task.workspaceId ?? null,
+          fireAt: parseISO(time).getTime()
+        }];
+      })
+    );
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number)
+};
+
+interface ReminderSchedulerOptions {
+  onFire: (reminder: ScheduledReminder) => void;
+  // Remembers fired reminders across reloads and tabs
+  hasFired: (key: string) => boolean;
+  markFired: (key: string) => void;
+  clock?: Clock;
+}
+
+// Keeps a single timer armed for the next reminder. Pass a fake clock to
+// drive it without waiting.
+export const createReminderScheduler = ({ onFire, hasFired, markFired, clock = systemClock }: ReminderSchedulerOptions) => {
+  let reminders: ScheduledReminder[] = [];
+  let timer: unknown = null;
+
+  const stop = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+  };
+
+  const run = () => {
+    timer = null;
+    const now = clock.now();
+    reminders
+      .filter((reminder) => reminder.fireAt <= now && reminder.fireAt > now - REMINDER_CATCH_UP_MS)
+      .filter((reminder) => !hasFired(reminder.key))
+      .forEach((reminder) => {
+        markFired(reminder.key);
+        onFire(reminder);
+      });
+
+    const next = Math.min(...reminders.filter((reminder) => reminder.fireAt > now).map((reminder) => reminder.fireAt));
+    if (Number.isFinite(next)) {
+      timer = clock.setTimeout(run, Math.min(next - now, MAX_TIMER_MS));
+    }
+  };
+
+  return {
+    update: (tasks: Task[], defaultTime?: string) => {
+      stop();
+      reminders = getScheduledReminders(tasks, defaultTime);
+      run();
+    },
+    stop
+  };
+};
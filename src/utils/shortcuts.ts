@@ -0,0 +1,52 @@
+export interface ShortcutBinding {
+  // Alternative key combinations, each pressed together
+  keys: string[][];
+  description: string;
+}
+
+// Shown by the "?" overlay. TaskView handles the keys themselves.
+export const SHORTCUTS: { group: string; bindings: ShortcutBinding[] }[] = [
+  {
+    group: 'General',
+    bindings: [
+      { keys: [['Ctrl/⌘', 'K']], description: 'Open the command palette' },
+      { keys: [['/']], description: 'Search tasks' },
+      { keys: [['c']], description: 'New task' },
+      { keys: [['Ctrl/⌘', 'Z']], description: 'Undo' },
+      { keys: [['Ctrl/⌘', 'Shift', 'Z']], description: 'Redo' },
+      { keys: [['?']], description: 'Show keyboard shortcuts' },
+      { keys: [['Esc']], description: 'Close or clear the focused task' }
+    ]
+  },
+  {
+    group: 'Navigation',
+    bindings: [
+      { keys: [['j'], ['↓']], description: 'Next task' },
+      { keys: [['k'], ['↑']], description: 'Previous task' },
+      { keys: [['←']], description: 'Previous column (board view)' },
+      { keys: [['→']], description: 'Next column (board view)' }
+    ]
+  },
+  {
+    group: 'Focused task',
+    bindings: [
+      { keys: [['1']], description: 'Move to Todo' },
+      { keys: [['2']], description: 'Move to In Progress' },
+      { keys: [['3']], description: 'Move to Completed' },
+      { keys: [['e'], ['Enter']], description: 'Edit' },
+      { keys: [['x']], description: 'Select or deselect' },
+      { keys: [['#']], description: 'Delete' }
+    ]
+  }
+];
+
+// Single-key shortcuts must not fire while the user is typing
+export const isTextInput = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return Boolean(
+    target.closest('textarea, select, [contenteditable="true"]') ||
+      (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit'].includes(target.type))
+  );
+};
+
+export const isModKey = (e: KeyboardEvent) => e.ctrlKey || e.metaKey;
@@ -0,0 +1,18 @@
+import { Subtask, Task } from '../types/task';
+
+export const createSubtask = (title: string): Subtask => ({
+  id: crypto.randomUUID(),
+  title,
+  completed: false
+});
+
+export const getSubtaskProgress = (task: Pick<Task, 'subtasks'>) => {
+  const subtasks = task.subtasks ?? [];
+  return {
+    done: subtasks.filter((subtask) => subtask.completed).length,
+    total: subtasks.length
+  };
+};
+
+export const areAllSubtasksDone = (subtasks: Subtask[]) =>
+  subtasks.length > 0 && subtasks.every((subtask) => subtask.completed);
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TASK_ACTIVITIES, appendActivity, createActivity } from './taskActivity';
+
+describe('appendActivity', () => {
+  const updates = (count: number) =>
+    Array.from({ length: count }, (_, index) => createActivity('updated', `user-${index}`));
+
+  it('appends while there is room', () => {
+    const activities = updates(3);
+    const activity = createActivity('updated', 'user-9');
+    expect(appendActivity(activities, activity)).toEqual([...activities, activity]);
+  });
+
+  it('drops the oldest entries once the list is full', () => {
+    const activities = updates(MAX_TASK_ACTIVITIES);
+    const activity = createActivity('updated', 'user-9');
+    expect(appendActivity(activities, activity)).toEqual([...activities.slice(1), activity]);
+  });
+
+  it('keeps the creation entry', () => {
+    const created = createActivity('created', 'user-1');
+    const activities = [created, ...updates(MAX_TASK_ACTIVITIES - 1)];
+    const activity = createActivity('updated', 'user-9');
+
+    const appended = appendActivity(activities, activity);
+    expect(appended).toHaveLength(MAX_TASK_ACTIVITIES);
+    expect(appended[0]).toBe(created);
+    expect(appended.slice(1)).toEqual([...activities.slice(2), activity]);
+  });
+});
@@ -0,0 +1,143 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Task, TaskActivity, TaskActivityType, TaskFieldChange, TrackedTaskField } from '../types/task';
+
+export const TRACKED_FIELDS: TrackedTaskField[] = [
+  'title',
+  'status',
+  'category',
+  'priority',
+  'dueDate',
+  'description',
+  'attachments',
+  'subtasks',
+  'assigneeIds'
+];
+
+// Tasks keep their creation and their latest activities, so the document
+// can't outgrow Firestore's size limit. The activity log keeps all of them.
+export const MAX_TASK_ACTIVITIES = 50;
+
+const FIELD_LABELS: Record<TrackedTaskField, string> = {
+  title: 'Title',
+  status: 'Status',
+  category: 'Category',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  description: 'Description',
+  attachments: 'Attachments',
+  subtasks: 'Checklist',
+  assigneeIds: 'Assignees'
+};
+
+type ChangeValue = TaskFieldChange['from'];
+
+const normalize = (value: unknown): ChangeValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) {
+    return value.map((item) => {
+      if (typeof item !== 'object' || !item) return String(item);
+      // Attachments are compared by file name, subtasks by title and state
+      if ('name' in item) return String(item.name);
+      if ('title' in item) return `${'completed' in item && item.completed ? '[x]' : '[ ]'} ${item.title}`;
+      return String(item);
+    });
+  }
+  return String(value);
+};
+
+const isEqual = (a: ChangeValue, b: ChangeValue) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((value, index) => value === b[index])
+    : a === b;
+
+// Compares the tracked fields of a task against a set of updates and returns
+// only the fields whose value actually changes.
+export const diffTask = (before: Partial<Task>, updates: Partial<Task>): TaskFieldChange[] =>
+  TRACKED_FIELDS
+    .filter((field) => field in updates)
+    .map((field) => ({
+      field,
+      from: normalize(before[field]),
+      to: normalize(updates[field])
+    }))
+    .filter((change) => !isEqual(change.from, change.to));
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  isEmptyValue(a) ? isEmptyValue(b) : JSON.stringify(a) === JSON.stringify(b);
+
+// The updates that actually change the task, tracked or not. Writing only
+// these keeps a save from overwriting what others changed meanwhile in the
+// fields it left alone.
+export const pickChangedFields = (before: Partial<Task>, updates: Partial<Task>): Partial<Task> =>
+  Object.fromEntries(
+    Object.entries(updates).filter(([field, value]) => !isSameValue(before[field as keyof Task], value))
+  );
+
+export const createActivity = (
+  type: TaskActivityType,
+  userId: string,
+  changes: TaskFieldChange[] = []
+): TaskActivity => ({
+  type,
+  changes,
+  timestamp: new Date().toISOString(),
+  userId
+});
+
+export const appendActivity = (activities: TaskActivity[], activity: TaskActivity): TaskActivity[] => {
+  const all = [...activities, activity];
+  if (all.length <= MAX_TASK_ACTIVITIES) return all;
+  const [first, ...rest] = all;
+  return first.type === 'created' ? [first, ...rest.slice(1 - MAX_TASK_ACTIVITIES)] : all.slice(-MAX_TASK_ACTIVITIES);
+};
+
+type NameResolver = (userId: string) => string | undefined;
+
+const formatValue = (value: ChangeValue) => {
+  if (value === null) return 'none';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : 'none';
+  return value;
+};
+
+const describeChange = ({ field, from, to }: TaskFieldChange, resolveName?: NameResolver) => {
+  const label = FIELD_LABELS[field];
+  // Descriptions and checklists are too long to inline, so only mention that they changed
+  if (field === 'description' || field === 'subtasks') return `${label} updated`;
+  if (field === 'assigneeIds' && resolveName) {
+    const toNames = (value: ChangeValue) =>
+      Array.isArray(value) ? value.map((userId) => resolveName(userId) ?? 'unknown user') : value;
+    from = toNames(from);
+    to = toNames(to);
+  }
+  if (from === null) return `${label} set to ${formatValue(to)}`;
+  if (to === null) return `${label} cleared`;
+  return `${label} changed from ${formatValue(from)} to ${formatValue(to)}`;
+};
+
+// Produces human readable lines such as
+// "Status changed from Todo to In-Progress by you, 2 hours ago".
+export const describeActivity = (
+  activity: TaskActivity,
+  currentUserId?: string,
+  resolveName?: NameResolver
+): string[] => {
+  const actor = activity.userId === currentUserId
+    ? 'you'
+    : resolveName?.(activity.userId) ?? 'another user';
+  const when = formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true });
+  const suffix = `by ${actor}, ${when}`;
+
+  switch (activity.type) {
+    case 'created':
+      return [`Task created ${suffix}`];
+    case 'deleted':
+      return [`Task deleted ${suffix}`];
+    case 'restored':
+      return [`Task restored from trash ${suffix}`];
+    default:
+      return activity.changes.map((change) => `${describeChange(change, resolveName)} ${suffix}`);
+  }
+};
@@ -0,0 +1,85 @@
+import { Task } from '../types/task';
+import { getToday } from './dueDate';
+
+// Bumped when the shape of exported tasks changes, so imports can tell
+export const EXPORT_VERSION = 1;
+
+export interface TaskExport {
+  version: number;
+  exportedAt: string;
+  tasks: ExportedTask[];
+}
+
+// A task as written to a file: the server timestamp becomes an ISO string
+export type ExportedTask = Omit<Task, 'updatedAt'> & { updatedAt: string | null };
+
+// Every Task field, in the order of the CSV columns. Lists and objects are
+// written as JSON inside their cell.
+export const CSV_COLUMNS: (keyof Task)[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'category',
+  'priority',
+  'dueDate',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'userId',
+  'workspaceId',
+  'assigneeIds',
+  'assignedAt',
+  'order',
+  'seriesId',
+  'occurrence',
+  'nextOccurrenceId',
+  'recurrence',
+  'reminders',
+  'subtasks',
+  'attachments',
+  'activities'
+];
+
+const toExportedTask = (task: Task): ExportedTask => ({
+  ...task,
+  updatedAt: task.updatedAt ? task.updatedAt.toDate().toISOString() : null
+});
+
+export const tasksToJson = (tasks: Task[], now = new Date()) => {
+  const data: TaskExport = {
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    tasks: tasks.map(toExportedTask)
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) || value.trim() !== value ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  return escapeCsvValue(typeof value === 'object' ? JSON.stringify(value) : String(value));
+};
+
+export const tasksToCsv = (tasks: Task[]) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...tasks.map((task) => {
+      const exported = toExportedTask(task);
+      return CSV_COLUMNS.map((column) => toCsvCell(exported[column])).join(',');
+    })
+  ].join('\r\n');
+
+export const getExportFileName = (extension: string, now = new Date()) =>
+  `taskbuddy-tasks-${getToday(now)}.${extension}`;
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { Task, TaskCategory, TaskPriority, TaskStatus } from '../types/task';
+import { TaskGroupBy } from '../types/view';
+import { getDueDay, getToday, getWeekRange, isOverdue, normalizeDueDate } from './dueDate';
+
+export interface TaskGroup {
+  // Unique across groupings, used for the collapse state
+  key: string;
+  value: string;
+  label: string;
+  tasks: Task[];
+  headerClassName: string;
+}
+
+export const GROUP_BY_OPTIONS: { value: TaskGroupBy; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'category', label: 'Category' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'dueDate', label: 'Due date' },
+  { value: 'none', label: 'No grouping' }
+];
+
+type DueBucket = 'overdue' | 'today' | 'week' | 'later' | 'earlier';
+
+interface GroupDefinition {
+  value: string;
+  label: string;
+  headerClassName: string;
+  // Hidden when it has no tasks. The others stay visible as drop targets.
+  hideWhenEmpty?: boolean;
+}
+
+const STATUS_GROUPS: GroupDefinition[] = [
+  { value: 'Todo' satisfies TaskStatus, label: 'Todo', headerClassName: 'from-blue-50 to-blue-100' },
+  { value: 'In-Progress' satisfies TaskStatus, label: 'In Progress', headerClassName: 'from-yellow-50 to-yellow-100' },
+  { value: 'Completed' satisfies TaskStatus, label: 'Completed', headerClassName: 'from-green-50 to-green-100' }
+];
+
+const GROUPS: Record<Exclude<TaskGroupBy, 'none'>, GroupDefinition[]> = {
+  status: STATUS_GROUPS,
+  category: [
+    { value: 'Work' satisfies TaskCategory, label: 'Work', headerClassName: 'from-blue-50 to-blue-100' },
+    { value: 'Personal' satisfies TaskCategory, label: 'Personal', headerClassName: 'from-purple-50 to-purple-100' }
+  ],
+  priority: [
+    { value: 'High' satisfies TaskPriority, label: 'High priority', headerClassName: 'from-red-50 to-red-100' },
+    { value: 'Medium' satisfies TaskPriority, label: 'Medium priority', headerClassName: 'from-yellow-50 to-yellow-100' },
+    { value: 'Low' satisfies TaskPriority, label: 'Low priority', headerClassName: 'from-green-50 to-green-100' }
+  ],
+  dueDate: [
+    { value: 'overdue' satisfies DueBucket, label: 'Overdue', headerClassName: 'from-red-50 to-red-100' },
+    { value: 'today' satisfies DueBucket, label: 'Today', headerClassName: 'from-orange-50 to-orange-100' },
+    { value: 'week' satisfies DueBucket, label: 'This week', headerClassName: 'from-blue-50 to-blue-100' },
+    { value: 'later' satisfies DueBucket, label: 'Later', headerClassName: 'from-gray-50 to-gray-100' },
+    {
+      value: 'earlier' satisfies DueBucket,
+      label: 'Earlier',
+      headerClassName: 'from-gray-50 to-gray-100',
+      hideWhenEmpty: true
+    }
+  ]
+};
+
+const ALL_TASKS: GroupDefinition = { value: 'all', label: 'All tasks', headerClassName: 'from-gray-50 to-gray-100' };
+
+// Completed tasks due in the past aren't overdue, they go under "Earlier"
+const getDueBucket = (task: Task, now: Date): DueBucket => {
+  if (isOverdue(task, now)) return 'overdue';
+  const dueDate = normalizeDueDate(task.dueDate);
+  if (!dueDate) return 'later';
+  const day = getDueDay(dueDate);
+  const today = getToday(now);
+  if (day === today) return 'today';
+  if (day < today) return 'earlier';
+  return day <= getWeekRange(now).to ? 'week' : 'later';
+};
+
+export const getGroupValue = (task: Task, groupBy: TaskGroupBy, now = new Date()): string => {
+  switch (groupBy) {
+    case 'status':
+      return task.status;
+    case 'category':
+      return task.category;
+    case 'priority':
+      return task.priority;
+    case 'dueDate':
+      return getDueBucket(task, now);
+    case 'none':
+      return ALL_TASKS.value;
+  }
+};
+
+export const getGroupKey = (groupBy: TaskGroupBy, value: string) => `${groupBy}:${value}`;
+
+// Splits already sorted tasks into the groups of a grouping, keeping their order
+export const groupTasks = (tasks: Task[], groupBy: TaskGroupBy, now = new Date()): TaskGroup[] => {
+  const definitions = groupBy === 'none' ? [ALL_TASKS] : GROUPS[groupBy];
+  const tasksByValue = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    const value = getGroupValue(task, groupBy, now);
+    const group = tasksByValue.get(value);
+    if (group) {
+      group.push(task);
+    } else {
+      tasksByValue.set(value, [task]);
+    }
+  });
+
+  return definitions
+    .filter((definition) => !definition.hideWhenEmpty || tasksByValue.has(definition.value))
+    .map((definition) => ({
+      key: getGroupKey(groupBy, definition.value),
+      value: definition.value,
+      label: definition.label,
+      tasks: tasksByValue.get(definition.value) ?? [],
+      headerClassName: definition.headerClassName
+    }));
+};
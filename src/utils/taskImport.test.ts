@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { jsonToImportRows } from './taskImport';
+
+const options = { defaultCategory: 'Work' as const, now: new Date('2026-10-19T09:00:00.000Z') };
+
+// One task of a TaskBuddy JSON export with the given extra fields
+const importTask = (fields: Record<string, unknown>) =>
+  jsonToImportRows({ version: 1, tasks: [{ title: 'Water the plants', dueDate: '2026-11-02', ...fields }] }, options).rows[0];
+
+describe('jsonToImportRows', () => {
+  it('imports valid recurrence rules and reminders', () => {
+    const recurrence = { frequency: 'weekly', interval: 2, weekdays: [1, 4], until: '2027-01-31' };
+    const reminders = [
+      { id: 'r1', type: 'beforeDue', minutes: 30 },
+      { id: 'r2', type: 'timeOfDay', daysBefore: 1, time: '18:00' },
+      { id: 'r3', type: 'custom', at: '2026-11-01T08:15' }
+    ];
+    const row = importTask({ recurrence, reminders });
+
+    expect(row.errors).toEqual([]);
+    expect(row.task).toMatchObject({ recurrence, reminders });
+  });
+
+  it('leaves out empty recurrence and reminders', () => {
+    const row = importTask({ recurrence: null, reminders: [] });
+    expect(row.errors).toEqual([]);
+    expect(row.task.recurrence).toBeUndefined();
+    expect(row.task.reminders).toBeUndefined();
+  });
+
+  it('reports recurrence rules of the wrong shape', () => {
+    [
+      'weekly',
+      { frequency: 'yearly', interval: 1 },
+      { frequency: 'daily' },
+      { frequency: 'daily', interval: 0 },
+      { frequency: 'weekly', interval: 1, weekdays: [7] },
+      { frequency: 'monthly', interval: 1, monthDay: 32 },
+      { frequency: 'daily', interval: 1, until: '2027-01-31T10:00' },
+      { frequency: 'daily', interval: 1, count: 1.5 }
+    ].forEach((recurrence) => {
+      const row = importTask({ recurrence });
+      expect(row.errors).toEqual(['Invalid recurrence']);
+      expect(row.task.recurrence).toBeUndefined();
+    });
+  });
+
+  it('reports reminders of the wrong shape', () => {
+    [
+      { id: 'r1', type: 'beforeDue' },
+      { id: 'r1', type: 'beforeDue', minutes: -5 },
+      { id: 'r1', type: 'atNoon' },
+      { id: 'r1', type: 'timeOfDay', daysBefore: 1, time: '25:00' },
+      { id: 'r1', type: 'custom', at: '2026-11-01' },
+      { type: 'beforeDue', minutes: 30 },
+      'tomorrow'
+    ].forEach((reminder) => {
+      const row = importTask({ reminders: [reminder] });
+      expect(row.errors).toEqual(['Invalid reminders']);
+      expect(row.task.reminders).toBeUndefined();
+    });
+    expect(importTask({ reminders: { id: 'r1', type: 'beforeDue', minutes: 30 } }).errors).toEqual(['Invalid reminders']);
+  });
+
+  it('reports too many reminders', () => {
+    const reminders = Array.from({ length: 11 }, (_, index) => ({ id: `r${index}`, type: 'beforeDue', minutes: index }));
+    expect(importTask({ reminders }).errors).toEqual(['More than 10 reminders']);
+  });
+});
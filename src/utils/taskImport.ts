@@ -0,0 +1,389 @@
+import { Subtask, Task, TaskCategory, TaskPriority, TaskRecurrence, TaskReminder, TaskStatus } from '../types/task';
+import { getDueTime, getToday, isCanonicalDueDate, normalizeDueDate } from './dueDate';
+import { MAX_REMINDERS } from './reminders';
+
+// What an import can set on a new task. Ids, history, assignees and
+// attachments belong to the workspace the tasks came from, so they're dropped.
+export type ImportedTask = Pick<Task, 'title' | 'status' | 'category' | 'priority' | 'dueDate'> & {
+  description?: string;
+  subtasks?: Subtask[];
+  recurrence?: TaskRecurrence | null;
+  reminders?: TaskReminder[];
+};
+
+export type ImportField = 'title' | 'description' | 'status' | 'category' | 'priority' | 'dueDate';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'status', label: 'Status' },
+  { field: 'category', label: 'Category' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'dueDate', label: 'Due date' }
+];
+
+// CSV column index of each field
+export type CsvColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportFormat = 'csv' | 'app' | 'todoist' | 'trello';
+
+export interface ImportOptions {
+  // Used when a row has no category of its own
+  defaultCategory: TaskCategory;
+  now?: Date;
+}
+
+// A row of the preview. The task always holds the best reading of the row,
+// but is only imported when there are no errors.
+export interface ImportRow {
+  // 1-based row of a CSV file counting the header, or position in a JSON list
+  row: number;
+  task: ImportedTask;
+  errors: string[];
+}
+
+// Same limits as firestore.rules
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 300;
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  todo: 'Todo',
+  open: 'Todo',
+  new: 'Todo',
+  notstarted: 'Todo',
+  inprogress: 'In-Progress',
+  progress: 'In-Progress',
+  doing: 'In-Progress',
+  started: 'In-Progress',
+  completed: 'Completed',
+  complete: 'Completed',
+  done: 'Completed',
+  closed: 'Completed',
+  finished: 'Completed'
+};
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  high: 'High',
+  h: 'High',
+  urgent: 'High',
+  p1: 'High',
+  medium: 'Medium',
+  med: 'Medium',
+  m: 'Medium',
+  normal: 'Medium',
+  p2: 'Medium',
+  low: 'Low',
+  l: 'Low',
+  p3: 'Low',
+  p4: 'Low'
+};
+
+const CATEGORY_ALIASES: Record<string, TaskCategory> = {
+  work: 'Work',
+  personal: 'Personal'
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'task', 'content', 'summary', 'subject'],
+  description: ['description', 'desc', 'notes', 'note', 'details'],
+  status: ['status', 'state'],
+  category: ['category', 'type'],
+  priority: ['priority'],
+  dueDate: ['duedate', 'due', 'deadline', 'date']
+};
+
+const toKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const asText = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+// Raw values of one task, before validation. Unknown values are reported
+// rather than silently replaced, empty ones fall back to the defaults.
+interface RawTask {
+  title?: unknown;
+  description?: unknown;
+  status?: unknown;
+  category?: unknown;
+  priority?: unknown;
+  dueDate?: unknown;
+  subtasks?: unknown;
+  recurrence?: unknown;
+  reminders?: unknown;
+}
+
+const readEnum = <T extends string>(
+  value: unknown,
+  aliases: Record<string, T>,
+  fallback: T,
+  label: string,
+  errors: string[]
+): T => {
+  const text = asText(value);
+  if (!text) return fallback;
+  const match = aliases[toKey(text)];
+  if (!match) errors.push(`Unknown ${label} "${text}"`);
+  return match ?? fallback;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSubtask = (value: unknown): value is Subtask =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as Subtask).id === 'string' &&
+  typeof (value as Subtask).title === 'string' &&
+  typeof (value as Subtask).completed === 'boolean';
+
+const isInteger = (value: unknown, min: number, max = Infinity): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isDay = (value: unknown) => typeof value === 'string' && isCanonicalDueDate(value) && !getDueTime(value);
+
+const isRecurrence = (value: unknown): value is TaskRecurrence => {
+  if (!isRecord(value)) return false;
+  const { frequency, interval, weekdays, monthDay, until, count } = value;
+  return (
+    (frequency === 'daily' || frequency === 'weekly' || frequency === 'monthly') &&
+    isInteger(interval, 1) &&
+    (weekdays === undefined || (Array.isArray(weekdays) && weekdays.every((day) => isInteger(day, 0, 6)))) &&
+    (monthDay === undefined || isInteger(monthDay, 1, 31)) &&
+    (until === undefined || isDay(until)) &&
+    (count === undefined || isInteger(count, 1))
+  );
+};
+
+const isReminder = (value: unknown): value is TaskReminder => {
+  if (!isRecord(value) || typeof value.id !== 'string') return false;
+  switch (value.type) {
+    case 'beforeDue':
+      return isInteger(value.minutes, 0);
+    case 'timeOfDay':
+      return isInteger(value.daysBefore, 0) && typeof value.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value.time);
+    case 'custom':
+      return typeof value.at === 'string' && isCanonicalDueDate(value.at) && getDueTime(value.at) !== null;
+    default:
+      return false;
+  }
+};
+
+const toImportRow = (row: number, raw: RawTask, { defaultCategory, now = new Date() }: ImportOptions): ImportRow => {
+  const errors: string[] = [];
+
+  const title = asText(raw.title);
+  if (!title) errors.push('Title is required');
+  if (title.length > MAX_TITLE_LENGTH) errors.push(`Title is longer than ${MAX_TITLE_LENGTH} characters`);
+
+  const description = asText(raw.description);
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  // Tasks always have a due date, so rows without one are due on the day of the import
+  const dueText = asText(raw.dueDate);
+  const dueDate = dueText ? normalizeDueDate(dueText) : getToday(now);
+  if (!dueDate) errors.push(`Unreadable due date "${dueText}"`);
+
+  const task: ImportedTask = {
+    title,
+    description: description || undefined,
+    status: readEnum(raw.status, STATUS_ALIASES, 'Todo', 'status', errors),
+    category: readEnum(raw.category, CATEGORY_ALIASES, defaultCategory, 'category', errors),
+    priority: readEnum(raw.priority, PRIORITY_ALIASES, 'Medium', 'priority', errors),
+    dueDate: dueDate ?? dueText
+  };
+
+  if (Array.isArray(raw.subtasks)) {
+    if (raw.subtasks.every(isSubtask)) {
+      task.subtasks = raw.subtasks;
+    } else {
+      errors.push('Invalid subtasks');
+    }
+  }
+  if (raw.recurrence !== undefined && raw.recurrence !== null) {
+    if (isRecurrence(raw.recurrence)) {
+      task.recurrence = raw.recurrence;
+    } else {
+      errors.push('Invalid recurrence');
+    }
+  }
+  if (raw.reminders !== undefined && raw.reminders !== null) {
+    if (!Array.isArray(raw.reminders) || !raw.reminders.every(isReminder)) {
+      errors.push('Invalid reminders');
+    } else if (raw.reminders.length > MAX_REMINDERS) {
+      errors.push(`More than ${MAX_REMINDERS} reminders`);
+    } else if (raw.reminders.length > 0) {
+      task.reminders = raw.reminders;
+    }
+  }
+
+  return { row, task, errors };
+};
+
+// RFC 4180: quoted fields may contain the delimiter, quotes ("") and line
+// breaks. The delimiter is a comma, or a semicolon if the header uses those.
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines
+  return records.filter((item) => item.some((value) => value.trim() !== ''));
+};
+
+export const guessCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const keys = headers.map(toKey);
+  const mapping: CsvColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = keys.findIndex((key) => HEADER_ALIASES[field].includes(key));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// Rows of a CSV file without its header line
+export const csvToImportRows = (records: string[][], mapping: CsvColumnMapping, options: ImportOptions) =>
+  records.map((record, index) => {
+    const raw: RawTask = {};
+    IMPORT_FIELDS.forEach(({ field }) => {
+      const column = mapping[field];
+      if (column !== undefined) raw[field] = record[column];
+    });
+    // Plus one for the header, plus one to count from 1
+    return toImportRow(index + 2, raw, options);
+  });
+
+// Todoist's API and sync exports: a list of tasks, or { items: [...] }
+const getTodoistItems = (data: unknown) => {
+  const items = isRecord(data) ? data.items : data;
+  return Array.isArray(items) && items.length > 0 && items.every((item) => isRecord(item) && 'content' in item)
+    ? (items as Record<string, unknown>[])
+    : null;
+};
+
+const isTrelloBoard = (data: unknown): data is { cards: unknown[]; lists?: unknown[] } =>
+  isRecord(data) && Array.isArray(data.cards) && Array.isArray(data.lists);
+
+const isAppExport = (data: unknown): data is { tasks: unknown[] } =>
+  isRecord(data) && typeof data.version === 'number' && Array.isArray(data.tasks);
+
+export const detectJsonFormat = (data: unknown): Exclude<ImportFormat, 'csv'> | null => {
+  if (isAppExport(data)) return 'app';
+  if (isTrelloBoard(data)) return 'trello';
+  if (getTodoistItems(data)) return 'todoist';
+  return null;
+};
+
+// Todoist priorities run from 1 (normal) to 4 (urgent)
+const TODOIST_PRIORITIES: Record<number, TaskPriority> = { 4: 'High', 3: 'Medium', 2: 'Low', 1: 'Low' };
+
+const findLabel = <T extends string>(labels: string[], aliases: Record<string, T>) =>
+  labels.map((label) => aliases[toKey(label)]).find(Boolean);
+
+const fromTodoist = (item: Record<string, unknown>): RawTask => {
+  const due = isRecord(item.due) ? item.due : {};
+  const labels = Array.isArray(item.labels) ? item.labels.filter((label): label is string => typeof label === 'string') : [];
+  return {
+    title: item.content,
+    description: item.description,
+    status: item.is_completed || item.checked ? 'Completed' : 'Todo',
+    category: findLabel(labels, CATEGORY_ALIASES),
+    priority: typeof item.priority === 'number' ? TODOIST_PRIORITIES[item.priority] : undefined,
+    dueDate: due.datetime ?? due.date
+  };
+};
+
+// Trello cards get their status from the name of their list
+const getTrelloStatus = (listName: string): TaskStatus => {
+  const key = toKey(listName);
+  if (/done|complete|finished|closed/.test(key)) return 'Completed';
+  if (/progress|doing|started|review/.test(key)) return 'In-Progress';
+  return 'Todo';
+};
+
+const fromTrello = (card: Record<string, unknown>, listNames: Map<string, string>): RawTask => {
+  const labels = Array.isArray(card.labels)
+    ? card.labels.filter(isRecord).map((label) => asText(label.name)).filter(Boolean)
+    : [];
+  return {
+    title: card.name,
+    description: card.desc,
+    status: card.dueComplete ? 'Completed' : getTrelloStatus(listNames.get(asText(card.idList)) ?? ''),
+    category: findLabel(labels, CATEGORY_ALIASES),
+    priority: findLabel(labels, PRIORITY_ALIASES),
+    dueDate: card.due
+  };
+};
+
+// Reads a JSON file exported by this app, Todoist or Trello. Throws when
+// the file is none of those.
+export const jsonToImportRows = (data: unknown, options: ImportOptions) => {
+  const format = detectJsonFormat(data);
+  let rows: ImportRow[];
+  if (isAppExport(data)) {
+    rows = data.tasks.map((task, index) => toImportRow(index + 1, isRecord(task) ? task : {}, options));
+  } else if (isTrelloBoard(data)) {
+    const listNames = new Map(
+      (data.lists ?? []).filter(isRecord).map((list) => [asText(list.id), asText(list.name)] as const)
+    );
+    // Archived cards stay archived
+    rows = data.cards
+      .filter(isRecord)
+      .filter((card) => !card.closed)
+      .map((card, index) => toImportRow(index + 1, fromTrello(card, listNames), options));
+  } else {
+    const items = getTodoistItems(data);
+    if (!items) {
+      throw new Error('Not a TaskBuddy, Todoist or Trello export');
+    }
+    rows = items.map((item, index) => toImportRow(index + 1, fromTodoist(item), options));
+  }
+  return { format: format as Exclude<ImportFormat, 'csv'>, rows };
+};
+
+// The parts of an existing task that carry over into a copy of it
+export const toImportedTask = (task: Task): ImportedTask => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  category: task.category,
+  priority: task.priority,
+  dueDate: task.dueDate,
+  subtasks: task.subtasks,
+  recurrence: task.recurrence,
+  reminders: task.reminders
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getOrderBetween, getTaskOrder, needsRebalance } from './taskOrder';
+
+describe('needsRebalance', () => {
+  it('leaves neighbours with room between them alone', () => {
+    expect(needsRebalance(1024, 2048)).toBe(false);
+    expect(needsRebalance(0, 1e-5)).toBe(false);
+    expect(needsRebalance(undefined, 1024)).toBe(false);
+    expect(needsRebalance(1024, undefined)).toBe(false);
+  });
+
+  it('rebalances small ranks that are too close', () => {
+    expect(needsRebalance(1, 1 + 1e-7)).toBe(true);
+  });
+
+  it('rebalances legacy ranks before the midpoint lands on a neighbour', () => {
+    const before = getTaskOrder({ createdAt: '2026-10-19T09:00:00.001Z' });
+    const after = getTaskOrder({ createdAt: '2026-10-19T09:00:00.000Z' });
+    expect(needsRebalance(before, after)).toBe(false);
+
+    // Keep halving the gap as repeated drops between the same tasks would
+    let upper = after;
+    while (!needsRebalance(before, upper)) {
+      const middle = getOrderBetween(before, upper);
+      expect(middle).toBeGreaterThan(before);
+      expect(middle).toBeLessThan(upper);
+      upper = middle;
+    }
+    expect(Math.abs(before)).toBeGreaterThan(1.7e12);
+  });
+});
@@ -0,0 +1,40 @@
+import { Task } from '../types/task';
+
+// Gap left between tasks when ranks are (re)assigned
+export const ORDER_STEP = 1024;
+// Below this gap the column is rebalanced. Doubles only have so many digits, so
+// for large ranks (legacy ones are around -1.8e12) the gap also has to be a few
+// steps of precision at that magnitude, or the midpoint rounds onto a neighbour.
+const MIN_ORDER_GAP = 1e-6;
+const MIN_RELATIVE_ORDER_GAP = Number.EPSILON * 4;
+
+// Tasks created before manual ordering existed have no rank. Deriving one from
+// createdAt keeps them in the original newest-first order.
+export const getTaskOrder = (task: Pick<Task, 'order' | 'createdAt'>) =>
+  task.order ?? -Date.parse(task.createdAt);
+
+export const sortByOrder = <T extends Pick<Task, 'order' | 'createdAt'>>(tasks: T[]): T[] =>
+  [...tasks].sort((a, b) => getTaskOrder(a) - getTaskOrder(b));
+
+// Rank for an item placed between two neighbours, either of which may be missing
+export const getOrderBetween = (before?: number, after?: number): number => {
+  if (before !== undefined && after !== undefined) return (before + after) / 2;
+  if (before !== undefined) return before + ORDER_STEP;
+  if (after !== undefined) return after - ORDER_STEP;
+  return 0;
+};
+
+export const needsRebalance = (before?: number, after?: number) => {
+  if (before === undefined || after === undefined) return false;
+  const magnitude = Math.max(Math.abs(before), Math.abs(after));
+  const middle = getOrderBetween(before, after);
+  return (
+    Math.abs(after - before) < Math.max(MIN_ORDER_GAP, magnitude * MIN_RELATIVE_ORDER_GAP) ||
+    middle === before ||
+    middle === after
+  );
+};
+
+// Evenly spaced ranks for a whole column, in the given order
+export const rebalanceOrders = (taskIds: string[]) =>
+  taskIds.map((id, index) => ({ id, order: (index + 1) * ORDER_STEP }));
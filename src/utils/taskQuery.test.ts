@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getDueDateRange, matchesTaskQuery, narrowDueDateRange } from './taskQuery';
+import { isOverdue } from './dueDate';
+import { buildTask } from '../test/fixtures';
+
+// Local 14:30, so "today" is Oct 19 in every zone the tests run in
+const NOW = new Date(2026, 9, 19, 14, 30);
+
+const matches = (dueDate: string, status = buildTask().status) =>
+  matchesTaskQuery(buildTask({ dueDate, status }), 'workspace-1', { dueDate: 'overdue' }, 'user-1', NOW);
+
+describe('overdue tasks', () => {
+  it('ends the range at the current local time', () => {
+    expect(getDueDateRange({ dueDate: 'overdue' }, NOW)).toEqual({ before: '2026-10-19T14:30' });
+  });
+
+  it('includes the tasks due earlier today, like isOverdue', () => {
+    const dueDates = ['2026-10-18', '2026-10-18T23:59', '2026-10-19T00:00', '2026-10-19T14:29',
+      '2026-10-19', '2026-10-19T14:30', '2026-10-19T18:00', '2026-10-20'];
+    dueDates.forEach((dueDate) => {
+      expect(matches(dueDate), dueDate).toBe(isOverdue({ dueDate, status: 'Todo' }, NOW));
+    });
+    expect(dueDates.filter((dueDate) => matches(dueDate)))
+      .toEqual(['2026-10-18', '2026-10-18T23:59', '2026-10-19T00:00', '2026-10-19T14:29']);
+  });
+
+  it('leaves out completed tasks', () => {
+    expect(matches('2026-10-18', 'Completed')).toBe(false);
+  });
+
+  it('ends the calendar days at today', () => {
+    expect(narrowDueDateRange({ dueDate: 'overdue' }, { from: '2026-09-27', to: '2026-11-07' }, NOW))
+      .toMatchObject({ dueDate: 'custom', dueDateFrom: '2026-09-27', dueDateTo: '2026-10-19' });
+  });
+});
@@ -0,0 +1,87 @@
+import { Task, TaskFilter } from '../types/task';
+import { addDaysToDay, buildDueDate, getDueDay, getWeekRange, getZonedNow } from './dueDate';
+
+export interface DueDateRange {
+  from?: string;
+  to?: string;
+  // Exclusive yyyy-MM-ddTHH:mm bound. Due dates on that day without a time
+  // are left out, as the day hasn't passed yet.
+  before?: string;
+}
+
+// Inclusive yyyy-MM-dd days, like the ones a calendar shows
+export type DayRange = Required<Pick<DueDateRange, 'from' | 'to'>>;
+
+// Resolves the due date filter into inclusive yyyy-MM-dd bounds, or for
+// overdue tasks the current local time
+export const getDueDateRange = (filter: TaskFilter, now = new Date()): DueDateRange | null => {
+  const { day: today, time } = getZonedNow(now);
+
+  switch (filter.dueDate) {
+    case 'overdue':
+      return { before: buildDueDate(today, time) };
+    case 'today':
+      return { from: today, to: today };
+    case 'week':
+      return getWeekRange(now);
+    case 'custom':
+      if (!filter.dueDateFrom && !filter.dueDateTo) return null;
+      return { from: filter.dueDateFrom || undefined, to: filter.dueDateTo || undefined };
+    default:
+      return null;
+  }
+};
+
+// Narrows the filter's due date range to the given days, null when the two
+// don't overlap
+export const narrowDueDateRange = (
+  filter: TaskFilter,
+  days: DayRange,
+  now = new Date()
+): TaskFilter | null => {
+  const range = getDueDateRange(filter, now);
+  const last = range?.to ?? (range?.before && getDueDay(range.before));
+  const from = range?.from && range.from > days.from ? range.from : days.from;
+  const to = last && last < days.to ? last : days.to;
+  if (from > to) return null;
+  return { ...filter, dueDate: 'custom', dueDateFrom: from, dueDateTo: to };
+};
+
+// The same query for backends that filter in memory. Keep it in line with
+// buildTaskQueryConstraints in firestoreTaskRepository.ts.
+export const matchesTaskQuery = (
+  task: Task,
+  workspaceId: string,
+  filter: TaskFilter,
+  userId: string,
+  now = new Date()
+) => {
+  if (task.workspaceId !== workspaceId) return false;
+  if (filter.assignment === 'assignedToMe' && !task.assigneeIds?.includes(userId)) return false;
+  if (filter.assignment === 'unassigned' && task.assigneeIds?.length !== 0) return false;
+  if (filter.assignment === 'createdByMe' && task.createdBy !== userId) return false;
+  if (filter.category && task.category !== filter.category) return false;
+  if (filter.status ? task.status !== filter.status : filter.dueDate === 'overdue' && task.status === 'Completed') {
+    return false;
+  }
+  if (filter.priority && task.priority !== filter.priority) return false;
+
+  const range = getDueDateRange(filter, now);
+  if (range?.from && !(task.dueDate >= range.from)) return false;
+  if (range?.to && !(task.dueDate < addDaysToDay(range.to, 1))) return false;
+  if (range?.before && !(task.dueDate < range.before && task.dueDate !== getDueDay(range.before))) return false;
+  return true;
+};
+
+// Firestore compares strings by code point, not by locale
+const compareStrings = (a = '', b = '') => (a < b ? -1 : a > b ? 1 : 0);
+
+// Order of a task query's results. Ties are broken by id, like Firestore
+// breaks them by document id.
+export const compareByTaskQuery = (filter: TaskFilter, now = new Date()) => {
+  const byDueDate = getDueDateRange(filter, now) !== null;
+  return (a: Task, b: Task) =>
+    (byDueDate ? compareStrings(a.dueDate, b.dueDate) : 0) ||
+    compareStrings(b.createdAt, a.createdAt) ||
+    compareStrings(b.id, a.id);
+};
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { filterTasks, getHighlightRanges, parseSearchQuery, searchTasks, searchText } from './taskSearch';
+import { buildTask } from '../test/fixtures';
+
+// Local noon, so "today" is Oct 19 in every zone the tests run in
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+const parse = (query: string) => parseSearchQuery(query, NOW);
+const ids = (query: string, tasks = TASKS) => searchTasks(tasks, parse(query), NOW).map(({ task }) => task.id);
+
+const TASKS = [
+  buildTask({ id: 'report', title: 'Write the report', description: 'Quarterly numbers for the board', dueDate: '2026-10-10' }),
+  buildTask({ id: 'board', title: 'Board meeting', description: 'Present the report', priority: 'High', dueDate: '2026-10-12' }),
+  buildTask({ id: 'groceries', title: 'Buy groceries', category: 'Personal', status: 'Completed', dueDate: '2026-10-15' }),
+  buildTask({ id: 'dentist', title: 'Call the dentist', dueDate: '2026-10-19T09:30', status: 'In-Progress' }),
+  buildTask({ id: 'invoice', title: 'Send the invoice', dueDate: '2026-10-20' })
+];
+
+describe('parseSearchQuery', () => {
+  it('splits free text into lowercased terms', () => {
+    expect(parse('Write the-Report')).toEqual({
+      terms: ['write', 'the', 'report'],
+      phrases: [],
+      operators: [],
+      errors: []
+    });
+  });
+
+  it('keeps quoted phrases together, even before the closing quote is typed', () => {
+    expect(parse('"Board Meeting" notes').phrases).toEqual(['board meeting']);
+    expect(parse('notes "the rep').phrases).toEqual(['the rep']);
+    expect(parse('notes ""').phrases).toEqual([]);
+  });
+
+  it('reads status, priority and category by any prefix of their values', () => {
+    expect(parse('status:todo status:in-progress status:done priority:h category:PERS').operators).toEqual([
+      { field: 'status', value: 'Todo' },
+      { field: 'status', value: 'In-Progress' },
+      { field: 'status', value: 'Completed' },
+      { field: 'priority', value: 'High' },
+      { field: 'category', value: 'Personal' }
+    ]);
+  });
+
+  it('reads due dates with comparisons and relative days', () => {
+    expect(parse('due:<2026-11-01 due:>=tomorrow due:today due:yesterday').operators).toEqual([
+      { field: 'due', comparison: '<', day: '2026-11-01' },
+      { field: 'due', comparison: '>=', day: '2026-10-20' },
+      { field: 'due', comparison: '=', day: '2026-10-19' },
+      { field: 'due', comparison: '=', day: '2026-10-18' }
+    ]);
+  });
+
+  it('reads is: filters', () => {
+    expect(parse('is:overdue is:open is:rec').operators).toEqual([
+      { field: 'is', value: 'overdue' },
+      { field: 'is', value: 'open' },
+      { field: 'is', value: 'recurring' }
+    ]);
+  });
+
+  it('reports operators it does not understand and ignores ones still being typed', () => {
+    const parsed = parse('priority:urgent due:someday status:');
+    expect(parsed.operators).toEqual([]);
+    expect(parsed.errors).toEqual(['priority:urgent', 'due:someday']);
+    expect(parsed.terms).toEqual([]);
+  });
+
+  it('treats unknown fields as free text', () => {
+    expect(parse('re:report').terms).toEqual(['re', 'report']);
+  });
+});
+
+describe('searchTasks', () => {
+  it('requires every term to match', () => {
+    expect(ids('report board')).toEqual(['report', 'board']);
+    expect(ids('report groceries')).toEqual([]);
+  });
+
+  it('ranks title matches above description matches', () => {
+    expect(ids('report')).toEqual(['report', 'board']);
+    expect(ids('board')).toEqual(['board', 'report']);
+  });
+
+  it('ranks whole words above prefixes and typos', () => {
+    const tasks = [
+      buildTask({ id: 'typo', title: 'Meating notes' }),
+      buildTask({ id: 'prefix', title: 'Meetings' }),
+      buildTask({ id: 'exact', title: 'Meeting' })
+    ];
+    expect(ids('meeting', tasks)).toEqual(['exact', 'prefix', 'typo']);
+  });
+
+  it('tolerates typos in longer terms only', () => {
+    expect(ids('grocereis')).toEqual(['groceries']);
+    expect(ids('dentsit')).toEqual(['dentist']);
+    expect(ids('invioce')).toEqual(['invoice']);
+    expect(ids('cal')).toEqual(['dentist']);
+    expect(ids('bvy')).toEqual([]);
+  });
+
+  it('tolerates typos in the part of a word typed so far', () => {
+    expect(ids('quartre')).toEqual(['report']);
+  });
+
+  it('matches phrases exactly', () => {
+    expect(ids('"the report"')).toEqual(['report', 'board']);
+    expect(ids('"report the"')).toEqual([]);
+  });
+
+  it('filters by status, priority and category', () => {
+    expect(ids('status:done')).toEqual(['groceries']);
+    expect(ids('priority:high report')).toEqual(['board']);
+    expect(ids('category:personal')).toEqual(['groceries']);
+  });
+
+  it('filters by due day', () => {
+    expect(ids('due:today')).toEqual(['dentist']);
+    expect(ids('due:>today')).toEqual(['invoice']);
+    expect(ids('due:<2026-10-19')).toHaveLength(3);
+  });
+
+  it('counts timed tasks from earlier today as overdue', () => {
+    expect(ids('is:overdue')).toEqual(['report', 'board', 'dentist']);
+    expect(ids('is:completed')).toEqual(['groceries']);
+    expect(ids('is:open')).toHaveLength(4);
+  });
+});
+
+describe('filterTasks', () => {
+  it('keeps the original order', () => {
+    expect(filterTasks(TASKS, parse('board'), NOW).map((task) => task.id)).toEqual(['report', 'board']);
+  });
+
+  it('returns every task for an empty query', () => {
+    expect(filterTasks(TASKS, parse('  '), NOW)).toBe(TASKS);
+  });
+});
+
+describe('searchText', () => {
+  const commands = ['Go to board view', 'Go to calendar view', 'New task'];
+
+  it('ranks plain text with the same terms and typos as tasks', () => {
+    expect(searchText(commands, parse('view'), (command) => command)).toEqual(commands.slice(0, 2));
+    expect(searchText(commands, parse('calnedar'), (command) => command)).toEqual(['Go to calendar view']);
+    expect(searchText(commands, parse('task'), (command) => command)).toEqual(['New task']);
+  });
+
+  it('matches nothing for task operators', () => {
+    expect(searchText(commands, parse('is:overdue'), (command) => command)).toEqual([]);
+  });
+});
+
+describe('getHighlightRanges', () => {
+  it('highlights the matched part of prefix matches and whole words with typos', () => {
+    expect(getHighlightRanges('Write the report', parse('rep'))).toEqual([{ start: 10, end: 13 }]);
+    expect(getHighlightRanges('Buy groceries', parse('grocereis'))).toEqual([{ start: 4, end: 13 }]);
+  });
+
+  it('merges overlapping ranges', () => {
+    expect(getHighlightRanges('Write the report', parse('"the report" report'))).toEqual([{ start: 6, end: 16 }]);
+  });
+});
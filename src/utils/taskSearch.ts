@@ -0,0 +1,327 @@
+import { Task, TaskCategory, TaskPriority, TaskStatus } from '../types/task';
+import { addDaysToDay, getDueDay, getToday, isOverdue, normalizeDueDate } from './dueDate';
+
+// Search queries are free text plus optional field operators:
+//   status:todo  priority:high  category:work  due:<2026-11-01  due:today
+//   is:overdue  is:open  is:completed  is:recurring  "exact phrase"
+// Every term, phrase and operator has to match. Terms match whole words,
+// word prefixes, substrings and, for longer terms, words with a typo or two.
+
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchOperator =
+  | { field: 'status'; value: TaskStatus }
+  | { field: 'priority'; value: TaskPriority }
+  | { field: 'category'; value: TaskCategory }
+  | { field: 'due'; comparison: Comparison; day: string }
+  | { field: 'is'; value: 'overdue' | 'open' | 'completed' | 'recurring' };
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  operators: SearchOperator[];
+  // Operators whose value wasn't understood, e.g. "priority:urgent"
+  errors: string[];
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TaskSearchResult {
+  task: Task;
+  score: number;
+}
+
+const STATUS_VALUES: Record<string, TaskStatus> = {
+  todo: 'Todo',
+  inprogress: 'In-Progress',
+  progress: 'In-Progress',
+  doing: 'In-Progress',
+  completed: 'Completed',
+  done: 'Completed'
+};
+const PRIORITY_VALUES: TaskPriority[] = ['High', 'Medium', 'Low'];
+const CATEGORY_VALUES: TaskCategory[] = ['Work', 'Personal'];
+const IS_VALUES = ['overdue', 'open', 'completed', 'recurring'] as const;
+
+const TOKEN = /"([^"]*)"?|(\S+)/g;
+const WORD = /[\p{L}\p{N}]+/gu;
+const DUE_VALUE = /^(<=|>=|<|>|=)?(.+)$/;
+
+// Case-insensitive prefix match against an enum, so "priority:h" works
+const matchValue = <T extends string>(values: readonly T[], value: string) =>
+  values.find((candidate) => candidate.toLowerCase().startsWith(value.toLowerCase()));
+
+const parseDueDay = (value: string, now: Date) => {
+  const today = getToday(now);
+  switch (value.toLowerCase()) {
+    case 'today':
+      return today;
+    case 'tomorrow':
+      return addDaysToDay(today, 1);
+    case 'yesterday':
+      return addDaysToDay(today, -1);
+  }
+  const normalized = normalizeDueDate(value);
+  return normalized ? getDueDay(normalized) : null;
+};
+
+const parseOperator = (field: string, value: string, now: Date): SearchOperator | null => {
+  switch (field) {
+    case 'status': {
+      const status = Object.entries(STATUS_VALUES).find(([key]) =>
+        key.startsWith(value.toLowerCase().replace(/[^a-z]/g, ''))
+      )?.[1];
+      return status ? { field, value: status } : null;
+    }
+    case 'priority': {
+      const priority = matchValue(PRIORITY_VALUES, value);
+      return priority ? { field, value: priority } : null;
+    }
+    case 'category': {
+      const category = matchValue(CATEGORY_VALUES, value);
+      return category ? { field, value: category } : null;
+    }
+    case 'due': {
+      const [, comparison = '=', dayValue] = DUE_VALUE.exec(value) ?? [];
+      const day = dayValue ? parseDueDay(dayValue, now) : null;
+      return day ? { field, comparison: comparison as Comparison, day } : null;
+    }
+    case 'is': {
+      const is = matchValue(IS_VALUES, value);
+      return is ? { field, value: is } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const OPERATOR_FIELDS = ['status', 'priority', 'category', 'due', 'is'];
+
+export const parseSearchQuery = (query: string, now = new Date()): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], operators: [], errors: [] };
+
+  for (const [token, phrase, word] of query.matchAll(TOKEN)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase.trim().toLowerCase());
+      continue;
+    }
+    const separator = word.indexOf(':');
+    const field = word.slice(0, separator).toLowerCase();
+    if (separator > 0 && OPERATOR_FIELDS.includes(field)) {
+      const value = word.slice(separator + 1);
+      // Still being typed
+      if (!value) continue;
+      const operator = parseOperator(field, value, now);
+      if (operator) {
+        parsed.operators.push(operator);
+      } else {
+        parsed.errors.push(token);
+      }
+      continue;
+    }
+    parsed.terms.push(...(word.toLowerCase().match(WORD) ?? []));
+  }
+  return parsed;
+};
+
+export const isEmptySearch = (parsed: ParsedSearchQuery) =>
+  parsed.terms.length === 0 && parsed.phrases.length === 0 && parsed.operators.length === 0;
+
+interface SearchDocument {
+  title: string;
+  description: string;
+  titleWords: string[];
+  descriptionWords: string[];
+}
+
+// Tasks are replaced rather than mutated on every change, so a task object
+// can cache its lowercased text for as long as it exists
+const documents = new WeakMap<Task, SearchDocument>();
+
+const getDocument = (task: Task) => {
+  let document = documents.get(task);
+  if (!document) {
+    const title = task.title.toLowerCase();
+    const description = (task.description ?? '').toLowerCase();
+    document = {
+      title,
+      description,
+      titleWords: title.match(WORD) ?? [],
+      descriptionWords: description.match(WORD) ?? []
+    };
+    documents.set(task, document);
+  }
+  return document;
+};
+
+const getMaxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Edit distance counting a swap of neighbouring letters as one typo,
+// giving up as soon as it must exceed max
+const isWithinDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return false;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+const scoreWord = (term: string, word: string) => {
+  if (word === term) return 10;
+  if (word.startsWith(term)) return 6;
+  if (word.includes(term)) return 4;
+  const maxTypos = getMaxTypos(term);
+  // Typos are also allowed in the part of a longer word typed so far
+  if (maxTypos > 0 && (isWithinDistance(term, word, maxTypos) ||
+    (word.length > term.length && isWithinDistance(term, word.slice(0, term.length), maxTypos)))) {
+    return 2;
+  }
+  return 0;
+};
+
+const scoreTerm = (term: string, words: string[]) =>
+  words.reduce((best, word) => Math.max(best, scoreWord(term, word)), 0);
+
+const matchesOperator = (task: Task, operator: SearchOperator, now: Date) => {
+  switch (operator.field) {
+    case 'status':
+      return task.status === operator.value;
+    case 'priority':
+      return task.priority === operator.value;
+    case 'category':
+      return task.category === operator.value;
+    case 'due': {
+      const dueDate = normalizeDueDate(task.dueDate);
+      if (!dueDate) return false;
+      const day = getDueDay(dueDate);
+      switch (operator.comparison) {
+        case '<': return day < operator.day;
+        case '<=': return day <= operator.day;
+        case '>': return day > operator.day;
+        case '>=': return day >= operator.day;
+        default: return day === operator.day;
+      }
+    }
+    case 'is':
+      switch (operator.value) {
+        case 'overdue': return isOverdue(task, now);
+        case 'open': return task.status !== 'Completed';
+        case 'completed': return task.status === 'Completed';
+        case 'recurring': return Boolean(task.recurrence);
+      }
+  }
+};
+
+// Relevance of a task to a parsed query, or null when it doesn't match.
+// Title matches count double.
+export const scoreTask = (task: Task, parsed: ParsedSearchQuery, now = new Date()) => {
+  if (!parsed.operators.every((operator) => matchesOperator(task, operator, now))) return null;
+
+  const document = getDocument(task);
+  let score = 0;
+  for (const phrase of parsed.phrases) {
+    const inTitle = document.title.includes(phrase);
+    if (!inTitle && !document.description.includes(phrase)) return null;
+    score += inTitle ? 24 : 12;
+  }
+  for (const term of parsed.terms) {
+    const termScore = Math.max(scoreTerm(term, document.titleWords) * 2, scoreTerm(term, document.descriptionWords));
+    if (termScore === 0) return null;
+    score += termScore;
+  }
+  return score;
+};
+
+// Tasks matching the query, in their original order
+export const filterTasks = (tasks: Task[], parsed: ParsedSearchQuery, now = new Date()) =>
+  isEmptySearch(parsed) ? tasks : tasks.filter((task) => scoreTask(task, parsed, now) !== null);
+
+// Tasks matching the query, best match first
+export const searchTasks = (tasks: Task[], parsed: ParsedSearchQuery, now = new Date()): TaskSearchResult[] =>
+  tasks
+    .map((task) => ({ task, score: scoreTask(task, parsed, now) }))
+    .filter((result): result is TaskSearchResult => result.score !== null)
+    .sort((a, b) => b.score - a.score);
+
+// Items other than tasks, like commands, best match first. Only the terms and
+// phrases apply to them, so a query with operators matches none.
+export const searchText = <T>(items: T[], parsed: ParsedSearchQuery, getText: (item: T) => string): T[] => {
+  if (parsed.operators.length > 0) return [];
+  return items
+    .map((item) => {
+      const text = getText(item).toLowerCase();
+      const words = text.match(WORD) ?? [];
+      let score: number | null = 0;
+      for (const phrase of parsed.phrases) {
+        score = score !== null && text.includes(phrase) ? score + 12 : null;
+      }
+      for (const term of parsed.terms) {
+        const termScore = scoreTerm(term, words);
+        score = score !== null && termScore > 0 ? score + termScore : null;
+      }
+      return { item, score };
+    })
+    .filter((result): result is { item: T; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.item);
+};
+
+// Parts of the text to highlight for a query: phrases, and each word the
+// terms matched (just the matching part for prefix and substring matches)
+export const getHighlightRanges = (text: string, parsed: ParsedSearchQuery): TextRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+
+  for (const phrase of parsed.phrases) {
+    for (let index = lower.indexOf(phrase); index !== -1; index = lower.indexOf(phrase, index + phrase.length)) {
+      ranges.push({ start: index, end: index + phrase.length });
+    }
+  }
+  if (parsed.terms.length > 0) {
+    for (const match of lower.matchAll(WORD)) {
+      const word = match[0];
+      const start = match.index ?? 0;
+      for (const term of parsed.terms) {
+        const score = scoreWord(term, word);
+        if (score === 0) continue;
+        const offset = score >= 4 ? word.indexOf(term) : 0;
+        ranges.push(score >= 4
+          ? { start: start + offset, end: start + offset + term.length }
+          : { start, end: start + word.length });
+      }
+    }
+  }
+
+  // Merge overlapping ranges
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
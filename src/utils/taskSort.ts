@@ -0,0 +1,74 @@
+import { Task, TaskPriority, TaskStatus } from '../types/task';
+import { SortDirection, TaskSort, TaskSortField } from '../types/view';
+import { sortByOrder } from './taskOrder';
+import { normalizeDueDate } from './dueDate';
+
+// Ascending means least to most important, so descending puts High first
+const PRIORITY_RANK: Record<TaskPriority, number> = { Low: 0, Medium: 1, High: 2 };
+const STATUS_RANK: Record<TaskStatus, number> = { Todo: 0, 'In-Progress': 1, Completed: 2 };
+
+// Tasks with a write still pending have no server timestamp yet, and are the newest
+const getUpdatedAt = (task: Task) => task.updatedAt?.toMillis() ?? Date.now();
+
+const compareField = (a: Task, b: Task, field: TaskSortField) => {
+  switch (field) {
+    case 'priority':
+      return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+    case 'status':
+      return STATUS_RANK[a.status] - STATUS_RANK[b.status];
+    case 'dueDate':
+      return (normalizeDueDate(a.dueDate) ?? '').localeCompare(normalizeDueDate(b.dueDate) ?? '');
+    case 'title':
+      return a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+    case 'category':
+      return a.category.localeCompare(b.category);
+    case 'createdAt':
+      return a.createdAt.localeCompare(b.createdAt);
+    case 'updatedAt':
+      return getUpdatedAt(a) - getUpdatedAt(b);
+  }
+};
+
+// Sorts by each key in turn. The sort is stable, so ties keep the manual order.
+export const sortTasks = (tasks: Task[], sort: TaskSort[]) =>
+  sortByOrder(tasks).sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const result = compareField(a, b, field);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+
+// The direction a column sorts in when first clicked
+const DEFAULT_DIRECTIONS: Record<TaskSortField, SortDirection> = {
+  title: 'asc',
+  priority: 'desc',
+  dueDate: 'asc',
+  status: 'asc',
+  category: 'asc',
+  createdAt: 'desc',
+  updatedAt: 'desc'
+};
+
+const MAX_SORT_KEYS = 2;
+
+// Clicking a column header sorts by it, flips it, then goes back to the
+// manual order. With additive (shift-click) the column becomes the secondary
+// sort instead of replacing the primary one.
+export const toggleSort = (sort: TaskSort[], field: TaskSortField, additive = false): TaskSort[] => {
+  const current = sort.find((entry) => entry.field === field);
+  const cycled: TaskSort | null = !current
+    ? { field, direction: DEFAULT_DIRECTIONS[field] }
+    : current.direction === DEFAULT_DIRECTIONS[field]
+      ? { field, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : null;
+
+  if (!additive) {
+    return cycled ? [cycled] : [];
+  }
+  const others = sort.filter((entry) => entry.field !== field);
+  if (!current) {
+    return [...others, cycled as TaskSort].slice(-MAX_SORT_KEYS);
+  }
+  return sort.flatMap((entry) => (entry.field !== field ? [entry] : cycled ? [cycled] : []));
+};
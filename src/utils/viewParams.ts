@@ -0,0 +1,92 @@
+import {
+  AssignmentFilter,
+  DueDateFilter,
+  TaskCategory,
+  TaskFilter,
+  TaskPriority,
+  TaskStatus
+} from '../types/task';
+import { SortDirection, TaskGroupBy, TaskSort, TaskSortField, ViewMode, ViewState } from '../types/view';
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  viewMode: 'list',
+  filter: {},
+  searchQuery: '',
+  sort: [],
+  groupBy: 'status',
+  collapsedGroups: []
+};
+
+const VIEW_MODES: ViewMode[] = ['list', 'board', 'calendar', 'trash'];
+const STATUSES: TaskStatus[] = ['Todo', 'In-Progress', 'Completed'];
+const CATEGORIES: TaskCategory[] = ['Work', 'Personal'];
+const PRIORITIES: TaskPriority[] = ['High', 'Medium', 'Low'];
+const DUE_DATE_FILTERS: DueDateFilter[] = ['overdue', 'today', 'week', 'custom'];
+const ASSIGNMENTS: AssignmentFilter[] = ['assignedToMe', 'unassigned', 'createdByMe'];
+const SORT_FIELDS: TaskSortField[] = ['title', 'priority', 'dueDate', 'status', 'category', 'createdAt', 'updatedAt'];
+const GROUP_BY: TaskGroupBy[] = ['status', 'category', 'priority', 'dueDate', 'none'];
+const GROUP_KEY = /^[a-zA-Z]+:[\w-]+$/;
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unknown values are dropped, so a hand-edited or outdated link still opens
+const pick = <T extends string>(values: readonly T[], value: string | null) =>
+  values.find((candidate) => candidate === value);
+
+// Only values that differ from the defaults are written, which keeps links short
+export const viewStateToParams = (view: ViewState) => {
+  const params = new URLSearchParams();
+  const { filter } = view;
+
+  if (view.viewMode !== DEFAULT_VIEW_STATE.viewMode) params.set('view', view.viewMode);
+  if (view.searchQuery) params.set('q', view.searchQuery);
+  if (filter.status) params.set('status', filter.status);
+  if (filter.category) params.set('category', filter.category);
+  if (filter.priority) params.set('priority', filter.priority);
+  if (filter.dueDate) params.set('due', filter.dueDate);
+  if (filter.dueDate === 'custom' && filter.dueDateFrom) params.set('from', filter.dueDateFrom);
+  if (filter.dueDate === 'custom' && filter.dueDateTo) params.set('to', filter.dueDateTo);
+  if (filter.assignment) params.set('assignment', filter.assignment);
+  if (view.sort.length > 0) {
+    params.set('sort', view.sort.map(({ field, direction }) => `${field}:${direction}`).join(','));
+  }
+  if (view.groupBy !== DEFAULT_VIEW_STATE.groupBy) params.set('group', view.groupBy);
+  if (view.collapsedGroups.length > 0) params.set('collapsed', [...view.collapsedGroups].sort().join(','));
+  return params;
+};
+
+export const paramsToViewState = (params: URLSearchParams): ViewState => {
+  const filter: TaskFilter = {
+    status: pick(STATUSES, params.get('status')),
+    category: pick(CATEGORIES, params.get('category')),
+    priority: pick(PRIORITIES, params.get('priority')),
+    dueDate: pick(DUE_DATE_FILTERS, params.get('due')),
+    assignment: pick(ASSIGNMENTS, params.get('assignment'))
+  };
+  if (filter.dueDate === 'custom') {
+    const from = params.get('from');
+    const to = params.get('to');
+    if (from && DAY.test(from)) filter.dueDateFrom = from;
+    if (to && DAY.test(to)) filter.dueDateTo = to;
+  }
+
+  const sort = (params.get('sort') ?? '')
+    .split(',')
+    .map((entry) => entry.split(':'))
+    .flatMap(([field, direction]): TaskSort[] => {
+      const sortField = pick(SORT_FIELDS, field);
+      return sortField ? [{ field: sortField, direction: (direction === 'desc' ? 'desc' : 'asc') as SortDirection }] : [];
+    })
+    .filter((entry, index, entries) => entries.findIndex((other) => other.field === entry.field) === index);
+
+  return {
+    viewMode: pick(VIEW_MODES, params.get('view')) ?? DEFAULT_VIEW_STATE.viewMode,
+    // Drop the keys that weren't set, so filters compare equal to {}
+    filter: Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)),
+    searchQuery: params.get('q') ?? '',
+    sort,
+    groupBy: pick(GROUP_BY, params.get('group')) ?? DEFAULT_VIEW_STATE.groupBy,
+    collapsedGroups: (params.get('collapsed') ?? '').split(',').filter((key) => GROUP_KEY.test(key))
+  };
+};
+
+export const viewStateToQuery = (view: ViewState) => viewStateToParams(view).toString();
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TASK_BACKEND?: import('./types/taskRepository').TaskBackend;
+  readonly VITE_TASK_API_URL?: string;
+}
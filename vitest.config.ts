@@ -0,0 +1,25 @@
+import { defineConfig, mergeConfig } from 'vitest/config'
+import viteConfig from './vite.config'
+
+// `npm test` runs everything but the *.emulator.test.ts files, with tasks in
+// memory. Those run with `npm run test:emulators`, which starts the Firebase
+// emulators first.
+export default defineConfig(({ mode }) => {
+  const emulators = mode === 'emulators'
+  return mergeConfig(viteConfig, {
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['src/test/setup.ts'],
+      include: emulators ? ['src/**/*.emulator.test.{ts,tsx}'] : ['src/**/*.test.{ts,tsx}'],
+      exclude: emulators ? [] : ['src/**/*.emulator.test.{ts,tsx}'],
+      env: {
+        VITE_USE_FIREBASE_EMULATORS: 'true',
+        VITE_FIREBASE_PROJECT_ID: 'demo-taskbuddy',
+        VITE_TASK_BACKEND: emulators ? 'firestore' : 'memory',
+      },
+      // The emulator suites share one database
+      fileParallelism: !emulators,
+      testTimeout: emulators ? 20000 : 5000,
+    },
+  })
+})